@@ -5,10 +5,24 @@ import ResultsDisplay from './components/ResultsDisplay';
 import Header from './components/Header';
 import Chatbot from './components/Chatbot';
 import RConsole from './components/RConsole';
-import type { AnalysisType, AnalysisResult, GeneData, SampleMetadata, GeneIdentifierType, CountMatrix, GseaResult, GseaDatabase } from './types';
-import { parseCountMatrix, parseTextMetadata, parseExcelMetadata, convertIdsToSymbols, remapMatrixToSymbols } from './utils/parser';
+import ColumnMappingDialog, { type ColumnMappingRequest } from './components/ColumnMappingDialog';
+import GeneDetailPanel from './components/GeneDetailPanel';
+import type { AnalysisType, AnalysisResult, SampleMetadata, GeneIdentifierType, CountMatrix, GseaResult, GseaDatabase, ComparisonResult, DesignTerm, FeatureLengths, CountImportSummary, StarStrandedness, Tx2GeneMap, ValidationFix, GeneAnnotation, IdConversionProviderType, IdMappingOptions, IdMappingRecord, Organism, PrefilterParams, SampleEdits, DataTable, CountColumnMapping, MetadataColumnMapping, CellAssignments, PseudobulkGrouping, LfcShrinkType, LfcMode, DeEngine, LrtSpec, ConditionContrast, CountTransforms, GeneSelection } from './types';
+import { importCountFiles, buildCountImport, buildSampleMetadata, remapMatrixToSymbols, remapFeatureLengths, remapAverageTxLengths, type CountImport } from './utils/parser';
+import { readTableWorkbook, isExcelFile } from './utils/tables';
+import { parseTx2Gene } from './utils/countFormats';
+import { readFileText } from './utils/fileStream';
+import { parseAnnotationFile } from './utils/annotation';
+import { parseCellAssignments } from './utils/pseudobulk';
 import { getAnalysisFromGemini, resetChat } from './services/geminiService';
 import { RService } from './services/rService';
+import { MyGeneProvider, LocalAnnotationProvider, type IdConversionProvider } from './services/idConversion';
+import { getCovariateColumns, formatDesignFormula, formatReducedFormula } from './utils/design';
+import { validateInputs, applyValidationFix } from './utils/validation';
+import { prefilterGenes, countKeptGenes, DEFAULT_PREFILTER_PARAMS } from './utils/filtering';
+import { applySampleEdits, getExcludedSamples } from './utils/samples';
+import { ENGINE_LABELS, getComparisonLabel } from './utils/results';
+import { applyPairing } from './utils/pairing';
 
 const rService = new RService();
 
@@ -16,15 +30,29 @@ const App: React.FC = () => {
   // Input data state
   const [countMatrix, setCountMatrix] = useState<CountMatrix | null>(null);
   const [sampleMetadata, setSampleMetadata] = useState<SampleMetadata | null>(null);
+  const [sampleEdits, setSampleEdits] = useState<SampleEdits>({});
   const [geneIdType, setGeneIdType] = useState<GeneIdentifierType>('unknown');
   const [originalGeneIdType, setOriginalGeneIdType] = useState<GeneIdentifierType>('unknown');
+  const [featureLengths, setFeatureLengths] = useState<FeatureLengths | null>(null);
+  const [averageTxLengths, setAverageTxLengths] = useState<CountMatrix | null>(null);
+  const [tx2gene, setTx2gene] = useState<Tx2GeneMap | null>(null);
+  const [cellAssignments, setCellAssignments] = useState<CellAssignments | null>(null);
+  const [geneAnnotation, setGeneAnnotation] = useState<GeneAnnotation | null>(null);
+  const [importSummary, setImportSummary] = useState<CountImportSummary | null>(null);
+  const [duplicateGeneIds, setDuplicateGeneIds] = useState<string[]>([]);
+  const [idMappingRecords, setIdMappingRecords] = useState<IdMappingRecord[] | null>(null);
 
   // UI State
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [loadingProgress, setLoadingProgress] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dataFileName, setDataFileName] = useState<string>('');
   const [metadataFileName, setMetadataFileName] = useState<string>('');
+  const [tx2geneFileName, setTx2geneFileName] = useState<string>('');
+  const [cellAssignmentsFileName, setCellAssignmentsFileName] = useState<string>('');
+  const [columnMappingRequest, setColumnMappingRequest] = useState<ColumnMappingRequest | null>(null);
+  const [annotationFileName, setAnnotationFileName] = useState<string>('');
   
   // R Service State
   const [isRReady, setIsRReady] = useState(false);
@@ -36,13 +64,30 @@ const App: React.FC = () => {
   }, []);
 
   // Analysis state
-  const [degResults, setDegResults] = useState<{ [key: string]: GeneData[] } | null>(null);
+  const [degResults, setDegResults] = useState<{ [key: string]: ComparisonResult } | null>(null);
+  // Normalized, VST and rlog matrices of the last run, shared by exports and plots
+  const [countTransforms, setCountTransforms] = useState<CountTransforms | null>(null);
+  const [countTransformsError, setCountTransformsError] = useState<string | null>(null);
+  const [selectedGene, setSelectedGene] = useState<string | null>(null);
+  // Named gene lists saved from the heatmap; they outlive runs but not the count data
+  const [geneSelections, setGeneSelections] = useState<GeneSelection[]>([]);
   const [gseaResults, setGseaResults] = useState<{ [key: string]: { [db in GseaDatabase]?: GseaResult[] } }>({});
   const [currentAnalysis, setCurrentAnalysis] = useState<AnalysisResult | null>(null);
   const [currentComparison, setCurrentComparison] = useState<string | null>(null);
   
   // User Configuration
   const [pValueThreshold, setPValueThreshold] = useState<number>(0.05);
+  const [prefilterParams, setPrefilterParams] = useState<PrefilterParams>(DEFAULT_PREFILTER_PARAMS);
+  const [deEngines, setDeEngines] = useState<DeEngine[]>(['deseq2']);
+  const [pairingColumn, setPairingColumn] = useState<string | null>(null);
+  // Shrinkage is opt-in, and DEG calls keep using the raw fold changes until asked otherwise
+  const [lfcShrinkType, setLfcShrinkType] = useState<LfcShrinkType>('none');
+  const [lfcMode, setLfcMode] = useState<LfcMode>('raw');
+  const [starStrandedness, setStarStrandedness] = useState<StarStrandedness>('auto');
+  const [pseudobulkGrouping, setPseudobulkGrouping] = useState<PseudobulkGrouping>('sample');
+  const [organism, setOrganism] = useState<Organism>('human');
+  const [idProviderType, setIdProviderType] = useState<IdConversionProviderType>('mygene');
+  const [idMappingOptions, setIdMappingOptions] = useState<IdMappingOptions>({ keepUnmapped: false, collapseStrategy: 'sum' });
 
   useEffect(() => {
     const initializeR = async () => {
@@ -65,41 +110,121 @@ const App: React.FC = () => {
   }, [handleRLog]);
 
 
+  // The edited view of the uploaded data that every analysis runs on
+  const editedSamples = useMemo(() => {
+    if (!countMatrix || !sampleMetadata) return null;
+    return applySampleEdits(countMatrix, sampleMetadata, sampleEdits);
+  }, [countMatrix, sampleMetadata, sampleEdits]);
+  const analysisMatrix = editedSamples?.matrix ?? null;
+  const analysisMetadata = editedSamples?.metadata ?? null;
+
+  const analysisTxLengths = useMemo(() => {
+    if (!averageTxLengths || !countMatrix || !sampleMetadata) return null;
+    return applySampleEdits(averageTxLengths, sampleMetadata, sampleEdits).matrix;
+  }, [averageTxLengths, countMatrix, sampleMetadata, sampleEdits]);
+
+  useEffect(() => {
+    // A fit on other samples or counts can never be reused; free it in the R session
+    rService.invalidateModelCache().catch(e => console.error('Failed to clear the cached DESeq2 model:', e));
+  }, [analysisMatrix, analysisMetadata, analysisTxLengths]);
+
   const conditions = useMemo(() => {
-    if (!sampleMetadata) return [];
-    return [...new Set(Object.values(sampleMetadata))];
-  }, [sampleMetadata]);
+    if (!analysisMetadata) return [];
+    return [...new Set(Object.keys(analysisMetadata).map(s => analysisMetadata[s].condition))];
+  }, [analysisMetadata]);
+
+  const covariateColumns = useMemo(() => {
+    return analysisMetadata ? getCovariateColumns(analysisMetadata) : [];
+  }, [analysisMetadata]);
+
+  useEffect(() => {
+    // A pairing column that is gone after a new metadata upload can no longer be used
+    if (pairingColumn && !covariateColumns.some(c => c.name === pairingColumn)) setPairingColumn(null);
+  }, [covariateColumns, pairingColumn]);
+
+  const pairing = useMemo(() => {
+    if (!analysisMetadata || !pairingColumn) return null;
+    return applyPairing(analysisMetadata, pairingColumn);
+  }, [analysisMetadata, pairingColumn]);
+
+  const validationIssues = useMemo(() => {
+    if (!analysisMatrix || !analysisMetadata) return [];
+    return validateInputs(analysisMatrix, analysisMetadata, {
+        duplicateGeneIds,
+        allowFractionalCounts: !!averageTxLengths,
+    });
+  }, [analysisMatrix, analysisMetadata, duplicateGeneIds, averageTxLengths]);
+
+  const prefilterPreview = useMemo(() => {
+    if (!analysisMatrix || !analysisMetadata) return null;
+    // Only the gene counts; the full report with its density is built when the analysis runs
+    return countKeptGenes(analysisMatrix, pairing?.metadata ?? analysisMetadata, prefilterParams);
+  }, [analysisMatrix, analysisMetadata, pairing, prefilterParams]);
 
   const comparisons = useMemo(() => {
     return degResults ? Object.keys(degResults) : [];
   }, [degResults]);
 
-  const handleCountMatrixUpload = useCallback(async (file: File) => {
-    setIsLoading(true);
-    setLoadingMessage('Parsing count matrix...');
+  const resetCountData = (fileName: string) => {
     setError(null);
     setCountMatrix(null);
+    setSampleEdits({});
+    setFeatureLengths(null);
+    setAverageTxLengths(null);
+    setImportSummary(null);
+    setDuplicateGeneIds([]);
+    setIdMappingRecords(null);
     setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
     setCurrentAnalysis(null);
-    setDataFileName(file.name);
+    setDataFileName(fileName);
     setCurrentComparison(null);
     setGseaResults({});
+    setGeneSelections([]);
+  };
 
+  // Shared by every count import path: converts gene IDs to symbols and stores the result.
+  const loadCountImport = useCallback(async (load: () => Promise<CountImport>) => {
+    setIsLoading(true);
     try {
-        const text = await file.text();
-        let { matrix, identifierType } = parseCountMatrix(text);
+        let { matrix, identifierType, featureLengths: lengths, averageTxLengths: txLengths, duplicateGeneIds: duplicates = [], summary, metadata } = await load();
+        setLoadingProgress(null);
 
         if (Object.keys(matrix).length === 0) {
-          throw new Error("Failed to parse file. Ensure it's a valid CSV/TSV with a gene identifier column and sample columns.");
+          throw new Error("Failed to parse file. Ensure it has a gene identifier column and sample columns.");
         }
         
         setOriginalGeneIdType(identifierType);
+        const warnings: string[] = [];
         
         if (identifierType !== 'symbol' && identifierType !== 'unknown') {
-            setLoadingMessage(`Converting ${identifierType} IDs to symbols...`);
+            let provider: IdConversionProvider;
+            if (idProviderType === 'local') {
+                if (!geneAnnotation) {
+                  throw new Error("Local ID conversion needs an annotation file. Upload a GTF/GFF3 or two-column mapping file under Import Options.");
+                }
+                provider = new LocalAnnotationProvider(geneAnnotation, annotationFileName);
+            } else {
+                provider = new MyGeneProvider(organism);
+            }
+            setLoadingMessage(`Converting ${identifierType} IDs to symbols with ${provider.label}...`);
             const geneIds = Object.keys(matrix);
-            const conversionMap = await convertIdsToSymbols(geneIds, identifierType);
-            matrix = remapMatrixToSymbols(matrix, conversionMap);
+            const { map: conversionMap, failures } = await provider.convert(geneIds, identifierType);
+            if (failures.length > 0) {
+                if (Object.keys(conversionMap).length === 0) {
+                  throw new Error(`ID conversion with ${provider.label} failed:\n${failures.join('\n')}`);
+                }
+                const outcome = idMappingOptions.keepUnmapped ? 'genes in them keep their original IDs' : 'genes in them were dropped';
+                warnings.push(`${failures.length} ID conversion batch(es) failed; ${outcome}.`, ...failures);
+            }
+            const mapping = remapMatrixToSymbols(matrix, conversionMap, idMappingOptions);
+            const { finalIds } = mapping;
+            if (txLengths) txLengths = remapAverageTxLengths(txLengths, matrix, finalIds);
+            matrix = mapping.matrix;
+            if (lengths) lengths = remapFeatureLengths(lengths, finalIds);
+            duplicates = [...new Set(duplicates.filter(id => finalIds[id]).map(id => finalIds[id]))];
+            setIdMappingRecords(mapping.records);
             identifierType = 'symbol';
              if (Object.keys(matrix).length === 0) {
               throw new Error("No gene identifiers could be converted to symbols. Please check your ID format.");
@@ -107,66 +232,177 @@ const App: React.FC = () => {
         }
 
         setCountMatrix(matrix);
+        setFeatureLengths(lengths ?? null);
+        setAverageTxLengths(txLengths ?? null);
+        setDuplicateGeneIds(duplicates);
+        setImportSummary({ ...summary, geneCount: Object.keys(matrix).length, warnings: [...(summary.warnings ?? []), ...warnings] });
         setGeneIdType(identifierType);
+        if (metadata) {
+            // Pseudobulk imports replace any uploaded metadata with the generated one
+            setSampleMetadata(metadata);
+            setMetadataFileName(`Generated from ${cellAssignmentsFileName}`);
+        }
     } catch (e: any) {
         setError(e.message);
         setDataFileName('');
     } finally {
         setIsLoading(false);
+        setLoadingProgress(null);
+    }
+  }, [idProviderType, geneAnnotation, annotationFileName, idMappingOptions, organism, cellAssignmentsFileName]);
+
+  const handleCountMatrixUpload = useCallback(async (files: File[]) => {
+    if (files.length === 1 && isExcelFile(files[0].name)) {
+        // Workbooks go through the column-mapping dialog first
+        setError(null);
+        try {
+            setColumnMappingRequest({ kind: 'counts', workbook: await readTableWorkbook(files[0]) });
+        } catch (e: any) {
+            setError(`Could not read ${files[0].name}: ${e.message}`);
+        }
+        return;
+    }
+
+    setLoadingMessage(files.length > 1 ? `Parsing ${files.length} count files...` : 'Parsing count matrix...');
+    resetCountData(files.length > 1 ? `${files.length} files (${files[0].name}, ...)` : files[0].name);
+    await loadCountImport(() => importCountFiles(files, { starStrandedness, tx2gene, cellAssignments, pseudobulkGrouping }, setLoadingProgress));
+  }, [loadCountImport, starStrandedness, tx2gene, cellAssignments, pseudobulkGrouping]);
+
+  const handleCountMappingConfirm = useCallback(async (table: DataTable, mapping: CountColumnMapping, sheetName: string) => {
+    const workbook = columnMappingRequest!.workbook;
+    setColumnMappingRequest(null);
+    setLoadingMessage('Parsing count matrix...');
+    resetCountData(workbook.sheetNames.length > 1 ? `${workbook.fileName} (${sheetName})` : workbook.fileName);
+    await loadCountImport(async () => buildCountImport(table, mapping));
+  }, [columnMappingRequest, loadCountImport]);
+
+  const handleTx2GeneUpload = useCallback(async (file: File) => {
+    setError(null);
+    try {
+        const map = parseTx2Gene(await readFileText(file));
+        if (Object.keys(map).length === 0) {
+          throw new Error("Failed to parse the tx2gene table. Expected two columns: transcript ID and gene ID.");
+        }
+        setTx2gene(map);
+        setTx2geneFileName(file.name);
+    } catch (e: any) {
+        setError(e.message);
+        setTx2gene(null);
+        setTx2geneFileName('');
     }
   }, []);
 
+  const handleCellAssignmentsUpload = useCallback(async (file: File) => {
+    setError(null);
+    try {
+        const assignments = parseCellAssignments(await readFileText(file));
+        if (Object.keys(assignments).length === 0) {
+          throw new Error("Failed to parse the cell assignment table. Expected columns: barcode, sample and optionally cell type and condition.");
+        }
+        setCellAssignments(assignments);
+        setCellAssignmentsFileName(file.name);
+    } catch (e: any) {
+        setError(e.message);
+        setCellAssignments(null);
+        setCellAssignmentsFileName('');
+    }
+  }, []);
 
-  const handleMetadataUpload = (file: File) => {
+  const handleAnnotationUpload = useCallback(async (file: File) => {
     setIsLoading(true);
-    setLoadingMessage('Parsing metadata...');
+    setLoadingMessage('Reading annotation file...');
+    setError(null);
+    try {
+        const { annotation } = await parseAnnotationFile(file);
+        if (Object.keys(annotation).length === 0) {
+          throw new Error("No identifier-to-symbol mappings found. Expected a GTF/GFF3 file with gene names, or two columns: gene ID and symbol.");
+        }
+        setGeneAnnotation(annotation);
+        setAnnotationFileName(file.name);
+    } catch (e: any) {
+        setError(e.message);
+        setGeneAnnotation(null);
+        setAnnotationFileName('');
+    } finally {
+        setIsLoading(false);
+    }
+  }, []);
+
+  const handleMetadataUpload = async (file: File) => {
+    setError(null);
+    try {
+        setColumnMappingRequest({ kind: 'metadata', workbook: await readTableWorkbook(file) });
+    } catch (e: any) {
+        setError(`Could not read ${file.name}: ${e.message}`);
+    }
+  };
+
+  const handleMetadataMappingConfirm = (table: DataTable, mapping: MetadataColumnMapping, sheetName: string) => {
+    const workbook = columnMappingRequest!.workbook;
+    setColumnMappingRequest(null);
     setError(null);
     setSampleMetadata(null);
+    setSampleEdits({});
     setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
     setCurrentAnalysis(null);
-    setMetadataFileName(file.name);
     setCurrentComparison(null);
     setGseaResults({});
 
-    const reader = new FileReader();
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-
-    reader.onload = (event) => {
-      try {
-        let parsedData: SampleMetadata;
-        if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-            const buffer = event.target?.result as ArrayBuffer;
-            parsedData = parseExcelMetadata(buffer);
-        } else {
-            const text = event.target?.result as string;
-            parsedData = parseTextMetadata(text);
-        }
-         if (Object.keys(parsedData).length === 0) {
-          throw new Error("Failed to parse metadata. Ensure it's a valid file with 'sample' and 'condition' columns and at least one data row.");
+    try {
+        const parsedData = buildSampleMetadata(table, mapping);
+        if (Object.keys(parsedData).length === 0) {
+          throw new Error("Failed to parse metadata. Ensure the chosen sample and condition columns have values in at least one row.");
         }
         setSampleMetadata(parsedData);
-      } catch (e: any) {
+        setMetadataFileName(workbook.sheetNames.length > 1 ? `${workbook.fileName} (${sheetName})` : workbook.fileName);
+    } catch (e: any) {
         setError(e.message);
         setMetadataFileName('');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    reader.onerror = () => {
-      setError('Failed to read the metadata file.');
-      setIsLoading(false);
-      setMetadataFileName('');
-    };
-    
-    if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-        reader.readAsArrayBuffer(file);
-    } else {
-        reader.readAsText(file);
     }
   };
 
-  const handlePrimaryAnalysis = useCallback(async (comparisonsToRun: {A: string, B: string}[]) => {
-    if (!countMatrix || !sampleMetadata) {
+  // Results of the last run describe the samples as they were before the edit
+  const handleSampleEditsChange = useCallback((edits: SampleEdits) => {
+    setSampleEdits(edits);
+    setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
+    setCurrentAnalysis(null);
+    setCurrentComparison(null);
+    setGseaResults({});
+  }, []);
+
+  const handleValidationFix = useCallback((fix: ValidationFix) => {
+    if (!countMatrix || !editedSamples) return;
+    if (fix.kind === 'drop_samples') {
+        // Issues name samples as they appear in the edited view
+        setSampleEdits(prev => {
+            const next = { ...prev };
+            fix.samples.forEach(s => {
+                const original = editedSamples.originalNames[s] ?? s;
+                next[original] = { ...next[original], excluded: true };
+            });
+            return next;
+        });
+    } else {
+        setCountMatrix(applyValidationFix(fix, countMatrix));
+        if (fix.kind === 'drop_genes') {
+            const dropped = new Set(fix.genes);
+            setDuplicateGeneIds(prev => prev.filter(id => !dropped.has(id)));
+        }
+    }
+    setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
+    setCurrentAnalysis(null);
+    setCurrentComparison(null);
+    setGseaResults({});
+  }, [countMatrix, editedSamples]);
+
+  const handlePrimaryAnalysis = useCallback(async (contrasts: ConditionContrast[], design: DesignTerm[], lrt?: LrtSpec) => {
+    if (!analysisMatrix || !analysisMetadata) {
       setError('Count matrix and metadata are required for analysis.');
       return;
     }
@@ -178,18 +414,63 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
     setCurrentAnalysis(null);
     setCurrentComparison(null);
     setGseaResults({});
 
-    const allResults: { [key: string]: GeneData[] } = {};
+    // With a pairing column, the subject is fitted first and unpaired samples are left out
+    const runMetadata = pairing ? pairing.metadata : analysisMetadata;
+    const runDesign = pairing ? [{ name: pairing.report.column, type: 'categorical' as const }, ...design.filter(t => t.name !== pairing.report.column)] : design;
+    const allResults: { [key: string]: ComparisonResult } = {};
+    const designFormula = formatDesignFormula(runDesign);
+    const excludedSamples = getExcludedSamples(sampleEdits);
+    const pairingReport = pairing ? { pairing: pairing.report } : {};
     
     try {
-        for (const comp of comparisonsToRun) {
-            const comparisonName = `${comp.B}_vs_${comp.A}`;
-            setLoadingMessage(`Running DESeq2 for ${comparisonName}...`);
-            const results = await rService.runDeseq2(countMatrix, sampleMetadata, comp.A, comp.B);
-            allResults[comparisonName] = results;
+        if (pairing && pairing.report.subjects === 0) {
+          throw new Error(`No ${pairing.report.column} has samples under more than one condition, so there is nothing to pair.`);
+        }
+        const { matrix: filteredMatrix, report: prefilter } = prefilterGenes(analysisMatrix, runMetadata, prefilterParams);
+        if (prefilter.genesAfter === 0) {
+          throw new Error('No genes passed the low-count filter. Relax the filter settings and try again.');
+        }
+
+        if (lrt) {
+            // The omnibus test is a DESeq2 feature; it runs once, whatever the selected methods
+            const contrast = `LRT_${lrt.droppedTerms.join('_')}`;
+            const reducedDesign = formatReducedFormula(runDesign, lrt.droppedTerms);
+            setLoadingMessage(`Running DESeq2 LRT (${designFormula} vs ${reducedDesign})...`);
+            // Only the baseline of the contrast matters for the LRT: it sets the reference level
+            const lrtContrast: ConditionContrast = { name: contrast, kind: 'custom', baseline: lrt.baseline, weights: {} };
+            const { genes, reusedFit, diagnostics } = await rService.runDeseq2(filteredMatrix, runMetadata, lrtContrast, runDesign, { averageTxLengths: analysisTxLengths, reducedDesign });
+            allResults[`${contrast}_deseq2`] = { genes, reusedFit, diagnostics, engine: 'deseq2', test: 'lrt', contrast, design: designFormula, reducedDesign, prefilter, excludedSamples, lfcShrink: 'none', ...pairingReport };
+        }
+
+        for (const contrast of contrasts) {
+            for (const engine of deEngines) {
+                // Shrinkage is a DESeq2 step; the other engines only report their own estimates.
+                // DESeq2 contrasts share one fit, with the first contrast's baseline as reference
+                setLoadingMessage(`Running ${ENGINE_LABELS[engine]} for ${contrast.name} (${designFormula})...`);
+                const { genes, reusedFit, lfcShrink, diagnostics } = await rService.runDifferentialExpression(engine, filteredMatrix, runMetadata, contrast, runDesign, { averageTxLengths: analysisTxLengths, lfcShrink: engine === 'deseq2' ? lfcShrinkType : 'none', referenceLevel: contrasts[0].baseline });
+                allResults[`${contrast.name}_${engine}`] = {
+                    genes, reusedFit, diagnostics, engine, test: 'wald', contrast: contrast.name, design: designFormula, prefilter, excludedSamples, lfcShrink, ...pairingReport,
+                    ...(contrast.kind === 'custom' ? { contrastWeights: contrast.weights } : {}),
+                };
+            }
+        }
+
+        // Normalization and the VST/rlog come from the DESeq2 model, whichever engines ran
+        setLoadingMessage('Computing normalized counts and variance-stabilized matrices...');
+        const baseline = lrt ? lrt.baseline : contrasts[0].baseline;
+        try {
+            const matrices = await rService.getCountTransforms(filteredMatrix, runMetadata, baseline, runDesign, { averageTxLengths: analysisTxLengths });
+            setCountTransforms({ ...matrices, design: designFormula, comparisons: Object.keys(allResults).map(key => getComparisonLabel(allResults[key])), excludedSamples, ...pairingReport });
+        } catch (e: any) {
+            // The differential expression results stand on their own
+            console.error('Failed to compute normalized counts:', e);
+            setCountTransformsError(e.message);
         }
 
         setDegResults(allResults);
@@ -198,7 +479,7 @@ const App: React.FC = () => {
 
         // After all DEG runs, get an AI summary for the first one
         setLoadingMessage('Getting AI interpretation...');
-        const summaryResult = await getAnalysisFromGemini('summary', allResults[firstComparison], pValueThreshold);
+        const summaryResult = await getAnalysisFromGemini('summary', allResults[firstComparison].genes, pValueThreshold, lfcMode, allResults[firstComparison]);
         setCurrentAnalysis(summaryResult);
 
     } catch (e: any) {
@@ -206,22 +487,18 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [countMatrix, sampleMetadata, isRReady, pValueThreshold]);
+  }, [analysisMatrix, analysisMetadata, analysisTxLengths, pairing, sampleEdits, isRReady, pValueThreshold, prefilterParams, deEngines, lfcShrinkType, lfcMode]);
 
 
   // FIX: Replaced the incorrect `Omit<AnalysisType, 'pathway'>` with a more specific union type to fix the TypeScript error.
-  const handleSubsequentAnalysis = useCallback(async (analysisType: 'summary' | 'volcano' | 'ma_plot' | 'heatmap') => {
+  const handleSubsequentAnalysis = useCallback(async (analysisType: 'summary' | 'volcano' | 'ma_plot' | 'heatmap' | 'concordance' | 'qc' | 'diagnostics') => {
     if (!degResults || !currentComparison) {
       setError('Please run the primary Differential Expression Analysis first.');
       return;
     }
-    const currentData = degResults[currentComparison];
+    const currentData = degResults[currentComparison].genes;
     
-    if (analysisType === 'volcano' || analysisType === 'ma_plot' || analysisType === 'heatmap') {
-         if (analysisType === 'ma_plot' && (!currentData[0].averageExpression || isNaN(currentData[0].averageExpression))) {
-            setError("MA Plot requires an 'averageExpression' or 'baseMean' value, which was not found in the DESeq2 results.");
-            return;
-        }
+    if (analysisType === 'volcano' || analysisType === 'ma_plot' || analysisType === 'heatmap' || analysisType === 'concordance' || analysisType === 'qc' || analysisType === 'diagnostics') {
         setCurrentAnalysis({
             type: analysisType,
             text: currentAnalysis?.text ?? '',
@@ -236,14 +513,14 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-      const result = await getAnalysisFromGemini(analysisType, currentData, pValueThreshold);
+      const result = await getAnalysisFromGemini(analysisType, currentData, pValueThreshold, lfcMode, degResults[currentComparison]);
       setCurrentAnalysis(result);
     } catch (e: any) {
       setError(`Analysis failed: ${e.message}`);
     } finally {
       setIsLoading(false);
     }
-  }, [degResults, currentAnalysis, currentComparison, pValueThreshold]);
+  }, [degResults, currentAnalysis, currentComparison, pValueThreshold, lfcMode]);
   
   const handleGseaAnalysis = useCallback(async (db: GseaDatabase) => {
      if (!degResults || !currentComparison) {
@@ -265,8 +542,8 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-        const currentData = degResults[currentComparison];
-        const results = await rService.runGsea(currentData, db);
+        const currentData = degResults[currentComparison].genes;
+        const results = await rService.runGsea(currentData, db, organism, lfcMode);
 
         setGseaResults(prev => ({
             ...prev,
@@ -287,32 +564,64 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [degResults, currentComparison, gseaResults]);
+  }, [degResults, currentComparison, gseaResults, organism, lfcMode]);
+
+  const handleLfcModeChange = (value: LfcMode) => {
+    setLfcMode(value);
+    // GSEA ranks genes by the fold change in use, so cached results no longer apply
+    setGseaResults({});
+    if (currentAnalysis?.type === 'gsea') setCurrentAnalysis(null);
+  };
+
+  const handleOrganismChange = (value: Organism) => {
+    setOrganism(value);
+    // Cached GSEA results were computed against the previous organism's databases
+    setGseaResults({});
+    if (currentAnalysis?.type === 'gsea') setCurrentAnalysis(null);
+  };
 
   const clearData = () => {
     setCountMatrix(null);
+    setSampleEdits({});
+    setFeatureLengths(null);
+    setAverageTxLengths(null);
+    setImportSummary(null);
+    setDuplicateGeneIds([]);
+    setIdMappingRecords(null);
     setCurrentAnalysis(null);
     setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
     setError(null);
     setDataFileName('');
     setGeneIdType('unknown');
     setOriginalGeneIdType('unknown');
     setCurrentComparison(null);
     setGseaResults({});
+    setGeneSelections([]);
     resetChat();
   };
 
   const clearMetadata = () => {
     setSampleMetadata(null);
+    setSampleEdits({});
     setCurrentAnalysis(null);
     setDegResults(null);
+    setCountTransforms(null);
+    setCountTransformsError(null);
     setMetadataFileName('');
     setCurrentComparison(null);
     setGseaResults({});
     resetChat();
   }
 
-  const currentDegData = currentComparison && degResults ? degResults[currentComparison] : null;
+  // A selection saved under an existing name replaces it
+  const handleSaveGeneSelection = (selection: GeneSelection) => {
+    setGeneSelections(prev => [...prev.filter(s => s.name !== selection.name), selection]);
+  };
+
+  const currentResult = currentComparison && degResults ? degResults[currentComparison] : null;
+  const currentContrastEngineCount = currentResult ? Object.keys(degResults).filter(key => degResults[key].contrast === currentResult.contrast).length : 0;
 
   return (
     <div className="flex flex-col h-screen bg-gray-900 font-sans">
@@ -331,29 +640,103 @@ const App: React.FC = () => {
           metadataFileName={metadataFileName}
           onClearData={clearData}
           onClearMetadata={clearMetadata}
+          countMatrix={countMatrix}
+          sampleMetadata={sampleMetadata}
+          sampleEdits={sampleEdits}
+          onSampleEditsChange={handleSampleEditsChange}
           conditions={conditions}
+          covariateColumns={covariateColumns}
           geneIdType={geneIdType}
           originalGeneIdType={originalGeneIdType}
+          importSummary={importSummary}
+          idMappingRecords={idMappingRecords}
+          idMappingOptions={idMappingOptions}
+          onIdMappingOptionsChange={setIdMappingOptions}
+          validationIssues={validationIssues}
+          onApplyValidationFix={handleValidationFix}
+          starStrandedness={starStrandedness}
+          onStarStrandednessChange={setStarStrandedness}
+          tx2geneFileName={tx2geneFileName}
+          onTx2GeneUpload={handleTx2GeneUpload}
+          onClearTx2Gene={() => { setTx2gene(null); setTx2geneFileName(''); }}
+          cellAssignmentsFileName={cellAssignmentsFileName}
+          onCellAssignmentsUpload={handleCellAssignmentsUpload}
+          onClearCellAssignments={() => { setCellAssignments(null); setCellAssignmentsFileName(''); }}
+          pseudobulkGrouping={pseudobulkGrouping}
+          onPseudobulkGroupingChange={setPseudobulkGrouping}
+          organism={organism}
+          onOrganismChange={handleOrganismChange}
+          idProviderType={idProviderType}
+          onIdProviderTypeChange={setIdProviderType}
+          annotationFileName={annotationFileName}
+          onAnnotationUpload={handleAnnotationUpload}
+          onClearAnnotation={() => { setGeneAnnotation(null); setAnnotationFileName(''); }}
           pValueThreshold={pValueThreshold}
           onPValueThresholdChange={setPValueThreshold}
+          prefilterParams={prefilterParams}
+          onPrefilterParamsChange={setPrefilterParams}
+          prefilterPreview={prefilterPreview}
+          pairingColumn={pairingColumn}
+          onPairingColumnChange={setPairingColumn}
+          pairingReport={pairing?.report ?? null}
+          deEngines={deEngines}
+          onDeEnginesChange={setDeEngines}
+          canCompareEngines={currentContrastEngineCount >= 2}
+          hasCountTransforms={!!countTransforms}
+          countTransformsError={countTransformsError}
+          lfcShrinkType={lfcShrinkType}
+          onLfcShrinkTypeChange={setLfcShrinkType}
+          lfcMode={lfcMode}
+          onLfcModeChange={handleLfcModeChange}
+          hasShrunkenLfc={!!currentResult && currentResult.lfcShrink !== 'none'}
         />
         <main className="flex-1 p-6 overflow-y-auto">
           <ResultsDisplay
             isLoading={isLoading || !isRReady}
             loadingMessage={loadingMessage}
+            loadingProgress={loadingProgress}
             error={error}
             result={currentAnalysis}
-            data={currentDegData}
-            countMatrix={countMatrix}
+            comparisonResult={currentResult}
+            countMatrix={analysisMatrix}
+            sampleMetadata={analysisMetadata}
             rService={rService}
+            degResults={degResults}
+            countTransforms={countTransforms}
             comparisons={comparisons}
             currentComparison={currentComparison}
             onComparisonChange={setCurrentComparison}
             gseaResults={gseaResults}
+            pValueThreshold={pValueThreshold}
+            lfcMode={lfcMode}
+            onGeneSelect={setSelectedGene}
+            geneSelections={geneSelections}
+            onSaveGeneSelection={handleSaveGeneSelection}
           />
         </main>
       </div>
-      {currentDegData && <Chatbot degResults={currentDegData} pValueThreshold={pValueThreshold}/>}
+      {currentResult && <Chatbot comparison={currentResult} pValueThreshold={pValueThreshold} lfcMode={lfcMode}/>}
+      {selectedGene && degResults && (
+        <GeneDetailPanel
+          gene={selectedGene}
+          transforms={countTransforms}
+          countMatrix={analysisMatrix}
+          sampleMetadata={analysisMetadata}
+          degResults={degResults}
+          gseaResults={gseaResults}
+          pValueThreshold={pValueThreshold}
+          lfcMode={lfcMode}
+          onClose={() => setSelectedGene(null)}
+        />
+      )}
+      {columnMappingRequest && (
+        <ColumnMappingDialog
+          request={columnMappingRequest}
+          onConfirmCounts={handleCountMappingConfirm}
+          onConfirmMetadata={handleMetadataMappingConfirm}
+          onCancel={() => setColumnMappingRequest(null)}
+        />
+      )}
       <RConsole 
         isOpen={isRConsoleOpen}
         onClose={() => setIsRConsoleOpen(false)}
@@ -0,0 +1,24 @@
+import React from 'react';
+
+export const DownloadIcon: React.FC<{className?: string}> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+);
+
+const AnalysisResultContainer: React.FC<{title: string; children: React.ReactNode; onDownload?: () => void, downloadLabel?: string }> = ({ title, children, onDownload, downloadLabel }) => (
+     <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-cyan-400 capitalize">
+                {title}
+            </h2>
+            {onDownload && (
+                <button onClick={onDownload} className="flex items-center space-x-2 text-sm bg-gray-700 hover:bg-cyan-600 text-gray-200 font-semibold py-2 px-3 rounded-lg transition-colors">
+                    <DownloadIcon className="h-4 w-4" />
+                    <span>{downloadLabel || 'Download'}</span>
+                </button>
+            )}
+        </div>
+        {children}
+    </div>
+);
+
+export default AnalysisResultContainer;
@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage, GeneData } from '../types';
+import type { ChatMessage, ComparisonResult, LfcMode } from '../types';
 import { getChatResponseStream, initChat, resetChat } from '../services/geminiService';
 
 const ChatIcon: React.FC<{ className?: string }> = ({ className }) => (
@@ -16,11 +16,12 @@ const SendIcon: React.FC<{ className?: string }> = ({ className }) => (
 );
 
 interface ChatbotProps {
-    degResults: GeneData[];
+    comparison: ComparisonResult;
     pValueThreshold: number;
+    lfcMode: LfcMode;
 }
 
-const Chatbot: React.FC<ChatbotProps> = ({ degResults, pValueThreshold }) => {
+const Chatbot: React.FC<ChatbotProps> = ({ comparison, pValueThreshold, lfcMode }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [messages, setMessages] = useState<ChatMessage[]>([
         { role: 'model', text: 'Hello! Ask me anything about your analysis results.' }
@@ -33,13 +34,13 @@ const Chatbot: React.FC<ChatbotProps> = ({ degResults, pValueThreshold }) => {
         // Initialize the chat session whenever the DEG results change.
         // The history passed here is only for the *initial* setup.
         // We only want the system prompt, so we pass an empty history.
-        initChat(degResults, pValueThreshold, []); 
+        initChat(comparison.genes, pValueThreshold, lfcMode, comparison, []); 
         
         // When the component unmounts or results change, reset the chat instance.
         return () => {
             resetChat();
         };
-    }, [degResults, pValueThreshold]);
+    }, [comparison, pValueThreshold, lfcMode]);
 
 
     const scrollToBottom = () => {
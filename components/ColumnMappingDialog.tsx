@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CountColumnMapping, DataTable, MetadataColumnMapping } from '../types';
+import type { TableWorkbook } from '../utils/tables';
+import { guessCountMapping, guessMetadataMapping } from '../utils/parser';
+
+export type ColumnMappingRequest =
+  | { kind: 'counts'; workbook: TableWorkbook }
+  | { kind: 'metadata'; workbook: TableWorkbook };
+
+interface ColumnMappingDialogProps {
+  request: ColumnMappingRequest;
+  onConfirmCounts: (table: DataTable, mapping: CountColumnMapping, sheetName: string) => void;
+  onConfirmMetadata: (table: DataTable, mapping: MetadataColumnMapping, sheetName: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const selectClassName = "mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white";
+
+const columnLabel = (table: DataTable, index: number) => table.headers[index] || `Column ${index + 1}`;
+
+const ColumnSelect: React.FC<{
+    id: string,
+    label: string,
+    table: DataTable,
+    value: number,
+    onChange: (index: number) => void
+}> = ({ id, label, table, value, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs font-medium text-gray-400">{label}</label>
+        <select id={id} value={value} onChange={e => onChange(Number(e.target.value))} className={selectClassName}>
+            <option value={-1}>Choose a column...</option>
+            {table.headers.map((_, i) => <option key={i} value={i}>{columnLabel(table, i)}</option>)}
+        </select>
+    </div>
+);
+
+const ColumnCheckboxes: React.FC<{
+    label: string,
+    table: DataTable,
+    selected: number[],
+    excluded: number[],
+    onChange: (selected: number[]) => void
+}> = ({ label, table, selected, excluded, onChange }) => {
+    const available = table.headers.map((_, i) => i).filter(i => !excluded.includes(i));
+    const toggle = (index: number) => onChange(selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b));
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <label className="text-xs font-medium text-gray-400">{label} ({selected.filter(i => available.includes(i)).length} selected)</label>
+                <div className="space-x-2 text-xs">
+                    <button onClick={() => onChange(available)} className="text-cyan-400 hover:text-cyan-300">All</button>
+                    <button onClick={() => onChange([])} className="text-cyan-400 hover:text-cyan-300">None</button>
+                </div>
+            </div>
+            <div className="mt-1 max-h-40 overflow-y-auto grid grid-cols-2 gap-1 bg-gray-900 border border-gray-700 rounded-md p-2">
+                {available.map(i => (
+                    <label key={i} className="flex items-center text-xs text-gray-300 truncate" title={columnLabel(table, i)}>
+                        <input type="checkbox" checked={selected.includes(i)} onChange={() => toggle(i)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                        {columnLabel(table, i)}
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ request, onConfirmCounts, onConfirmMetadata, onCancel }) => {
+  const { workbook } = request;
+  const [sheetName, setSheetName] = useState(workbook.sheetNames[0]);
+  const table = useMemo(() => workbook.getSheet(sheetName), [workbook, sheetName]);
+  const [countMapping, setCountMapping] = useState<CountColumnMapping>(() => guessCountMapping(table));
+  const [metadataMapping, setMetadataMapping] = useState<MetadataColumnMapping>(() => guessMetadataMapping(table));
+
+  useEffect(() => {
+    // Re-guess the columns whenever another sheet is picked
+    setCountMapping(guessCountMapping(table));
+    setMetadataMapping(guessMetadataMapping(table));
+  }, [table]);
+
+  const isValid = request.kind === 'counts'
+    ? countMapping.geneId !== -1 && countMapping.samples.some(i => i !== countMapping.geneId)
+    : metadataMapping.sample !== -1 && metadataMapping.condition !== -1 && metadataMapping.sample !== metadataMapping.condition;
+
+  const handleConfirm = () => {
+    if (request.kind === 'counts') {
+        onConfirmCounts(table, { ...countMapping, samples: countMapping.samples.filter(i => i !== countMapping.geneId) }, sheetName);
+    } else {
+        const { sample, condition } = metadataMapping;
+        onConfirmMetadata(table, { ...metadataMapping, covariates: metadataMapping.covariates.filter(i => i !== sample && i !== condition) }, sheetName);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto p-6 space-y-4">
+        <div>
+            <h2 className="text-xl font-bold text-cyan-400">{request.kind === 'counts' ? 'Map Count Matrix Columns' : 'Map Sample Metadata Columns'}</h2>
+            <p className="text-sm text-gray-400 truncate" title={workbook.fileName}>{workbook.fileName}</p>
+        </div>
+
+        {workbook.sheetNames.length > 1 && (
+            <div>
+                <label htmlFor="mapping-sheet" className="block text-xs font-medium text-gray-400">Sheet</label>
+                <select id="mapping-sheet" value={sheetName} onChange={e => setSheetName(e.target.value)} className={selectClassName}>
+                    {workbook.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+            </div>
+        )}
+
+        {table.headers.length === 0 ? (
+            <p className="text-sm text-red-400">This sheet is empty.</p>
+        ) : (
+            <>
+                <div className="overflow-x-auto border border-gray-700 rounded-md">
+                    <table className="text-xs text-gray-300 w-full">
+                        <thead className="bg-gray-900">
+                            <tr>{table.headers.map((_, i) => <th key={i} className="px-2 py-1 text-left font-semibold whitespace-nowrap">{columnLabel(table, i)}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                                <tr key={r} className="border-t border-gray-700">{row.map((cell, i) => <td key={i} className="px-2 py-1 whitespace-nowrap">{cell}</td>)}</tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-gray-500">{table.rows.length.toLocaleString()} data rows</p>
+
+                {request.kind === 'counts' ? (
+                    <div className="space-y-3">
+                        <ColumnSelect id="mapping-gene-id" label="Gene ID column" table={table} value={countMapping.geneId} onChange={geneId => setCountMapping(prev => ({ ...prev, geneId }))} />
+                        <ColumnCheckboxes label="Sample count columns" table={table} selected={countMapping.samples} excluded={[countMapping.geneId]} onChange={samples => setCountMapping(prev => ({ ...prev, samples }))} />
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <ColumnSelect id="mapping-sample" label="Sample column" table={table} value={metadataMapping.sample} onChange={sample => setMetadataMapping(prev => ({ ...prev, sample }))} />
+                            <ColumnSelect id="mapping-condition" label="Condition column" table={table} value={metadataMapping.condition} onChange={condition => setMetadataMapping(prev => ({ ...prev, condition }))} />
+                        </div>
+                        <ColumnCheckboxes label="Covariate columns" table={table} selected={metadataMapping.covariates} excluded={[metadataMapping.sample, metadataMapping.condition]} onChange={covariates => setMetadataMapping(prev => ({ ...prev, covariates }))} />
+                    </div>
+                )}
+            </>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg">Cancel</button>
+            <button onClick={handleConfirm} disabled={!isValid} className="px-4 py-2 text-sm font-bold text-white bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg">Import</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { ConcordanceReport } from '../utils/concordance';
+import { ENGINE_LABELS } from '../utils/results';
+
+interface ConcordanceViewProps {
+  report: ConcordanceReport;
+}
+
+const MAX_LISTED_GENES = 100;
+
+const ConcordanceView: React.FC<ConcordanceViewProps> = ({ report }) => {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {report.engines.map(set => (
+          <div key={set.engine} className="bg-gray-900/50 p-3 rounded-lg">
+            <p className="text-xs text-gray-400">{ENGINE_LABELS[set.engine]}</p>
+            <p className="text-xl font-bold text-gray-100">{(set.up.size + set.down.size).toLocaleString()} DEGs</p>
+            <p className="text-xs"><span className="text-red-400">{set.up.size.toLocaleString()} up</span> &middot; <span className="text-blue-400">{set.down.size.toLocaleString()} down</span></p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+            <tr>
+              <th className="px-4 py-2">Engines</th>
+              <th className="px-4 py-2 text-right">Shared</th>
+              <th className="px-4 py-2 text-right">Opposite direction</th>
+              <th className="px-4 py-2 text-right">Either</th>
+              <th className="px-4 py-2 text-right">Jaccard</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.pairs.map(pair => (
+              <tr key={`${pair.a}-${pair.b}`} className="border-b border-gray-700">
+                <td className="px-4 py-2">{ENGINE_LABELS[pair.a]} vs {ENGINE_LABELS[pair.b]}</td>
+                <td className="px-4 py-2 text-right">{pair.shared.toLocaleString()}</td>
+                <td className={`px-4 py-2 text-right ${pair.opposite > 0 ? 'text-yellow-400' : ''}`}>{pair.opposite.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{pair.union.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right font-semibold text-cyan-400">{pair.jaccard.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">Jaccard index: genes called in the same direction by both engines, divided by genes called by either.</p>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-200 mb-2">Called by all {report.engines.length} engines ({report.sharedByAll.length.toLocaleString()})</h3>
+        {report.sharedByAll.length > 0 ? (
+          <p className="text-sm text-gray-400 break-words">
+            {report.sharedByAll.slice(0, MAX_LISTED_GENES).join(', ')}
+            {report.sharedByAll.length > MAX_LISTED_GENES && ` and ${(report.sharedByAll.length - MAX_LISTED_GENES).toLocaleString()} more`}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500">No gene is significant in every engine.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConcordanceView;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { ConditionContrast } from '../types';
+import { formatContrast, validateContrast } from '../utils/contrasts';
+
+export type SavedContrast = Pick<ConditionContrast, 'name' | 'weights'>;
+
+interface ContrastBuilderProps {
+  conditions: string[];
+  contrasts: SavedContrast[];
+  onContrastsChange: (contrasts: SavedContrast[]) => void;
+  disabled: boolean;
+}
+
+const ContrastBuilder: React.FC<ContrastBuilderProps> = ({ conditions, contrasts, onContrastsChange, disabled }) => {
+  const [name, setName] = useState('');
+  // Kept as typed so that "-" and "0." can be entered on the way to a number
+  const [weightInputs, setWeightInputs] = useState<{ [condition: string]: string }>({});
+
+  const weights = Object.fromEntries(conditions.map(c => [c, parseFloat(weightInputs[c] ?? '') || 0]));
+  const hasInput = name.trim() !== '' || Object.values(weights).some(w => w !== 0);
+  const error = validateContrast(name, weights, contrasts.map(c => c.name));
+
+  const handleAdd = () => {
+    if (error) return;
+    const nonZero = Object.fromEntries(Object.entries(weights).filter(([, w]) => w !== 0));
+    onContrastsChange([...contrasts, { name: name.trim(), weights: nonZero }]);
+    setName('');
+    setWeightInputs({});
+  };
+
+  return (
+    <div className="space-y-3">
+      {contrasts.length > 0 && (
+        <ul className="space-y-1">
+          {contrasts.map(contrast => (
+            <li key={contrast.name} className="flex items-start justify-between text-xs bg-gray-900 border border-gray-700 rounded-md px-2 py-1">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-200 truncate">{contrast.name}</p>
+                <p className="text-gray-400 break-words"><code>{formatContrast(contrast.weights)}</code></p>
+              </div>
+              <button onClick={() => onContrastsChange(contrasts.filter(c => c.name !== contrast.name))} disabled={disabled} className="ml-2 text-gray-500 hover:text-red-400" title="Remove contrast">&times;</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2 bg-gray-900/50 border border-gray-700 rounded-md p-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Contrast name, e.g. KO_interaction"
+          className="block w-full px-2 py-1 text-sm bg-gray-900 border border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          {conditions.map(condition => (
+            <label key={condition} className="flex items-center justify-between text-xs text-gray-400" title={condition}>
+              <span className="truncate mr-2">{condition}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={weightInputs[condition] ?? ''}
+                onChange={e => setWeightInputs(prev => ({ ...prev, [condition]: e.target.value }))}
+                placeholder="0"
+                className="w-14 px-1 py-0.5 text-right bg-gray-900 border border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded text-white"
+              />
+            </label>
+          ))}
+        </div>
+        {Object.values(weights).some(w => w !== 0) && (
+          <p className="text-xs text-gray-400 break-words"><code className="text-cyan-400">{formatContrast(weights)}</code></p>
+        )}
+        {hasInput && error && <p className="text-xs text-yellow-400">{error}</p>}
+        <button onClick={handleAdd} disabled={disabled || !!error} className="w-full text-sm py-1 bg-gray-700 hover:bg-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 font-semibold rounded-md transition-colors">
+          Add Contrast
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">Weights apply to the condition means and must sum to zero: 1 and -1 compare two groups, 0.5, 0.5 and -1 compare an average with a group.</p>
+    </div>
+  );
+};
+
+export default ContrastBuilder;
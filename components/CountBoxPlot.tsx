@@ -0,0 +1,50 @@
+import React from 'react';
+import type { BoxStats } from '../utils/qc';
+
+interface CountBoxPlotProps {
+  stats: BoxStats[];
+  colors: { [sample: string]: string };
+  yLabel: string;
+}
+
+const HEIGHT = 320;
+const MARGIN = { top: 10, right: 10, bottom: 110, left: 50 };
+const BOX_WIDTH = 26;
+
+const CountBoxPlot: React.FC<CountBoxPlotProps> = ({ stats, colors, yLabel }) => {
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const width = MARGIN.left + MARGIN.right + stats.length * (BOX_WIDTH + 10);
+    const yMax = Math.ceil(Math.max(1, ...stats.map(s => s.upper)));
+    const y = (value: number) => MARGIN.top + plotHeight * (1 - value / yMax);
+    const ticks = Array.from({ length: 5 }, (_, i) => (yMax * i) / 4);
+
+    return (
+        <div className="overflow-x-auto">
+            <svg width={Math.max(width, 300)} height={HEIGHT} xmlns="http://www.w3.org/2000/svg" fontFamily="sans-serif">
+                {ticks.map(tick => (
+                    <g key={tick}>
+                        <line x1={MARGIN.left} x2={width - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeDasharray="3 3" />
+                        <text x={MARGIN.left - 6} y={y(tick) + 4} fontSize={11} textAnchor="end" fill="#9ca3af">{tick.toFixed(1)}</text>
+                    </g>
+                ))}
+                <text x={12} y={MARGIN.top + plotHeight / 2} fontSize={12} fill="#d1d5db" textAnchor="middle" transform={`rotate(-90 12 ${MARGIN.top + plotHeight / 2})`}>{yLabel}</text>
+                {stats.map((s, i) => {
+                    const cx = MARGIN.left + i * (BOX_WIDTH + 10) + 5 + BOX_WIDTH / 2;
+                    const labelY = HEIGHT - MARGIN.bottom + 8;
+                    return (
+                        <g key={s.sample}>
+                            <title>{`${s.sample}: median ${s.median.toFixed(2)}, IQR ${s.q1.toFixed(2)}-${s.q3.toFixed(2)}`}</title>
+                            <line x1={cx} x2={cx} y1={y(s.upper)} y2={y(s.q3)} stroke="#9ca3af" />
+                            <line x1={cx} x2={cx} y1={y(s.q1)} y2={y(s.lower)} stroke="#9ca3af" />
+                            <rect x={cx - BOX_WIDTH / 2} y={y(s.q3)} width={BOX_WIDTH} height={Math.max(1, y(s.q1) - y(s.q3))} fill={colors[s.sample]} fillOpacity={0.7} stroke="#e5e7eb" />
+                            <line x1={cx - BOX_WIDTH / 2} x2={cx + BOX_WIDTH / 2} y1={y(s.median)} y2={y(s.median)} stroke="#111827" strokeWidth={2} />
+                            <text x={cx + 4} y={labelY} fontSize={11} fill="#d1d5db" textAnchor="end" transform={`rotate(-90 ${cx + 4} ${labelY})`}>{s.sample}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+export default CountBoxPlot;
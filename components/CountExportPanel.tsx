@@ -0,0 +1,42 @@
+import React from 'react';
+import type { CountTransformKind, CountTransforms } from '../types';
+import { downloadCsv } from '../utils/downloader';
+import { COUNT_TRANSFORM_LABELS, describeTransforms, getAvailableTransforms, toTransformRows } from '../utils/countExports';
+
+interface CountExportPanelProps {
+  transforms: CountTransforms;
+}
+
+const CountExportPanel: React.FC<CountExportPanelProps> = ({ transforms }) => {
+  const genes = Object.keys(transforms.normalized).length;
+
+  const handleCsv = (kind: CountTransformKind) => {
+    const comments = describeTransforms(transforms, kind).map(({ key, value }) => `${key}: ${value}`);
+    downloadCsv(toTransformRows(transforms, kind), `deseq2_${kind}`, comments);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {getAvailableTransforms(transforms).map(kind => (
+          <button key={kind} onClick={() => handleCsv(kind)} className="text-sm bg-gray-700 hover:bg-cyan-600 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">
+            {COUNT_TRANSFORM_LABELS[kind]} (CSV)
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400">
+        {genes.toLocaleString()} genes &times; {transforms.samples.length} samples, from the DESeq2 model of <code className="text-cyan-400">{transforms.design}</code>.
+        {transforms.sizeFactorSource === 'tx_length_offsets' && ' Normalization uses the transcript-length offsets; the size factors shown are their per-sample geometric means.'}
+        {transforms.rlog === null && ' rlog is skipped for this many samples; use the VST instead.'}
+      </p>
+      {transforms.notes.length > 0 && (
+        <ul className="text-xs text-yellow-400 list-disc list-inside">
+          {transforms.notes.map(note => <li key={note}>{note}</li>)}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">CSV files start with "#" lines describing the run (read them with <code>read.csv(file, comment.char = "#")</code>); the workbook has them on a Metadata sheet.</p>
+    </div>
+  );
+};
+
+export default CountExportPanel;
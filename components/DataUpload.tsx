@@ -1,7 +1,9 @@
 import React, { useRef } from 'react';
 
 interface DataUploadProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload?: (file: File) => void;
+  onFilesUpload?: (files: File[]) => void; // Used instead of onFileUpload when `multiple` is set
+  multiple?: boolean;
   fileName: string;
   onClearData: () => void;
   label: string;
@@ -16,13 +18,15 @@ const TrashIcon: React.FC<{className?: string}> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>
 );
 
-const DataUpload: React.FC<DataUploadProps> = ({ onFileUpload, fileName, onClearData, label, accept }) => {
+const DataUpload: React.FC<DataUploadProps> = ({ onFileUpload, onFilesUpload, multiple, fileName, onClearData, label, accept }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onFileUpload(file);
+    const files = Array.from(event.target.files ?? []);
+    if (multiple && onFilesUpload) {
+      if (files.length > 0) onFilesUpload(files);
+    } else if (files[0]) {
+      onFileUpload?.(files[0]);
     }
      // Reset the input value to allow re-uploading the same file
     if(event.target) {
@@ -43,6 +47,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onFileUpload, fileName, onClear
             onChange={handleFileChange}
             className="hidden"
             accept={accept}
+            multiple={multiple}
         />
         {!fileName ? (
             <button
@@ -50,7 +55,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onFileUpload, fileName, onClear
             className="w-full bg-gray-700 hover:bg-cyan-500 hover:text-gray-900 text-gray-200 font-semibold py-2 px-4 border border-gray-600 rounded-lg shadow-md transition-all duration-300 ease-in-out flex items-center justify-center"
             >
             <FileIcon className="h-5 w-5 mr-2" />
-            Upload File
+            {multiple ? 'Upload File(s)' : 'Upload File'}
             </button>
         ) : (
             <div className="bg-gray-800 border border-gray-700 rounded-lg p-3 flex items-center justify-between">
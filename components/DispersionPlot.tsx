@@ -0,0 +1,48 @@
+import React from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
+import type { DispersionEstimate } from '../types';
+import { thinPoints } from '../utils/diagnostics';
+
+interface DispersionPlotProps {
+  dispersions: DispersionEstimate[];
+}
+
+const MAX_POINTS = 3000;
+
+const formatLog = (value: number): string => value >= 1 ? value.toFixed(0) : value.toPrecision(1);
+
+// DESeq2's plotDispEsts: gene-wise estimates, the fitted trend and the final estimates
+// they are shrunk to, against the mean of normalized counts (both axes log scale).
+const DispersionPlot: React.FC<DispersionPlotProps> = ({ dispersions }) => {
+    const points = thinPoints([...dispersions].sort((a, b) => a.baseMean - b.baseMean), MAX_POINTS);
+    const series = (key: 'geneEst' | 'fitted' | 'final') =>
+        points.filter(p => p[key] !== null && p[key] > 0).map(p => ({ baseMean: p.baseMean, dispersion: p[key], outlier: p.outlier }));
+    const finals = series('final');
+
+    return (
+        <div style={{ width: '100%', height: 450 }}>
+            <ResponsiveContainer>
+                <ScatterChart margin={{ top: 20, right: 20, bottom: 40, left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis type="number" dataKey="baseMean" scale="log" domain={['auto', 'auto']} tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={formatLog}>
+                        <Label value="Mean of normalized counts" offset={-25} position="insideBottom" fill="#d1d5db" />
+                    </XAxis>
+                    <YAxis type="number" dataKey="dispersion" scale="log" domain={['auto', 'auto']} tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={formatLog}>
+                        <Label value="Dispersion" angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }} />
+                    </YAxis>
+                    <Tooltip
+                        cursor={{ strokeDasharray: '3 3', stroke: '#4b5563' }}
+                        contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+                        formatter={(value: number) => value.toPrecision(3)}
+                    />
+                    <Legend verticalAlign="top" />
+                    <Scatter name="Gene-wise" data={series('geneEst')} fill="#6b7280" shape={(p: any) => <circle cx={p.cx} cy={p.cy} r={1.5} fill="#6b7280" />} isAnimationActive={false} />
+                    <Scatter name="Final" data={finals} fill="#22d3ee" shape={(p: any) => <circle cx={p.cx} cy={p.cy} r={p.payload.outlier ? 3 : 1.5} fill="#22d3ee" stroke={p.payload.outlier ? '#111827' : 'none'} />} isAnimationActive={false} />
+                    <Scatter name="Fitted trend" data={series('fitted')} fill="#f87171" line={{ stroke: '#f87171', strokeWidth: 2 }} shape={() => <g />} isAnimationActive={false} />
+                </ScatterChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+export default DispersionPlot;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { getBoxStats } from '../utils/qc';
+
+interface GeneCountPlotProps {
+  counts: { sample: string; count: number }[];
+  conditions: { [sample: string]: string };
+  colorGroups: { [sample: string]: string };
+  groupColors: { [group: string]: string };
+  logScale: boolean;
+}
+
+const HEIGHT = 320;
+const MARGIN = { top: 10, right: 10, bottom: 50, left: 60 };
+const GROUP_WIDTH = 110;
+const BOX_WIDTH = 50;
+
+// Fixed jitter per point, so that points do not move between renders
+const jitter = (index: number): number => ((index * 0.618034) % 1) - 0.5;
+
+// Normalized counts per sample, grouped by condition, over a box per group (as DESeq2's plotCounts).
+const GeneCountPlot: React.FC<GeneCountPlotProps> = ({ counts, conditions, colorGroups, groupColors, logScale }) => {
+    const transform = (count: number) => logScale ? Math.log10(count + 0.5) : count;
+    const groups = [...new Set<string>(counts.map(c => conditions[c.sample]))];
+    const values = counts.map(c => transform(c.count));
+    const yMin = logScale ? Math.floor(Math.min(...values)) : 0;
+    const yMax = Math.max(yMin + 1, logScale ? Math.ceil(Math.max(...values)) : Math.max(...values) * 1.05);
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const width = MARGIN.left + MARGIN.right + groups.length * GROUP_WIDTH;
+    const y = (value: number) => MARGIN.top + plotHeight * (1 - (value - yMin) / (yMax - yMin));
+    const ticks = logScale
+        ? Array.from({ length: yMax - yMin + 1 }, (_, i) => yMin + i)
+        : Array.from({ length: 5 }, (_, i) => (yMax * i) / 4);
+    const formatTick = (tick: number) => logScale ? (10 ** tick).toLocaleString(undefined, { maximumSignificantDigits: 2 }) : tick.toFixed(0);
+
+    return (
+        <div className="overflow-x-auto">
+            <svg width={Math.max(width, 300)} height={HEIGHT} xmlns="http://www.w3.org/2000/svg" fontFamily="sans-serif">
+                {ticks.map(tick => (
+                    <g key={tick}>
+                        <line x1={MARGIN.left} x2={width - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeDasharray="3 3" />
+                        <text x={MARGIN.left - 6} y={y(tick) + 4} fontSize={11} textAnchor="end" fill="#9ca3af">{formatTick(tick)}</text>
+                    </g>
+                ))}
+                <text x={14} y={MARGIN.top + plotHeight / 2} fontSize={12} fill="#d1d5db" textAnchor="middle" transform={`rotate(-90 14 ${MARGIN.top + plotHeight / 2})`}>Normalized count</text>
+                {groups.map((group, g) => {
+                    const cx = MARGIN.left + g * GROUP_WIDTH + GROUP_WIDTH / 2;
+                    const members = counts.map((c, i) => ({ ...c, index: i })).filter(c => conditions[c.sample] === group);
+                    const box = getBoxStats(group, members.map(m => transform(m.count)));
+                    return (
+                        <g key={group}>
+                            <line x1={cx} x2={cx} y1={y(box.upper)} y2={y(box.lower)} stroke="#6b7280" />
+                            <rect x={cx - BOX_WIDTH / 2} y={y(box.q3)} width={BOX_WIDTH} height={Math.max(1, y(box.q1) - y(box.q3))} fill="#1f2937" stroke="#6b7280" />
+                            <line x1={cx - BOX_WIDTH / 2} x2={cx + BOX_WIDTH / 2} y1={y(box.median)} y2={y(box.median)} stroke="#e5e7eb" strokeWidth={2} />
+                            {members.map(m => (
+                                <circle key={m.sample} cx={cx + jitter(m.index) * BOX_WIDTH} cy={y(transform(m.count))} r={4} fill={groupColors[colorGroups[m.sample]]} stroke="#111827">
+                                    <title>{`${m.sample}: ${m.count.toFixed(1)}`}</title>
+                                </circle>
+                            ))}
+                            <text x={cx} y={HEIGHT - MARGIN.bottom + 18} fontSize={12} fill="#d1d5db" textAnchor="middle">{group}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+export default GeneCountPlot;
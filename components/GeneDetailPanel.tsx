@@ -0,0 +1,140 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { ComparisonResult, CountMatrix, CountTransforms, GseaDatabase, GseaResult, LfcMode, SampleMetadata } from '../types';
+import GeneCountPlot from './GeneCountPlot';
+import { DownloadIcon } from './AnalysisResultContainer';
+import { downloadPlotPng } from '../utils/downloader';
+import { findLeadingEdgeSets, getGeneComparisons, getNormalizedGeneCounts } from '../utils/geneDetail';
+import { getGroupColors, getGroupingColumns, getSampleGroups } from '../utils/qc';
+import { FLAG_LABELS, formatPValue, getComparisonLabel, getLfc, isSignificant } from '../utils/results';
+
+interface GeneDetailPanelProps {
+  gene: string;
+  transforms: CountTransforms | null;
+  countMatrix: CountMatrix | null;
+  sampleMetadata: SampleMetadata | null;
+  degResults: { [key: string]: ComparisonResult };
+  gseaResults: { [key: string]: { [db in GseaDatabase]?: GseaResult[] } };
+  pValueThreshold: number;
+  lfcMode: LfcMode;
+  onClose: () => void;
+}
+
+const selectClassName = "mt-1 block w-full pl-3 pr-8 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white";
+
+const GeneDetailPanel: React.FC<GeneDetailPanelProps> = ({ gene, transforms, countMatrix, sampleMetadata, degResults, gseaResults, pValueThreshold, lfcMode, onClose }) => {
+    const [colorBy, setColorBy] = useState('condition');
+    const [logScale, setLogScale] = useState(true);
+    const plotRef = useRef<HTMLDivElement>(null);
+
+    const geneCounts = useMemo(() => transforms ? getNormalizedGeneCounts(gene, transforms, countMatrix) : null, [gene, transforms, countMatrix]);
+    const comparisons = useMemo(() => getGeneComparisons(gene, degResults), [gene, degResults]);
+    const geneSets = useMemo(() => findLeadingEdgeSets(gene, gseaResults), [gene, gseaResults]);
+
+    const samples = transforms?.samples ?? [];
+    const groupingColumns = sampleMetadata ? getGroupingColumns(sampleMetadata) : ['condition'];
+    const conditions = sampleMetadata ? getSampleGroups(sampleMetadata, samples, 'condition') : {};
+    const colorGroups = sampleMetadata ? getSampleGroups(sampleMetadata, samples, colorBy) : {};
+    const groupColors = getGroupColors(colorGroups, samples);
+
+    const handleDownloadPlot = () => {
+        const svg = plotRef.current?.querySelector('svg');
+        if (svg) downloadPlotPng(svg, `${gene}_normalized_counts`);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-6 animate-fade-in" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-full overflow-y-auto p-6 space-y-6" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <h2 className="text-2xl font-bold text-cyan-400 font-mono">{gene}</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" title="Close">&times;</button>
+                </div>
+
+                <section className="space-y-3">
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                        <h3 className="font-semibold text-gray-200">Normalized Counts</h3>
+                        <div className="flex items-end gap-4">
+                            <div className="w-40">
+                                <label htmlFor="gene-color-by" className="block text-xs font-medium text-gray-400">Color by</label>
+                                <select id="gene-color-by" value={colorBy} onChange={e => setColorBy(e.target.value)} className={selectClassName}>
+                                    {groupingColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            <label className="flex items-center text-sm text-gray-400 pb-1">
+                                <input type="checkbox" checked={logScale} onChange={e => setLogScale(e.target.checked)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                                Log scale
+                            </label>
+                            <button onClick={handleDownloadPlot} disabled={!geneCounts} className="flex items-center space-x-2 text-sm bg-gray-700 hover:bg-cyan-600 disabled:opacity-50 text-gray-200 font-semibold py-1 px-3 rounded-lg transition-colors">
+                                <DownloadIcon className="h-4 w-4" />
+                                <span>PNG</span>
+                            </button>
+                        </div>
+                    </div>
+                    {geneCounts ? (
+                        <>
+                            <div ref={plotRef}>
+                                <GeneCountPlot counts={geneCounts.counts} conditions={conditions} colorGroups={colorGroups} groupColors={groupColors} logScale={logScale} />
+                            </div>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-300">
+                                {Object.keys(groupColors).map(group => (
+                                    <span key={group} className="flex items-center"><span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: groupColors[group] }} />{group}</span>
+                                ))}
+                            </div>
+                            {!geneCounts.tested && <p className="text-xs text-yellow-400">This gene was removed by the low-count filter; its raw counts are shown divided by the size factors.</p>}
+                        </>
+                    ) : (
+                        <p className="text-sm text-gray-500">{transforms ? 'This gene is not in the count matrix.' : 'Normalized counts are not available for this run.'}</p>
+                    )}
+                </section>
+
+                <section className="space-y-2">
+                    <h3 className="font-semibold text-gray-200">Across Comparisons</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left text-gray-300">
+                            <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                                <tr>
+                                    <th className="px-3 py-2">Comparison</th>
+                                    <th className="px-3 py-2 text-right">log2FC</th>
+                                    <th className="px-3 py-2 text-right">lfcSE</th>
+                                    <th className="px-3 py-2 text-right">p-value</th>
+                                    <th className="px-3 py-2 text-right">padj</th>
+                                    <th className="px-3 py-2 text-right">baseMean</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {comparisons.map(({ key, result, stats }) => (
+                                    <tr key={key} className="border-b border-gray-700">
+                                        <td className="px-3 py-2">{getComparisonLabel(result)}</td>
+                                        <td className={`px-3 py-2 text-right ${isSignificant(stats, pValueThreshold) ? 'font-semibold text-cyan-400' : ''}`}>{getLfc(stats, lfcMode)?.toFixed(3) ?? 'NA'}</td>
+                                        <td className="px-3 py-2 text-right">{stats.lfcSE?.toFixed(3) ?? 'NA'}</td>
+                                        <td className="px-3 py-2 text-right">{formatPValue(stats.pvalue)}</td>
+                                        <td className="px-3 py-2 text-right" title={stats.flag ? FLAG_LABELS[stats.flag] : undefined}>{stats.flag ? <span className="text-yellow-400">{FLAG_LABELS[stats.flag]}</span> : formatPValue(stats.padj)}</td>
+                                        <td className="px-3 py-2 text-right">{stats.baseMean.toFixed(1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {comparisons.length === 0 && <p className="text-sm text-gray-500">The gene was not tested in any comparison (removed by the low-count filter).</p>}
+                </section>
+
+                <section className="space-y-2">
+                    <h3 className="font-semibold text-gray-200">GSEA Leading Edges</h3>
+                    {geneSets.length > 0 ? (
+                        <ul className="space-y-1 text-sm">
+                            {geneSets.map(({ comparison, db, set }) => (
+                                <li key={`${comparison}-${db}-${set.ID}`} className="flex justify-between gap-4 bg-gray-900/50 rounded-md px-3 py-1">
+                                    <span className="text-gray-200 min-w-0 truncate" title={set.Description}>{set.Description} <span className="text-gray-500">({db} {set.ID})</span></span>
+                                    <span className="text-gray-400 whitespace-nowrap">{degResults[comparison] ? getComparisonLabel(degResults[comparison]) : comparison} &middot; NES {set.NES.toFixed(2)} &middot; padj {formatPValue(set['p.adjust'])}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-gray-500">{Object.keys(gseaResults).length > 0 ? 'The gene is not in the leading edge of any gene set found so far.' : 'Run GSEA to see the gene sets this gene drives.'}</p>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default GeneDetailPanel;
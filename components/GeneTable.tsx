@@ -1,12 +1,14 @@
 
 import React from 'react';
 import type { GeneData } from '../types';
+import { formatPValue } from '../utils/results';
 
 interface GeneTableProps {
   genes: GeneData[];
+  onGeneClick?: (gene: string) => void;
 }
 
-const GeneTable: React.FC<GeneTableProps> = ({ genes }) => {
+const GeneTable: React.FC<GeneTableProps> = ({ genes, onGeneClick }) => {
   if (!genes || genes.length === 0) {
     return <p className="text-gray-400">No significant genes to display in this category.</p>;
   }
@@ -18,15 +20,21 @@ const GeneTable: React.FC<GeneTableProps> = ({ genes }) => {
           <tr>
             <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">Gene</th>
             <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">log2FC</th>
+            <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">lfcSE</th>
             <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">p-value</th>
+            <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">padj</th>
+            <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-gray-300">baseMean</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-700/50 bg-gray-900">
           {genes.map((gene) => (
-            <tr key={gene.gene} className="hover:bg-gray-800/50">
+            <tr key={gene.gene} onClick={() => onGeneClick?.(gene.gene)} className={`hover:bg-gray-800/50 ${onGeneClick ? 'cursor-pointer' : ''}`}>
               <td className="whitespace-nowrap py-4 px-3 text-sm font-medium text-gray-200">{gene.gene}</td>
-              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{gene.log2FoldChange.toFixed(3)}</td>
-              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{gene.pvalue.toExponential(2)}</td>
+              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{gene.log2FoldChange?.toFixed(3) ?? 'NA'}</td>
+              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{gene.lfcSE?.toFixed(3) ?? 'NA'}</td>
+              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{formatPValue(gene.pvalue)}</td>
+              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{formatPValue(gene.padj)}</td>
+              <td className="whitespace-nowrap py-4 px-3 text-sm text-gray-300">{gene.baseMean.toFixed(1)}</td>
             </tr>
           ))}
         </tbody>
@@ -1,120 +1,238 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { GeneData, CountMatrix, ClusteringMethod } from '../types';
+import type { GeneData, ClusteringMethod, ClusteringDistance, LfcMode, CountTransforms, SampleMetadata, ExpressionHeatmapData, HeatmapPalette } from '../types';
+import { getLfc } from '../utils/results';
+import { getDendrogramSegments, getHeatmapColor, HEATMAP_PALETTES } from '../utils/heatmap';
+import { getGroupColors, getGroupingColumns, getSampleGroups } from '../utils/qc';
 import { RService } from '../services/rService';
 import LoadingSpinner from './LoadingSpinner';
 
 interface HeatmapProps {
-  up: GeneData[];
-  down: GeneData[];
-  countMatrix: CountMatrix;
+  genes: string[];
+  comparisonGenes: GeneData[]; // results of the current comparison, for the log2FC column
+  transforms: CountTransforms;
+  sampleMetadata: SampleMetadata;
   rService: RService;
+  lfcMode: LfcMode;
+  onGeneClick?: (gene: string) => void;
 }
 
-// Simple interpolation for color
-const getColor = (value: number, min: number, max: number): string => {
-    if (value > 0) { // Upregulated -> red
-        const intensity = Math.round(200 * (value / max)) + 55;
-        return `rgb(${intensity}, 50, 50)`;
-    }
-    // Downregulated -> blue
-    const intensity = Math.round(200 * (value / min)) + 55;
-    return `rgb(50, 50, ${intensity})`;
+const CELL_WIDTH = 22;
+const CELL_HEIGHT = 14;
+const ROW_TREE = 80;
+const COL_TREE = 60;
+const TRACK = 10;
+const LFC_WIDTH = 10;
+const LABEL_WIDTH = 130;
+const SAMPLE_LABEL_HEIGHT = 110;
+
+const DISTANCE_LABELS: Record<ClusteringDistance, string> = {
+    euclidean: 'the Euclidean distance',
+    pearson: '1 - Pearson correlation',
+    spearman: '1 - Spearman correlation',
 };
 
+const selectClassName = "mt-1 block w-full pl-3 pr-8 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white";
 
-const Heatmap: React.FC<HeatmapProps> = ({ up, down, countMatrix, rService }) => {
-    const [orderedGenes, setOrderedGenes] = useState<GeneData[]>([]);
+// Row-scaled VST expression (genes x samples) with both dendrograms and a metadata track per column.
+const Heatmap: React.FC<HeatmapProps> = ({ genes, comparisonGenes, transforms, sampleMetadata, rService, lfcMode, onGeneClick }) => {
+    const pairingColumn = transforms.pairing?.column ?? null;
+    const [heatmap, setHeatmap] = useState<ExpressionHeatmapData | null>(null);
     const [clusteringMethod, setClusteringMethod] = useState<ClusteringMethod>('ward.D2');
+    const [distance, setDistance] = useState<ClusteringDistance>('euclidean');
+    const [palette, setPalette] = useState<HeatmapPalette>('blue_white_red');
+    const [clip, setClip] = useState(2);
+    const [removeBlock, setRemoveBlock] = useState(!!pairingColumn);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const initialGenes = useMemo(() => [...up, ...down], [up, down]);
+    const { samples } = transforms;
+    // The gene lists are rebuilt on every render; only a change of genes should recluster
+    const geneKey = genes.join('\n');
 
     useEffect(() => {
-        const clusterGenes = async () => {
-            if (initialGenes.length === 0 || !rService) return;
-            
+        const clusterHeatmap = async () => {
+            if (!geneKey || !rService) return;
+
             setIsLoading(true);
             setError(null);
             try {
-                const geneSymbols = initialGenes.map(g => g.gene);
-                const orderedSymbols = await rService.getClusteredOrder(countMatrix, geneSymbols, clusteringMethod);
-                
-                const geneMap = new Map(initialGenes.map(g => [g.gene, g]));
-                const newOrderedGenes = orderedSymbols.map(symbol => geneMap.get(symbol)).filter(Boolean) as GeneData[];
-                setOrderedGenes(newOrderedGenes);
-
+                const block = removeBlock && pairingColumn ? {
+                    column: pairingColumn,
+                    subjects: samples.map(s => String(sampleMetadata[s].covariates[pairingColumn])),
+                    conditions: samples.map(s => sampleMetadata[s].condition),
+                } : undefined;
+                setHeatmap(await rService.getExpressionHeatmap(transforms.vst, geneKey.split('\n'), samples, { method: clusteringMethod, distance, block }));
             } catch (e: any) {
                 setError(`Clustering failed: ${e.message}`);
-                setOrderedGenes(initialGenes); // Fallback to initial order
+                setHeatmap(null);
             } finally {
                 setIsLoading(false);
             }
         };
 
-        clusterGenes();
-    }, [clusteringMethod, initialGenes, countMatrix, rService]);
+        clusterHeatmap();
+    }, [clusteringMethod, distance, geneKey, transforms, samples, sampleMetadata, rService, removeBlock, pairingColumn]);
 
+    const annotations = useMemo(() => getGroupingColumns(sampleMetadata).map(column => {
+        const groups = getSampleGroups(sampleMetadata, samples, column);
+        return { name: column, groups, colors: getGroupColors(groups, samples) };
+    }), [sampleMetadata, samples]);
+    const geneData = useMemo(() => new Map(comparisonGenes.map(g => [g.gene, g])), [comparisonGenes]);
 
-    if (initialGenes.length === 0) {
-        return <p className="text-gray-400">No significant genes to display in the heatmap.</p>;
-    }
-    
-    if (isLoading) {
-        return <LoadingSpinner message={`Running ${clusteringMethod} clustering...`}/>
-    }
-    
-    if (error) {
-        return <p className="text-red-400">{error}</p>
+    if (genes.length === 0) {
+        return <p className="text-gray-400">No genes selected for the heatmap.</p>;
     }
 
-    const minLogFC = Math.min(...orderedGenes.map(g => g.log2FoldChange));
-    const maxLogFC = Math.max(...orderedGenes.map(g => g.log2FoldChange));
+    const rowOrder = heatmap ? (heatmap.rowTree?.order ?? heatmap.genes.map((_, i) => i)) : [];
+    const colOrder = heatmap ? (heatmap.colTree?.order ?? samples.map((_, i) => i)) : [];
+    const maxAbsLfc = Math.max(1e-6, ...genes.map(gene => geneData.has(gene) ? Math.abs(getLfc(geneData.get(gene), lfcMode) ?? 0) : 0));
+
+    const matrixLeft = ROW_TREE + 4;
+    const matrixTop = COL_TREE + 4 + annotations.length * (TRACK + 2) + 4;
+    const matrixRight = matrixLeft + colOrder.length * CELL_WIDTH;
+    const matrixBottom = matrixTop + rowOrder.length * CELL_HEIGHT;
+    const labelLeft = matrixRight + 4 + LFC_WIDTH + 6;
+    const width = labelLeft + LABEL_WIDTH;
+    const height = matrixBottom + SAMPLE_LABEL_HEIGHT;
+
+    const renderDendrograms = () => {
+        if (!heatmap) return null;
+        const rows = heatmap.rowTree && getDendrogramSegments(heatmap.rowTree);
+        const cols = heatmap.colTree && getDendrogramSegments(heatmap.colTree);
+        return (
+            <g stroke="#9ca3af" strokeWidth={1}>
+                {rows && rows.segments.map((s, i) => {
+                    const x = (h: number) => ROW_TREE - (h / (rows.maxHeight || 1)) * (ROW_TREE - 4);
+                    return <line key={`r${i}`} x1={x(s.y1)} x2={x(s.y2)} y1={matrixTop + s.x1 * CELL_HEIGHT} y2={matrixTop + s.x2 * CELL_HEIGHT} />;
+                })}
+                {cols && cols.segments.map((s, i) => {
+                    const y = (h: number) => COL_TREE - (h / (cols.maxHeight || 1)) * (COL_TREE - 4);
+                    return <line key={`c${i}`} x1={matrixLeft + s.x1 * CELL_WIDTH} x2={matrixLeft + s.x2 * CELL_WIDTH} y1={y(s.y1)} y2={y(s.y2)} />;
+                })}
+            </g>
+        );
+    };
+
+    const skipped = heatmap ? genes.length - heatmap.genes.length : 0;
 
     return (
-        <div className="flex flex-col">
-             <div className="flex justify-between items-center mb-4">
+        <div className="flex flex-col space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 <div>
-                     <label htmlFor="clustering-method" className="block text-sm font-medium text-gray-400">Clustering Method</label>
-                     <select 
+                    <label htmlFor="clustering-method" className="block text-xs font-medium text-gray-400">Clustering Method</label>
+                    <select
                         id="clustering-method"
                         value={clusteringMethod}
                         onChange={(e) => setClusteringMethod(e.target.value as ClusteringMethod)}
-                        className="mt-1 block pl-3 pr-10 py-1 text-base bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md text-white"
-                     >
+                        className={selectClassName}
+                    >
                         <option value="ward.D2">Ward's D2</option>
                         <option value="complete">Complete Linkage</option>
                         <option value="average">Average Linkage (UPGMA)</option>
                         <option value="single">Single Linkage</option>
                     </select>
                 </div>
-                 <div className="flex items-center space-x-2">
-                    <span className="text-xs text-blue-400">{minLogFC.toFixed(1)}</span>
-                    <div className="w-32 h-4 bg-gradient-to-r from-blue-500 via-black to-red-500 rounded-sm"></div>
-                    <span className="text-xs text-red-400">{maxLogFC.toFixed(1)}</span>
+                <div>
+                    <label htmlFor="clustering-distance" className="block text-xs font-medium text-gray-400">Distance</label>
+                    <select id="clustering-distance" value={distance} onChange={e => setDistance(e.target.value as ClusteringDistance)} className={selectClassName}>
+                        <option value="euclidean">Euclidean</option>
+                        <option value="pearson">1 - Pearson r</option>
+                        <option value="spearman">1 - Spearman rho</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="heatmap-palette" className="block text-xs font-medium text-gray-400">Color scale</label>
+                    <select id="heatmap-palette" value={palette} onChange={e => setPalette(e.target.value as HeatmapPalette)} className={selectClassName}>
+                        {(Object.keys(HEATMAP_PALETTES) as HeatmapPalette[]).map(p => <option key={p} value={p}>{HEATMAP_PALETTES[p].label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="heatmap-clip" className="block text-xs font-medium text-gray-400">Clip z-scores at</label>
+                    <select id="heatmap-clip" value={clip} onChange={e => setClip(Number(e.target.value))} className={selectClassName}>
+                        {[1.5, 2, 2.5, 3, 4].map(c => <option key={c} value={c}>&plusmn;{c}</option>)}
+                    </select>
                 </div>
             </div>
-            <div className="flex justify-between items-center mb-2 px-2">
-                <span className="text-sm font-semibold text-gray-300">Gene</span>
-                <span className="text-sm font-semibold text-gray-300 w-20 text-right">log2FC</span>
-            </div>
-            <div className="space-y-1 max-h-96 overflow-y-auto pr-2">
-                {orderedGenes.map(gene => (
-                    <div key={gene.gene} className="flex items-center justify-between p-2 rounded-md hover:bg-gray-700/50">
-                        <span className="font-mono text-sm text-gray-200 truncate pr-4">{gene.gene}</span>
-                        <div className="flex items-center space-x-4">
-                             <div 
-                                className="w-32 h-4 rounded-sm" 
-                                style={{ backgroundColor: getColor(gene.log2FoldChange, minLogFC, maxLogFC) }}
-                                title={`log2FC: ${gene.log2FoldChange.toFixed(3)}`}
-                            ></div>
-                            <span className="font-mono text-sm text-gray-300 w-20 text-right">{gene.log2FoldChange.toFixed(2)}</span>
-                        </div>
+            {pairingColumn && (
+                <label className="flex items-center text-sm text-gray-400">
+                    <input type="checkbox" checked={removeBlock} onChange={e => setRemoveBlock(e.target.checked)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                    Remove the {pairingColumn} effect before scaling, as the paired model does
+                </label>
+            )}
+
+            {isLoading && <LoadingSpinner message={`Running ${clusteringMethod} clustering...`}/>}
+            {error && <p className="text-red-400">{error}</p>}
+            {heatmap && !isLoading && (
+                <>
+                    <div className="overflow-x-auto">
+                        <svg width={width} height={height} xmlns="http://www.w3.org/2000/svg" fontFamily="sans-serif">
+                            {renderDendrograms()}
+                            {annotations.map((track, t) => {
+                                const y = COL_TREE + 4 + t * (TRACK + 2);
+                                return (
+                                    <g key={track.name}>
+                                        {colOrder.map((sampleIndex, col) => (
+                                            <rect key={col} x={matrixLeft + col * CELL_WIDTH} y={y} width={CELL_WIDTH - 1} height={TRACK} fill={track.colors[track.groups[samples[sampleIndex]]]}>
+                                                <title>{`${samples[sampleIndex]}: ${track.groups[samples[sampleIndex]]}`}</title>
+                                            </rect>
+                                        ))}
+                                        <text x={labelLeft} y={y + TRACK - 1} fontSize={10} fill="#9ca3af">{track.name}</text>
+                                    </g>
+                                );
+                            })}
+                            {rowOrder.map((geneIndex, row) => {
+                                const gene = heatmap.genes[geneIndex];
+                                const y = matrixTop + row * CELL_HEIGHT;
+                                const lfc = geneData.has(gene) ? getLfc(geneData.get(gene), lfcMode) : null;
+                                return (
+                                    <g key={gene}>
+                                        {colOrder.map((sampleIndex, col) => (
+                                            <rect key={col} x={matrixLeft + col * CELL_WIDTH} y={y} width={CELL_WIDTH} height={CELL_HEIGHT} fill={getHeatmapColor(heatmap.zScores[geneIndex][sampleIndex], clip, palette)}>
+                                                <title>{`${gene} in ${samples[sampleIndex]}: z = ${heatmap.zScores[geneIndex][sampleIndex].toFixed(2)}`}</title>
+                                            </rect>
+                                        ))}
+                                        {lfc !== null && (
+                                            <rect x={matrixRight + 4} y={y} width={LFC_WIDTH} height={CELL_HEIGHT - 1} fill={getHeatmapColor(lfc, maxAbsLfc, 'blue_white_red')}>
+                                                <title>{`log2FC: ${lfc.toFixed(3)}`}</title>
+                                            </rect>
+                                        )}
+                                        <text
+                                            x={labelLeft}
+                                            y={y + CELL_HEIGHT - 3}
+                                            fontSize={11}
+                                            fontFamily="monospace"
+                                            fill="#e5e7eb"
+                                            onClick={() => onGeneClick?.(gene)}
+                                            cursor={onGeneClick ? 'pointer' : undefined}
+                                        >{gene}</text>
+                                    </g>
+                                );
+                            })}
+                            {colOrder.map((sampleIndex, col) => {
+                                const x = matrixLeft + col * CELL_WIDTH + CELL_WIDTH / 2 + 4;
+                                const y = matrixBottom + 6;
+                                return <text key={col} x={x} y={y} fontSize={11} fill="#d1d5db" transform={`rotate(-90 ${x} ${y})`} textAnchor="end">{samples[sampleIndex]}</text>;
+                            })}
+                        </svg>
                     </div>
-                ))}
-            </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+                        <span className="flex items-center">
+                            -{clip}
+                            <span className="inline-block w-24 h-3 mx-1 rounded-sm" style={{ background: `linear-gradient(to right, ${HEATMAP_PALETTES[palette].stops.join(', ')})` }} />
+                            +{clip} (row z-score)
+                        </span>
+                        {annotations.map(track => Object.keys(track.colors).map(group => (
+                            <span key={`${track.name}-${group}`} className="flex items-center"><span className="inline-block w-3 h-3 mr-1" style={{ backgroundColor: track.colors[group] }} />{track.name}: {group}</span>
+                        )))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        VST expression{heatmap.removedBlock && ` after removing the ${heatmap.removedBlock} effect`}, scaled per gene; rows and columns clustered on {DISTANCE_LABELS[heatmap.distance]} of the z-scores. The narrow column shows each gene's log2FC in this comparison.
+                        {skipped > 0 && ` ${skipped} genes are not in the VST matrix and are left out.`}
+                    </p>
+                </>
+            )}
         </div>
     );
 };
 
-export default Heatmap;
\ No newline at end of file
+export default Heatmap;
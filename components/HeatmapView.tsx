@@ -0,0 +1,206 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { ComparisonResult, CountTransforms, GeneData, GeneSelection, GseaDatabase, GseaResult, HeatmapRanking, LfcMode, SampleMetadata } from '../types';
+import { RService } from '../services/rService';
+import AnalysisResultContainer from './AnalysisResultContainer';
+import Heatmap from './Heatmap';
+import { downloadPlotPng } from '../utils/downloader';
+import { getTopGenes, HEATMAP_RANKING_LABELS, matchGeneList, MAX_HEATMAP_GENES, parseGeneList } from '../utils/heatmap';
+import { getComparisonLabel } from '../utils/results';
+
+interface HeatmapViewProps {
+  comparisonGenes: GeneData[];
+  comparisonName: string;
+  transforms: CountTransforms;
+  sampleMetadata: SampleMetadata;
+  rService: RService;
+  degResults: { [key: string]: ComparisonResult };
+  gseaResults: { [key: string]: { [db in GseaDatabase]?: GseaResult[] } };
+  pValueThreshold: number;
+  lfcMode: LfcMode;
+  geneSelections: GeneSelection[];
+  onSaveGeneSelection: (selection: GeneSelection) => void;
+  onGeneClick?: (gene: string) => void;
+}
+
+type GeneSource = 'top' | 'list' | 'gsea' | 'saved';
+
+const selectClassName = "mt-1 block w-full pl-3 pr-8 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white";
+const buttonClassName = "text-sm bg-gray-700 hover:bg-cyan-600 disabled:opacity-50 text-gray-200 font-semibold py-1 px-3 rounded-lg transition-colors";
+
+// GSEA terms are keyed by comparison, database and ID
+const termKey = (comparison: string, db: GseaDatabase, id: string) => `${comparison}\t${db}\t${id}`;
+
+// Chooses the genes of the expression heatmap: top-ranked genes, a pasted or uploaded list,
+// the leading edge of a GSEA term or a saved selection.
+const HeatmapView: React.FC<HeatmapViewProps> = (props) => {
+    const { comparisonGenes, comparisonName, transforms, sampleMetadata, rService, degResults, gseaResults, pValueThreshold, lfcMode, geneSelections, onSaveGeneSelection, onGeneClick } = props;
+    const [source, setSource] = useState<GeneSource>('top');
+    const [ranking, setRanking] = useState<HeatmapRanking>('lfc');
+    const [topN, setTopN] = useState(40);
+    const [listDraft, setListDraft] = useState('');
+    const [appliedList, setAppliedList] = useState<string[]>([]);
+    const [gseaTerm, setGseaTerm] = useState('');
+    const [savedName, setSavedName] = useState('');
+    const [newSelectionName, setNewSelectionName] = useState('');
+    const plotRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const gseaTerms = useMemo(() => Object.keys(gseaResults).flatMap(comparison =>
+        (['GO', 'KEGG'] as GseaDatabase[])
+            .filter(db => gseaResults[comparison][db]?.length)
+            .map(db => ({
+                label: `${degResults[comparison] ? getComparisonLabel(degResults[comparison]) : comparison} · ${db}`,
+                terms: gseaResults[comparison][db].map(set => ({ key: termKey(comparison, db, set.ID), set })),
+            }))
+    ), [gseaResults, degResults]);
+    const selectedTerm = gseaTerms.flatMap(group => group.terms).find(t => t.key === gseaTerm) ?? gseaTerms[0]?.terms[0];
+    const savedSelection = geneSelections.find(s => s.name === savedName) ?? geneSelections[0];
+
+    const topGenes = useMemo(
+        () => getTopGenes(comparisonGenes, transforms.vst, transforms.samples, topN, ranking, pValueThreshold, lfcMode),
+        [comparisonGenes, transforms, topN, ranking, pValueThreshold, lfcMode]
+    );
+
+    let requested: string[] = [];
+    let title = '';
+    if (source === 'top') {
+        requested = topGenes;
+        title = `Top ${topN} Genes by ${HEATMAP_RANKING_LABELS[ranking]}`;
+    } else if (source === 'list') {
+        requested = appliedList;
+        title = 'Custom Gene List';
+    } else if (source === 'gsea' && selectedTerm) {
+        requested = selectedTerm.set.core_enrichment.split('/');
+        title = `Leading Edge: ${selectedTerm.set.Description}`;
+    } else if (source === 'saved' && savedSelection) {
+        requested = savedSelection.genes;
+        title = `Selection: ${savedSelection.name}`;
+    }
+    const { matched, missing } = useMemo(() => matchGeneList(requested, Object.keys(transforms.vst)), [requested.join('\n'), transforms]);
+    const shownGenes = matched.slice(0, MAX_HEATMAP_GENES);
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const genes = parseGeneList(await file.text(), true);
+        setListDraft(genes.join('\n'));
+        setAppliedList(genes);
+        event.target.value = '';
+    };
+
+    const handleSaveSelection = () => {
+        const name = newSelectionName.trim();
+        if (!name || matched.length === 0) return;
+        onSaveGeneSelection({ name, genes: matched });
+        setNewSelectionName('');
+    };
+
+    const handleDownload = () => {
+        const svg = plotRef.current?.querySelector('svg');
+        if (svg) downloadPlotPng(svg, `${comparisonName}_heatmap`);
+    };
+
+    return (
+        <AnalysisResultContainer title={title || 'Expression Heatmap'} onDownload={handleDownload} downloadLabel="Download PNG">
+            <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 mb-6 space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                        <label htmlFor="heatmap-source" className="block text-xs font-medium text-gray-400">Genes</label>
+                        <select id="heatmap-source" value={source} onChange={e => setSource(e.target.value as GeneSource)} className={selectClassName}>
+                            <option value="top">Top-ranked genes</option>
+                            <option value="list">Pasted or uploaded list</option>
+                            <option value="gsea" disabled={gseaTerms.length === 0}>GSEA leading edge</option>
+                            <option value="saved" disabled={geneSelections.length === 0}>Saved selection</option>
+                        </select>
+                    </div>
+                    {source === 'top' && (
+                        <>
+                            <div>
+                                <label htmlFor="heatmap-ranking" className="block text-xs font-medium text-gray-400">Rank by</label>
+                                <select id="heatmap-ranking" value={ranking} onChange={e => setRanking(e.target.value as HeatmapRanking)} className={selectClassName}>
+                                    {(Object.keys(HEATMAP_RANKING_LABELS) as HeatmapRanking[]).map(r => <option key={r} value={r}>{HEATMAP_RANKING_LABELS[r]}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="heatmap-top-n" className="block text-xs font-medium text-gray-400">Number of genes</label>
+                                <select id="heatmap-top-n" value={topN} onChange={e => setTopN(Number(e.target.value))} className={selectClassName}>
+                                    {[20, 40, 50, 100, 200, 300].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                        </>
+                    )}
+                    {source === 'gsea' && (
+                        <div className="col-span-2 md:col-span-3">
+                            <label htmlFor="heatmap-gsea-term" className="block text-xs font-medium text-gray-400">Gene set</label>
+                            <select id="heatmap-gsea-term" value={selectedTerm?.key ?? ''} onChange={e => setGseaTerm(e.target.value)} className={selectClassName}>
+                                {gseaTerms.map(group => (
+                                    <optgroup key={group.label} label={group.label}>
+                                        {group.terms.map(t => <option key={t.key} value={t.key}>{t.set.Description} ({t.set.core_enrichment.split('/').length} genes)</option>)}
+                                    </optgroup>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {source === 'saved' && (
+                        <div>
+                            <label htmlFor="heatmap-saved" className="block text-xs font-medium text-gray-400">Selection</label>
+                            <select id="heatmap-saved" value={savedSelection?.name ?? ''} onChange={e => setSavedName(e.target.value)} className={selectClassName}>
+                                {geneSelections.map(s => <option key={s.name} value={s.name}>{s.name} ({s.genes.length})</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+
+                {source === 'list' && (
+                    <div className="space-y-2">
+                        <textarea
+                            value={listDraft}
+                            onChange={e => setListDraft(e.target.value)}
+                            rows={4}
+                            placeholder="Gene names separated by spaces, commas or new lines"
+                            className="block w-full px-3 py-2 text-sm font-mono bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white"
+                        />
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setAppliedList(parseGeneList(listDraft))} className={buttonClassName}>Show genes</button>
+                            <input type="file" ref={fileInputRef} onChange={handleUpload} className="hidden" accept=".txt,.csv,.tsv" />
+                            <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Upload list...</button>
+                            <span className="text-xs text-gray-500">Uploaded tables are read from their first column.</span>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-xs text-gray-400">
+                        {matched.length.toLocaleString()} genes found in the VST matrix
+                        {matched.length > MAX_HEATMAP_GENES && `, the first ${MAX_HEATMAP_GENES} are shown`}
+                        {missing.length > 0 && <span className="text-yellow-400" title={missing.join(', ')}>; {missing.length} not found ({missing.slice(0, 5).join(', ')}{missing.length > 5 && ', ...'})</span>}
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={newSelectionName}
+                            onChange={e => setNewSelectionName(e.target.value)}
+                            placeholder="Selection name"
+                            className="w-40 px-2 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white"
+                        />
+                        <button onClick={handleSaveSelection} disabled={!newSelectionName.trim() || matched.length === 0} className={buttonClassName}>Save selection</button>
+                    </div>
+                </div>
+            </div>
+
+            <div ref={plotRef}>
+                <Heatmap
+                    genes={shownGenes}
+                    comparisonGenes={comparisonGenes}
+                    transforms={transforms}
+                    sampleMetadata={sampleMetadata}
+                    rService={rService}
+                    lfcMode={lfcMode}
+                    onGeneClick={onGeneClick}
+                />
+            </div>
+        </AnalysisResultContainer>
+    );
+};
+
+export default HeatmapView;
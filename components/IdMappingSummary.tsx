@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import type { IdMappingRecord } from '../types';
+import { downloadCsv } from '../utils/downloader';
+
+interface IdMappingSummaryProps {
+  records: IdMappingRecord[];
+}
+
+const IdMappingSummary: React.FC<IdMappingSummaryProps> = ({ records }) => {
+  const summary = useMemo(() => {
+    let mapped = 0, unmapped = 0, collapsed = 0, dropped = 0, droppedReads = 0, totalReads = 0;
+    const collapsedSymbols = new Set<string>();
+    for (const record of records) {
+      totalReads += record.totalCount;
+      if (record.status === 'mapped') mapped++;
+      else if (record.status === 'unmapped') unmapped++;
+      else {
+        collapsed++;
+        collapsedSymbols.add(record.symbol!);
+      }
+      if (!record.finalId) {
+        dropped++;
+        droppedReads += record.totalCount;
+      }
+    }
+    return { mapped, unmapped, collapsed, collapsedSymbols: collapsedSymbols.size, dropped, droppedReads, totalReads };
+  }, [records]);
+
+  const handleDownload = () => {
+    const rows = records.map(r => ({
+      original_id: r.originalId,
+      symbol: r.symbol ?? '',
+      status: r.status,
+      final_id: r.finalId ?? '',
+      total_count: r.totalCount,
+    }));
+    downloadCsv(rows, 'gene_id_mapping');
+  };
+
+  const droppedPercent = summary.totalReads > 0 ? (100 * summary.droppedReads / summary.totalReads).toFixed(1) : '0';
+
+  return (
+    <div className="text-xs text-gray-400 bg-gray-800 py-2 px-3 rounded-md space-y-1">
+      <p className="font-semibold text-gray-300">ID Mapping</p>
+      <p>
+        <span className="text-green-400">{summary.mapped.toLocaleString()} mapped</span>
+        {' '}&middot; <span className="text-yellow-400">{summary.unmapped.toLocaleString()} unmapped</span>
+        {' '}&middot; <span className="text-cyan-400">{summary.collapsed.toLocaleString()} collapsed</span> into {summary.collapsedSymbols.toLocaleString()} symbols
+      </p>
+      <p>
+        {summary.dropped.toLocaleString()} IDs dropped, carrying {Math.round(summary.droppedReads).toLocaleString()} reads ({droppedPercent}% of total)
+      </p>
+      <button onClick={handleDownload} className="text-cyan-400 hover:text-cyan-300 underline">
+        Download mapping table (CSV)
+      </button>
+    </div>
+  );
+};
+
+export default IdMappingSummary;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, Cell } from 'recharts';
+
+interface LibrarySizeChartProps {
+  sizes: { sample: string; reads: number; sizeFactor: number }[];
+  colors: { [sample: string]: string };
+}
+
+const formatReads = (reads: number): string =>
+    reads >= 1e6 ? `${(reads / 1e6).toFixed(1)}M` : reads >= 1e3 ? `${(reads / 1e3).toFixed(0)}k` : String(reads);
+
+const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+        const data = payload[0].payload;
+        return (
+            <div className="bg-gray-800 text-white p-3 border border-gray-600 rounded-md shadow-lg">
+                <p className="font-bold text-cyan-400">{data.sample}</p>
+                <p>Counted reads: <span className="font-semibold">{data.reads.toLocaleString()}</span></p>
+                <p>Size factor: <span className="font-semibold">{data.sizeFactor.toFixed(3)}</span></p>
+            </div>
+        );
+    }
+    return null;
+};
+
+const LibrarySizeChart: React.FC<LibrarySizeChartProps> = ({ sizes, colors }) => (
+    <div style={{ width: '100%', height: 360 }}>
+        <ResponsiveContainer>
+            <BarChart data={sizes} margin={{ top: 10, right: 20, bottom: 90, left: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="sample" interval={0} angle={-60} textAnchor="end" tick={{ fill: '#9ca3af', fontSize: 11 }} stroke="#6b7280" />
+                <YAxis tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={formatReads}>
+                    <Label value="Counted reads" angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }} />
+                </YAxis>
+                <Tooltip content={<CustomTooltip />} cursor={{ fill: '#374151', opacity: 0.4 }} />
+                <Bar dataKey="reads" isAnimationActive={false}>
+                    {sizes.map(s => <Cell key={s.sample} fill={colors[s.sample]} />)}
+                </Bar>
+            </BarChart>
+        </ResponsiveContainer>
+    </div>
+);
+
+export default LibrarySizeChart;
@@ -3,9 +3,10 @@ import React from 'react';
 
 interface LoadingSpinnerProps {
   message?: string;
+  progress?: number | null; // 0-1, shown as a bar when known
 }
 
-const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message = "Analyzing Data..."}) => {
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message = "Analyzing Data...", progress }) => {
   const showSetupDetails = message.toLowerCase().includes('environment');
   
   return (
@@ -15,6 +16,14 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message = "Analyzing Da
         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
       </svg>
       <p className="mt-4 text-lg">{message}</p>
+      {progress != null && (
+        <div className="w-64 mt-3">
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{Math.round(progress * 100)}%</p>
+        </div>
+      )}
       {showSetupDetails && (
          <p className="text-sm text-gray-500 max-w-md mt-2">
             We are setting up a secure R analysis environment (WebR) directly in your browser. This may take a moment but ensures your data remains 100% private and never leaves your computer.
@@ -1,9 +1,12 @@
 import React from 'react';
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ZAxis, Label, Cell } from 'recharts';
-import type { GeneData } from '../types';
+import type { GeneData, LfcMode } from '../types';
+import { formatPValue, getLfc, isSignificant } from '../utils/results';
 
 interface MAPlotProps {
   data: GeneData[];
+  lfcMode: LfcMode;
+  onGeneClick?: (gene: string) => void;
 }
 
 const CustomTooltip = ({ active, payload }: any) => {
@@ -12,29 +15,31 @@ const CustomTooltip = ({ active, payload }: any) => {
         return (
             <div className="bg-gray-800 text-white p-3 border border-gray-600 rounded-md shadow-lg">
                 <p className="font-bold text-cyan-400">{data.gene}</p>
-                <p>Avg. Expression: <span className="font-semibold">{data.averageExpression?.toFixed(3)}</span></p>
+                <p>baseMean: <span className="font-semibold">{data.baseMean.toFixed(3)}</span></p>
                 <p>log2 Fold Change: <span className="font-semibold">{data.log2FoldChange.toFixed(3)}</span></p>
-                <p>p-value: <span className="font-semibold">{data.pvalue.toExponential(3)}</span></p>
+                {data.log2FoldChangeShrunk != null && <p>Shrunken log2 Fold Change: <span className="font-semibold">{data.log2FoldChangeShrunk.toFixed(3)}</span></p>}
+                <p>padj: <span className="font-semibold">{formatPValue(data.padj, 3)}</span></p>
             </div>
         );
     }
     return null;
 };
 
-const MAPlot: React.FC<MAPlotProps> = ({ data }) => {
+const MAPlot: React.FC<MAPlotProps> = ({ data, lfcMode, onGeneClick }) => {
     const pThreshold = 0.05;
     const fcThreshold = 1.0;
 
     const plotData = data
-        .filter(d => d.averageExpression && d.averageExpression > 0)
-        .map(d => ({ ...d, log10AvgExpr: Math.log10(d.averageExpression!) }));
+        .map(d => ({ ...d, lfc: getLfc(d, lfcMode), log10BaseMean: Math.log10(d.baseMean) }))
+        .filter(d => d.baseMean > 0 && d.lfc !== null);
+    const lfcLabel = lfcMode === 'shrunk' && data[0]?.log2FoldChangeShrunk !== undefined ? 'Shrunken log2(Fold Change)' : 'log2(Fold Change)';
 
     if (plotData.length === 0) {
-        return <p className="text-gray-400">No data available for MA Plot. Ensure your data contains an 'averageExpression' or 'baseMean' column with values greater than 0.</p>;
+        return <p className="text-gray-400">No data available for MA Plot. No gene has a baseMean greater than 0.</p>;
     }
 
-    const getColor = (entry: GeneData) => {
-        if (entry.pvalue < pThreshold && Math.abs(entry.log2FoldChange) > fcThreshold) {
+    const getColor = (entry: GeneData & { lfc: number }) => {
+        if (isSignificant(entry, pThreshold) && Math.abs(entry.lfc) > fcThreshold) {
             return '#f87171'; // Red for significant
         }
         return '#6b7280'; // Gray for non-significant
@@ -47,26 +52,26 @@ const MAPlot: React.FC<MAPlotProps> = ({ data }) => {
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
           <XAxis 
             type="number" 
-            dataKey="log10AvgExpr" 
-            name="log10(Average Expression)"
+            dataKey="log10BaseMean" 
+            name="log10(baseMean)"
             domain={['dataMin', 'dataMax']}
             tick={{ fill: '#9ca3af' }}
             stroke="#6b7280"
           >
-             <Label value="log10(Average Expression)" offset={-25} position="insideBottom" fill="#d1d5db"/>
+             <Label value="log10(baseMean)" offset={-25} position="insideBottom" fill="#d1d5db"/>
           </XAxis>
           <YAxis 
             type="number" 
-            dataKey="log2FoldChange" 
-            name="log2(Fold Change)"
+            dataKey="lfc" 
+            name={lfcLabel}
             tick={{ fill: '#9ca3af' }}
             stroke="#6b7280"
           >
-            <Label value="log2(Fold Change)" angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }}/>
+            <Label value={lfcLabel} angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }}/>
           </YAxis>
           <ZAxis dataKey="gene" name="gene" />
           <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3', stroke: '#4b5563' }} />
-          <Scatter name="Genes" data={plotData} fill="#8884d8">
+          <Scatter name="Genes" data={plotData} fill="#8884d8" onClick={(point: any) => onGeneClick?.(point.gene ?? point.payload?.gene)} cursor={onGeneClick ? 'pointer' : undefined}>
             {plotData.map((entry, index) => (
               <Cell key={`cell-${index}`} fill={getColor(entry)} />
             ))}
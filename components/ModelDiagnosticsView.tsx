@@ -0,0 +1,103 @@
+import React, { useRef } from 'react';
+import type { ComparisonResult, DispersionFitType } from '../types';
+import AnalysisResultContainer from './AnalysisResultContainer';
+import PValueHistogram from './PValueHistogram';
+import DispersionPlot from './DispersionPlot';
+import { downloadExcel, downloadPlotPng } from '../utils/downloader';
+import { getDiagnosticWarnings, getOutlierSamples, getPValueHistogram } from '../utils/diagnostics';
+import { getTestLabel } from '../utils/results';
+
+interface ModelDiagnosticsViewProps {
+  comparison: ComparisonResult;
+  comparisonName: string;
+}
+
+const FIT_TYPE_LABELS: Record<DispersionFitType, string> = {
+    parametric: 'Parametric',
+    local: 'Local regression',
+    mean: 'Mean dispersion',
+    glmGamPoi: 'glmGamPoi',
+    gene_estimates: 'None (gene-wise estimates used)',
+};
+
+const ModelDiagnosticsView: React.FC<ModelDiagnosticsViewProps> = ({ comparison, comparisonName }) => {
+    const histogramRef = useRef<HTMLDivElement>(null);
+    const dispersionRef = useRef<HTMLDivElement>(null);
+    const { diagnostics } = comparison;
+    const warnings = getDiagnosticWarnings(comparison);
+    const outlierSamples = diagnostics ? getOutlierSamples(diagnostics) : [];
+
+    const downloadFrom = (ref: React.RefObject<HTMLDivElement>, name: string) => {
+        const svg = ref.current?.querySelector('svg');
+        if (svg) downloadPlotPng(svg, `${comparisonName}_${name}`);
+    };
+
+    return (
+        <>
+            {warnings.length > 0 && (
+                <div className="bg-yellow-900/20 border border-yellow-500/50 text-yellow-300 p-4 rounded-lg space-y-2">
+                    {warnings.map(w => <p key={w} className="text-sm">{w}</p>)}
+                </div>
+            )}
+
+            <AnalysisResultContainer title="P-value Histogram" onDownload={() => downloadFrom(histogramRef, 'pvalue_histogram')} downloadLabel="Download PNG">
+                <div ref={histogramRef}>
+                    <PValueHistogram bins={getPValueHistogram(comparison.genes)} testLabel={getTestLabel(comparison)} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">A healthy histogram is flat with a peak near 0 from the changed genes. A slope across the upper half points to anti-conservative p-values; a pile at 1 comes from low-count genes.</p>
+            </AnalysisResultContainer>
+
+            {diagnostics ? (
+                <>
+                    <AnalysisResultContainer title="Dispersion Estimates" onDownload={() => downloadFrom(dispersionRef, 'dispersion_estimates')} downloadLabel="Download PNG">
+                        <div ref={dispersionRef}>
+                            <DispersionPlot dispersions={diagnostics.dispersions} />
+                        </div>
+                        <p className="text-xs text-gray-400 mt-2">Trend: <span className="text-cyan-400">{FIT_TYPE_LABELS[diagnostics.fitType] ?? diagnostics.fitType}</span>. Final estimates circled in black were too far above the trend to be shrunk towards it.</p>
+                        {diagnostics.fitMessages.length > 0 && (
+                            <ul className="text-xs text-yellow-400 mt-2 list-disc list-inside">
+                                {diagnostics.fitMessages.map(m => <li key={m}>{m}</li>)}
+                            </ul>
+                        )}
+                    </AnalysisResultContainer>
+
+                    <AnalysisResultContainer title="Cook's Distances" onDownload={() => downloadExcel(diagnostics.outlierGenes, `${comparisonName}_cooks_outlier_genes`)} downloadLabel="Download Outlier Genes">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left text-gray-300">
+                                <thead className="text-xs text-gray-400 uppercase bg-gray-900/50">
+                                    <tr>
+                                        <th className="px-4 py-2">Sample</th>
+                                        <th className="px-4 py-2 text-right">Genes above cutoff</th>
+                                        <th className="px-4 py-2 text-right">Max Cook's distance</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {diagnostics.cooks.map(c => (
+                                        <tr key={c.sample} className="border-b border-gray-700">
+                                            <td className={`px-4 py-2 ${outlierSamples.includes(c.sample) ? 'text-yellow-400 font-semibold' : ''}`}>{c.sample}</td>
+                                            <td className="px-4 py-2 text-right">{c.genesAboveCutoff.toLocaleString()}</td>
+                                            <td className="px-4 py-2 text-right">{c.maxCooks.toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                            Cutoff {diagnostics.cooksCutoff !== null ? diagnostics.cooksCutoff.toFixed(2) : 'n/a'} (99% quantile of F(p, m - p), DESeq2's default).
+                            {' '}{diagnostics.outlierGeneCount.toLocaleString()} genes exceed it{diagnostics.outlierGeneCount > diagnostics.outlierGenes.length && ` (the ${diagnostics.outlierGenes.length} strongest are in the download)`}; with fewer than 7 replicates DESeq2 sets their p-values to NA instead of replacing the outlier count.
+                        </p>
+                        {diagnostics.outlierGenes.length > 0 && (
+                            <p className="text-xs text-gray-400 mt-2 break-words">
+                                Strongest: {diagnostics.outlierGenes.slice(0, 15).map(g => `${g.gene} (${g.sample})`).join(', ')}
+                            </p>
+                        )}
+                    </AnalysisResultContainer>
+                </>
+            ) : (
+                <p className="text-sm text-gray-500">Dispersion and Cook's distance diagnostics are available for DESeq2 comparisons.</p>
+            )}
+        </>
+    );
+};
+
+export default ModelDiagnosticsView;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label } from 'recharts';
+import type { PValueBin } from '../utils/diagnostics';
+
+interface PValueHistogramProps {
+  bins: PValueBin[];
+  testLabel: string;
+}
+
+const PValueHistogram: React.FC<PValueHistogramProps> = ({ bins, testLabel }) => {
+    const plotData = bins.map(b => ({ ...b, label: b.start.toFixed(2) }));
+    return (
+        <div style={{ width: '100%', height: 320 }}>
+            <ResponsiveContainer>
+                <BarChart data={plotData} barCategoryGap={1} margin={{ top: 10, right: 20, bottom: 30, left: 30 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="label" tick={{ fill: '#9ca3af', fontSize: 11 }} stroke="#6b7280">
+                        <Label value={`Raw p-value (${testLabel})`} offset={-15} position="insideBottom" fill="#d1d5db" />
+                    </XAxis>
+                    <YAxis tick={{ fill: '#9ca3af' }} stroke="#6b7280">
+                        <Label value="Genes" angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }} />
+                    </YAxis>
+                    <Tooltip
+                        contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+                        labelFormatter={(_, payload: any) => payload?.[0] ? `p in [${payload[0].payload.start.toFixed(2)}, ${payload[0].payload.end.toFixed(2)})` : ''}
+                        formatter={(value: number) => [value.toLocaleString(), 'Genes']}
+                    />
+                    <Bar dataKey="count" fill="#22d3ee" isAnimationActive={false} />
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+export default PValueHistogram;
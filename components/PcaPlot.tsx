@@ -0,0 +1,92 @@
+import React from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, Symbols } from 'recharts';
+import type { SampleQc } from '../types';
+
+interface PcaPlotProps {
+  qc: SampleQc;
+  pcX: number; // 0-based PC indices
+  pcY: number;
+  colorGroups: { [sample: string]: string };
+  groupColors: { [group: string]: string };
+  shapeGroups: { [sample: string]: string } | null;
+  // Samples of the same subject are joined by a line
+  subjects: { [sample: string]: string } | null;
+}
+
+const SHAPES = ['circle', 'triangle', 'square', 'diamond', 'star', 'cross', 'wye'] as const;
+
+const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length && payload[0].payload.sample) {
+        const point = payload[0].payload;
+        return (
+            <div className="bg-gray-800 text-white p-3 border border-gray-600 rounded-md shadow-lg">
+                <p className="font-bold text-cyan-400">{point.sample}</p>
+                <p>{point.color}{point.shape !== undefined && ` · ${point.shape}`}</p>
+                {point.subject !== undefined && <p className="text-gray-400">Subject: {point.subject}</p>}
+            </div>
+        );
+    }
+    return null;
+};
+
+const PcaPlot: React.FC<PcaPlotProps> = ({ qc, pcX, pcY, colorGroups, groupColors, shapeGroups, subjects }) => {
+    const shapeValues = shapeGroups ? [...new Set(qc.samples.map(s => shapeGroups[s]))] : [];
+    const points = qc.samples.map((sample, i) => ({
+        sample,
+        x: qc.pcs[i][pcX],
+        y: qc.pcs[i][pcY],
+        color: colorGroups[sample],
+        shape: shapeGroups?.[sample],
+        subject: subjects?.[sample],
+    }));
+    const subjectLines = subjects ? [...new Set(qc.samples.map(s => subjects[s]))].map(subject => points.filter(p => p.subject === subject)) : [];
+    const axisLabel = (pc: number) => `PC${pc + 1} (${(qc.varianceExplained[pc] * 100).toFixed(1)}% variance)`;
+
+    return (
+        <div>
+            <div style={{ width: '100%', height: 450 }}>
+                <ResponsiveContainer>
+                    <ScatterChart margin={{ top: 20, right: 20, bottom: 40, left: 40 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                        <XAxis type="number" dataKey="x" name={`PC${pcX + 1}`} tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={v => v.toFixed(0)}>
+                            <Label value={axisLabel(pcX)} offset={-25} position="insideBottom" fill="#d1d5db" />
+                        </XAxis>
+                        <YAxis type="number" dataKey="y" name={`PC${pcY + 1}`} tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={v => v.toFixed(0)}>
+                            <Label value={axisLabel(pcY)} angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: '#d1d5db' }} />
+                        </YAxis>
+                        <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3', stroke: '#4b5563' }} />
+                        {subjectLines.map(line => (
+                            <Scatter key={`subject-${line[0].subject}`} data={line} line={{ stroke: '#4b5563' }} shape={() => <g />} isAnimationActive={false} legendType="none" />
+                        ))}
+                        <Scatter
+                            data={points}
+                            isAnimationActive={false}
+                            shape={(props: any) => (
+                                <Symbols
+                                    cx={props.cx}
+                                    cy={props.cy}
+                                    size={90}
+                                    type={SHAPES[Math.max(0, shapeValues.indexOf(props.payload.shape)) % SHAPES.length]}
+                                    fill={groupColors[props.payload.color]}
+                                    stroke="#111827"
+                                />
+                            )}
+                        />
+                    </ScatterChart>
+                </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-300 mt-2">
+                {Object.keys(groupColors).map(group => (
+                    <span key={group} className="flex items-center"><span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: groupColors[group] }} />{group}</span>
+                ))}
+                {shapeValues.map((value, i) => (
+                    <span key={`shape-${value}`} className="flex items-center text-gray-400">
+                        <svg width="12" height="12" className="mr-1"><Symbols cx={6} cy={6} size={50} type={SHAPES[i % SHAPES.length]} fill="#9ca3af" /></svg>{value}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PcaPlot;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Label } from 'recharts';
+import type { PrefilterReport } from '../types';
+
+interface PrefilterReportPanelProps {
+  report: PrefilterReport;
+}
+
+const PrefilterReportPanel: React.FC<PrefilterReportPanelProps> = ({ report }) => {
+  const removed = report.genesBefore - report.genesAfter;
+  const plotData = report.density.map(d => ({ ...d, logCpm: Number(d.logCpm.toFixed(2)) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-gray-900/50 p-3 rounded-lg">
+          <p className="text-xs text-gray-400">Genes before</p>
+          <p className="text-xl font-bold text-gray-100">{report.genesBefore.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-900/50 p-3 rounded-lg">
+          <p className="text-xs text-gray-400">Removed</p>
+          <p className="text-xl font-bold text-red-400">{removed.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-900/50 p-3 rounded-lg">
+          <p className="text-xs text-gray-400">Genes tested</p>
+          <p className="text-xl font-bold text-cyan-400">{report.genesAfter.toLocaleString()}</p>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400">Rule: <span className="text-gray-200">{report.description}</span></p>
+      {plotData.length > 0 && (
+        <div style={{ width: '100%', height: 300 }}>
+          <ResponsiveContainer>
+            <LineChart data={plotData} margin={{ top: 10, right: 20, bottom: 30, left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis type="number" dataKey="logCpm" domain={['dataMin', 'dataMax']} tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={v => v.toFixed(0)}>
+                <Label value="log2 CPM" offset={-15} position="insideBottom" fill="#d1d5db" />
+              </XAxis>
+              <YAxis tick={{ fill: '#9ca3af' }} stroke="#6b7280" tickFormatter={v => v.toFixed(2)}>
+                <Label value="Density" angle={-90} position="insideLeft" fill="#d1d5db" style={{ textAnchor: 'middle' }} />
+              </YAxis>
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+                labelFormatter={v => `log2 CPM ${v}`}
+                formatter={(value: number) => value.toFixed(3)}
+              />
+              <Legend verticalAlign="top" />
+              <Line type="monotone" dataKey="before" name="Before filtering" stroke="#9ca3af" dot={false} strokeWidth={2} />
+              <Line type="monotone" dataKey="after" name="After filtering" stroke="#22d3ee" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrefilterReportPanel;
@@ -1,77 +1,88 @@
 
 import React, { useRef } from 'react';
-import type { AnalysisResult, CountMatrix, GeneData, GseaDatabase, GseaResult } from '../types';
+import type { AnalysisResult, ComparisonResult, CountMatrix, CountTransforms, SampleMetadata, GeneResultFlag, GseaDatabase, GseaResult, LfcMode, GeneSelection } from '../types';
 import LoadingSpinner from './LoadingSpinner';
+import AnalysisResultContainer, { DownloadIcon } from './AnalysisResultContainer';
 import VolcanoPlot from './VolcanoPlot';
 import GeneTable from './GeneTable';
 import MAPlot from './MAPlot';
-import Heatmap from './Heatmap';
+import HeatmapView from './HeatmapView';
 import GseaDotPlot from './GseaDotPlot';
+import PrefilterReportPanel from './PrefilterReportPanel';
+import ConcordanceView from './ConcordanceView';
+import CountExportPanel from './CountExportPanel';
+import SampleQcView from './SampleQcView';
+import ModelDiagnosticsView from './ModelDiagnosticsView';
 import { RService } from '../services/rService';
-import { downloadExcel, downloadPlotPng } from '../utils/downloader';
+import { downloadExcel, downloadPlotPng, downloadWorkbook } from '../utils/downloader';
+import { countResultFlags, getComparisonLabel, getSignificantGenes, ENGINE_LABELS, FLAG_LABELS, SHRINK_LABELS, toResultRows } from '../utils/results';
+import { computeConcordance, toMembershipRows } from '../utils/concordance';
+import { formatContrast } from '../utils/contrasts';
+import { describeDroppedSample } from '../utils/pairing';
+import { toWorkbookSheets } from '../utils/countExports';
 
 interface ResultsDisplayProps {
   isLoading: boolean;
   loadingMessage: string;
+  loadingProgress: number | null;
   error: string | null;
   result: AnalysisResult | null;
-  data: GeneData[] | null;
+  comparisonResult: ComparisonResult | null;
   countMatrix: CountMatrix | null;
+  sampleMetadata: SampleMetadata | null;
   rService: RService;
+  degResults: { [key: string]: ComparisonResult } | null;
+  countTransforms: CountTransforms | null;
   comparisons: string[];
   currentComparison: string | null;
   onComparisonChange: (comparison: string) => void;
   gseaResults: { [key: string]: { [db in GseaDatabase]?: GseaResult[] } };
+  pValueThreshold: number;
+  lfcMode: LfcMode;
+  onGeneSelect: (gene: string) => void;
+  geneSelections: GeneSelection[];
+  onSaveGeneSelection: (selection: GeneSelection) => void;
 }
 
-const DownloadIcon: React.FC<{className?: string}> = ({ className }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
-);
-
-
 const WelcomeMessage: React.FC = () => (
     <div className="text-center text-gray-400 p-8 border-2 border-dashed border-gray-700 rounded-xl">
         <h2 className="text-2xl font-bold text-gray-300 mb-2">Welcome to Transcriptome Analyst AI</h2>
-        <p className="mb-4">Upload your data to begin analysis with DESeq2.</p>
+        <p className="mb-4">Upload your data to begin analysis with DESeq2, edgeR or limma-voom.</p>
         <div className="text-left max-w-2xl mx-auto space-y-3">
-           <p><strong className="text-cyan-400">1. Count Matrix (Required):</strong> A CSV or TSV file.</p>
+           <p><strong className="text-cyan-400">1. Count Matrix (Required):</strong> A CSV or TSV file, optionally gzip-compressed, or an Excel workbook.</p>
            <p className="text-sm ml-4 text-gray-500">
                 The first column must be your gene identifiers (the app will attempt to convert them to symbols).
             </p>
              <p className="text-sm ml-4 text-gray-500">
                 Subsequent columns should be your samples with their raw counts.
+            </p>
+             <p className="text-sm ml-4 text-gray-500">
+                A featureCounts table, or one HTSeq-count or STAR <code className="bg-gray-800 p-1 rounded">ReadsPerGene.out.tab</code> file per sample, can be uploaded instead.
+            </p>
+             <p className="text-sm ml-4 text-gray-500">
+                Salmon <code className="bg-gray-800 p-1 rounded">quant.sf</code> and kallisto <code className="bg-gray-800 p-1 rounded">abundance.tsv</code> files (one per sample, named after the sample) are summarized to genes using a tx2gene table from Import Options.
+            </p>
+             <p className="text-sm ml-4 text-gray-500">
+                10x Genomics <code className="bg-gray-800 p-1 rounded">matrix.mtx</code>, <code className="bg-gray-800 p-1 rounded">barcodes.tsv</code> and <code className="bg-gray-800 p-1 rounded">features.tsv</code> are summed into pseudobulk samples using a cell assignment table from Import Options; the sample metadata is generated for you.
             </p>
             <p><strong className="text-cyan-400">2. Sample Metadata (Required):</strong> A CSV, TSV or Excel file.</p>
              <p className="text-sm ml-4 text-gray-500">
-               Must contain a <code className="bg-gray-800 p-1 rounded">sample</code> column with names matching the count matrix, and a <code className="bg-ray-800 p-1 rounded">condition</code> column grouping your samples.
+               Must contain a sample column with names matching the count matrix, and a condition column grouping your samples. You choose which columns (and which workbook sheet) to use after uploading.
+            </p>
+             <p className="text-sm ml-4 text-gray-500">
+               Any other columns (e.g. batch, sex, donor) are kept as covariates you can add to the design formula.
             </p>
         </div>
     </div>
 );
 
-const AnalysisResultContainer: React.FC<{title: string; children: React.ReactNode; onDownload?: () => void, downloadLabel?: string }> = ({ title, children, onDownload, downloadLabel }) => (
-     <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700/50">
-        <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-bold text-cyan-400 capitalize">
-                {title}
-            </h2>
-            {onDownload && (
-                <button onClick={onDownload} className="flex items-center space-x-2 text-sm bg-gray-700 hover:bg-cyan-600 text-gray-200 font-semibold py-2 px-3 rounded-lg transition-colors">
-                    <DownloadIcon className="h-4 w-4" />
-                    <span>{downloadLabel || 'Download'}</span>
-                </button>
-            )}
-        </div>
-        {children}
-    </div>
-);
-
 const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
-  const { isLoading, loadingMessage, error, result, data, countMatrix, rService, comparisons, currentComparison, onComparisonChange, gseaResults } = props;
+  const { isLoading, loadingMessage, loadingProgress, error, result, comparisonResult, countMatrix, sampleMetadata, rService, degResults, countTransforms, comparisons, currentComparison, onComparisonChange, gseaResults, pValueThreshold, lfcMode, onGeneSelect, geneSelections, onSaveGeneSelection } = props;
+  const data = comparisonResult?.genes;
   const plotContainerRef = useRef<HTMLDivElement>(null);
 
   if (isLoading) {
-    return <LoadingSpinner message={loadingMessage} />;
+    return <LoadingSpinner message={loadingMessage} progress={loadingProgress} />;
   }
 
   if (error) {
@@ -94,17 +105,45 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
     }
   }
 
-  const { type, text, significantGenes, gseaData } = result;
+  const { type, text, gseaData } = result;
+  // Recomputed here so the lists follow the threshold and fold-change toggle
+  const significantGenes = getSignificantGenes(data, pValueThreshold, lfcMode);
+  const resultFlags = countResultFlags(data);
   
   const renderContent = () => {
     switch(type) {
         case 'summary':
             return (
-                <AnalysisResultContainer title={"AI Analysis Summary"}>
-                     <div className="prose prose-invert prose-p:text-gray-300 prose-headings:text-gray-100 whitespace-pre-wrap">
-                        {text}
-                    </div>
-                </AnalysisResultContainer>
+                <>
+                    <AnalysisResultContainer title={"AI Analysis Summary"}>
+                         <div className="prose prose-invert prose-p:text-gray-300 prose-headings:text-gray-100 whitespace-pre-wrap">
+                            {text}
+                        </div>
+                    </AnalysisResultContainer>
+                    <AnalysisResultContainer title="All Genes" onDownload={() => downloadExcel(toResultRows(data), `${currentComparison}_all_genes`)} downloadLabel="Download Excel">
+                        <div className="grid grid-cols-4 gap-4 text-center">
+                            <div className="bg-gray-900/50 p-3 rounded-lg">
+                                <p className="text-xs text-gray-400">Genes in results</p>
+                                <p className="text-xl font-bold text-gray-100">{data.length.toLocaleString()}</p>
+                            </div>
+                            {(Object.keys(FLAG_LABELS) as GeneResultFlag[]).map(flag => (
+                                <div key={flag} className="bg-gray-900/50 p-3 rounded-lg">
+                                    <p className="text-xs text-gray-400">{FLAG_LABELS[flag]}</p>
+                                    <p className="text-xl font-bold text-yellow-400">{resultFlags[flag].toLocaleString()}</p>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="mt-3 text-sm text-gray-400">Flagged genes have no adjusted p-value. They stay in the downloaded table with a flag column instead of being dropped.</p>
+                    </AnalysisResultContainer>
+                    <AnalysisResultContainer title="Low-Count Filtering">
+                        <PrefilterReportPanel report={comparisonResult.prefilter} />
+                    </AnalysisResultContainer>
+                    {countTransforms && (
+                        <AnalysisResultContainer title="Normalized & Transformed Counts" onDownload={() => downloadWorkbook(toWorkbookSheets(countTransforms), 'deseq2_normalized_counts')} downloadLabel="Download Excel">
+                            <CountExportPanel transforms={countTransforms} />
+                        </AnalysisResultContainer>
+                    )}
+                </>
             );
         
         case 'volcano':
@@ -112,7 +151,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
                 <>
                     <AnalysisResultContainer title="Volcano Plot" onDownload={handleDownloadPlot} downloadLabel="Download PNG">
                         <div ref={plotContainerRef}>
-                            <VolcanoPlot data={data} />
+                            <VolcanoPlot data={data} lfcMode={lfcMode} onGeneClick={onGeneSelect} />
                         </div>
                     </AnalysisResultContainer>
                 </>
@@ -123,25 +162,34 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
                 <>
                     <AnalysisResultContainer title="MA Plot" onDownload={handleDownloadPlot} downloadLabel="Download PNG">
                          <div ref={plotContainerRef}>
-                            <MAPlot data={data} />
+                            <MAPlot data={data} lfcMode={lfcMode} onGeneClick={onGeneSelect} />
                          </div>
                     </AnalysisResultContainer>
                 </>
              );
         case 'heatmap':
-            return (
-                <>
-                    <AnalysisResultContainer title="Top 40 Differentially Expressed Genes Heatmap">
-                        {significantGenes && countMatrix && rService && (
-                            <Heatmap 
-                                up={significantGenes.up.slice(0, 20)} 
-                                down={significantGenes.down.slice(0, 20)}
-                                countMatrix={countMatrix}
-                                rService={rService}
-                            />
-                        )}
+            if (!countTransforms || !sampleMetadata || !rService) {
+                return (
+                    <AnalysisResultContainer title="Expression Heatmap">
+                        <p className="text-gray-400">The heatmap needs the variance-stabilized counts of the last run.</p>
                     </AnalysisResultContainer>
-                </>
+                );
+            }
+            return (
+                <HeatmapView
+                    comparisonGenes={data}
+                    comparisonName={currentComparison}
+                    transforms={countTransforms}
+                    sampleMetadata={sampleMetadata}
+                    rService={rService}
+                    degResults={degResults ?? {}}
+                    gseaResults={gseaResults}
+                    pValueThreshold={pValueThreshold}
+                    lfcMode={lfcMode}
+                    geneSelections={geneSelections}
+                    onSaveGeneSelection={onSaveGeneSelection}
+                    onGeneClick={onGeneSelect}
+                />
             );
         
         case 'gsea':
@@ -161,6 +209,23 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
                 </AnalysisResultContainer>
              )
 
+        case 'concordance':
+            if (!degResults) return null;
+            const engineResults = Object.keys(degResults).map(key => degResults[key]).filter(r => r.contrast === comparisonResult.contrast);
+            const concordance = computeConcordance(engineResults, pValueThreshold, lfcMode);
+            return (
+                <AnalysisResultContainer title={`Engine Concordance: ${comparisonResult.contrast}`} onDownload={() => downloadExcel(toMembershipRows(concordance, ENGINE_LABELS), `${comparisonResult.contrast}_engine_concordance`)} downloadLabel="Download Excel">
+                    <ConcordanceView report={concordance} />
+                </AnalysisResultContainer>
+            );
+
+        case 'qc':
+            if (!countTransforms || !countMatrix || !sampleMetadata) return null;
+            return <SampleQcView transforms={countTransforms} countMatrix={countMatrix} sampleMetadata={sampleMetadata} rService={rService} />;
+
+        case 'diagnostics':
+            return <ModelDiagnosticsView comparison={comparisonResult} comparisonName={currentComparison} />;
+
         default:
             return null;
     }
@@ -169,29 +234,60 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = (props) => {
 
   return (
     <div className="space-y-8 animate-fade-in">
-        {comparisons.length > 1 && (
-            <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50 flex items-center space-x-4">
-                <label htmlFor="comparison-select" className="font-semibold text-gray-200">Current Comparison:</label>
-                <select 
-                    id="comparison-select"
-                    value={currentComparison || ''}
-                    onChange={(e) => onComparisonChange(e.target.value)}
-                    className="block w-full max-w-xs pl-3 pr-10 py-2 text-base bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md text-white"
-                >
-                    {comparisons.map(c => <option key={c} value={c}>{c}</option>)}
-                </select>
-            </div>
-        )}
+        <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50 flex items-center space-x-4">
+            {comparisons.length > 1 ? (
+                <>
+                    <label htmlFor="comparison-select" className="font-semibold text-gray-200">Current Comparison:</label>
+                    <select 
+                        id="comparison-select"
+                        value={currentComparison || ''}
+                        onChange={(e) => onComparisonChange(e.target.value)}
+                        className="block w-full max-w-xs pl-3 pr-10 py-2 text-base bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md text-white"
+                    >
+                        {comparisons.map(c => <option key={c} value={c}>{degResults?.[c] ? getComparisonLabel(degResults[c]) : c}</option>)}
+                    </select>
+                </>
+            ) : (
+                <span className="font-semibold text-gray-200">Comparison: <span className="text-cyan-400">{getComparisonLabel(comparisonResult)}</span></span>
+            )}
+            <span className="text-sm text-gray-400">Design: <code className="text-cyan-400">{comparisonResult.design}</code></span>
+            {comparisonResult.contrastWeights && (
+                <span className="text-sm text-gray-400">Contrast: <code className="text-cyan-400">{formatContrast(comparisonResult.contrastWeights)}</code></span>
+            )}
+            {comparisonResult.reducedDesign && (
+                <span className="text-sm text-gray-400">Reduced: <code className="text-cyan-400">{comparisonResult.reducedDesign}</code></span>
+            )}
+            {comparisonResult.pairing && (
+                <span className="text-sm text-gray-400">Paired by <span className="text-cyan-400">{comparisonResult.pairing.column}</span> ({comparisonResult.pairing.subjects} subjects)</span>
+            )}
+            {comparisonResult.pairing?.droppedSamples.length > 0 && (
+                <span className="text-sm text-gray-400" title="These samples had no partner under another condition.">
+                    Unpaired, left out: <span className="text-yellow-400">{comparisonResult.pairing.droppedSamples.map(describeDroppedSample).join(', ')}</span>
+                </span>
+            )}
+            <span className="text-sm text-gray-400">{comparisonResult.prefilter.genesAfter.toLocaleString()} genes tested</span>
+            {comparisonResult.reusedFit && (
+                <span className="text-sm text-gray-400" title="The DESeq2 model fitted for an earlier comparison on the same data was reused; only results() was run.">Model: <span className="text-cyan-400">cached fit</span></span>
+            )}
+            {comparisonResult.lfcShrink !== 'none' && (
+                <span className="text-sm text-gray-400">LFC shrinkage: <span className="text-cyan-400">{SHRINK_LABELS[comparisonResult.lfcShrink]}</span>{lfcMode === 'raw' && ' (showing raw)'}</span>
+            )}
+            {comparisonResult.excludedSamples.length > 0 && (
+                <span className="text-sm text-gray-400" title={comparisonResult.excludedSamples.join(', ')}>
+                    Excluded samples: <span className="text-yellow-400">{comparisonResult.excludedSamples.join(', ')}</span>
+                </span>
+            )}
+        </div>
 
        {renderContent()}
         
-        {significantGenes && (type === 'summary' || type === 'volcano' || type === 'ma_plot') && (
+        {(type === 'summary' || type === 'volcano' || type === 'ma_plot') && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                <AnalysisResultContainer title="Top Up-Regulated Genes" onDownload={() => downloadExcel(significantGenes.up, `${currentComparison}_up_regulated_genes`)} downloadLabel="Download Excel">
-                    <GeneTable genes={significantGenes.up.slice(0, 10)} />
+                <AnalysisResultContainer title="Top Up-Regulated Genes" onDownload={() => downloadExcel(toResultRows(significantGenes.up), `${currentComparison}_up_regulated_genes`)} downloadLabel="Download Excel">
+                    <GeneTable genes={significantGenes.up.slice(0, 10)} onGeneClick={onGeneSelect} />
                 </AnalysisResultContainer>
-                 <AnalysisResultContainer title="Top Down-Regulated Genes" onDownload={() => downloadExcel(significantGenes.down, `${currentComparison}_down_regulated_genes`)} downloadLabel="Download Excel">
-                    <GeneTable genes={significantGenes.down.slice(0, 10)} />
+                 <AnalysisResultContainer title="Top Down-Regulated Genes" onDownload={() => downloadExcel(toResultRows(significantGenes.down), `${currentComparison}_down_regulated_genes`)} downloadLabel="Download Excel">
+                    <GeneTable genes={significantGenes.down.slice(0, 10)} onGeneClick={onGeneSelect} />
                 </AnalysisResultContainer>
             </div>
         )}
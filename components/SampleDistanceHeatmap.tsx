@@ -0,0 +1,77 @@
+import React from 'react';
+import type { SampleQc } from '../types';
+
+interface SampleDistanceHeatmapProps {
+  qc: SampleQc;
+  // Metadata tracks drawn above the columns, e.g. condition and the pairing subject
+  annotations: { name: string; groups: { [sample: string]: string }; colors: { [group: string]: string } }[];
+}
+
+const CELL = 22;
+const TRACK = 10;
+const LABEL_WIDTH = 140;
+
+// Close samples are dark, distant ones light
+const getDistanceColor = (value: number, max: number): string => {
+    const t = max > 0 ? value / max : 0;
+    const r = Math.round(8 + t * (224 - 8));
+    const g = Math.round(51 + t * (242 - 51));
+    const b = Math.round(68 + t * (254 - 68));
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+const SampleDistanceHeatmap: React.FC<SampleDistanceHeatmapProps> = ({ qc, annotations }) => {
+    const order = qc.clusterOrder;
+    const n = order.length;
+    const max = Math.max(...qc.distances.flat());
+    const top = annotations.length * (TRACK + 2) + 4;
+    const width = LABEL_WIDTH + n * CELL;
+    const height = top + n * CELL + LABEL_WIDTH;
+    const distanceLabel = qc.distance === 'correlation' ? '1 - Pearson r' : 'Euclidean distance';
+
+    return (
+        <div className="space-y-3">
+            <div className="overflow-x-auto">
+                <svg width={width} height={height} xmlns="http://www.w3.org/2000/svg" fontFamily="sans-serif">
+                    {annotations.map((track, t) => (
+                        <g key={track.name}>
+                            <text x={LABEL_WIDTH - 6} y={t * (TRACK + 2) + TRACK - 1} fontSize={10} textAnchor="end" fill="#9ca3af">{track.name}</text>
+                            {order.map((sampleIndex, col) => (
+                                <rect key={col} x={LABEL_WIDTH + col * CELL} y={t * (TRACK + 2)} width={CELL - 1} height={TRACK} fill={track.colors[track.groups[qc.samples[sampleIndex]]]}>
+                                    <title>{`${qc.samples[sampleIndex]}: ${track.groups[qc.samples[sampleIndex]]}`}</title>
+                                </rect>
+                            ))}
+                        </g>
+                    ))}
+                    {order.map((rowIndex, row) => (
+                        <g key={row}>
+                            <text x={LABEL_WIDTH - 6} y={top + row * CELL + CELL / 2 + 4} fontSize={11} textAnchor="end" fill="#d1d5db">{qc.samples[rowIndex]}</text>
+                            {order.map((colIndex, col) => (
+                                <rect key={col} x={LABEL_WIDTH + col * CELL} y={top + row * CELL} width={CELL - 1} height={CELL - 1} fill={getDistanceColor(qc.distances[rowIndex][colIndex], max)}>
+                                    <title>{`${qc.samples[rowIndex]} vs ${qc.samples[colIndex]}: ${qc.distances[rowIndex][colIndex].toFixed(3)}`}</title>
+                                </rect>
+                            ))}
+                        </g>
+                    ))}
+                    {order.map((colIndex, col) => {
+                        const x = LABEL_WIDTH + col * CELL + CELL / 2 + 4;
+                        const y = top + n * CELL + 6;
+                        return <text key={col} x={x} y={y} fontSize={11} fill="#d1d5db" transform={`rotate(-90 ${x} ${y})`} textAnchor="end">{qc.samples[colIndex]}</text>;
+                    })}
+                </svg>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+                <span className="flex items-center">
+                    0
+                    <span className="inline-block w-24 h-3 mx-1 rounded-sm" style={{ background: `linear-gradient(to right, ${getDistanceColor(0, 1)}, ${getDistanceColor(1, 1)})` }} />
+                    {max.toFixed(2)} ({distanceLabel})
+                </span>
+                {annotations.map(track => Object.keys(track.colors).map(group => (
+                    <span key={`${track.name}-${group}`} className="flex items-center"><span className="inline-block w-3 h-3 mr-1" style={{ backgroundColor: track.colors[group] }} />{track.name}: {group}</span>
+                )))}
+            </div>
+        </div>
+    );
+};
+
+export default SampleDistanceHeatmap;
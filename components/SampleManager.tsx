@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import type { CountMatrix, SampleEdit, SampleEdits, SampleMetadata } from '../types';
+import { getLibrarySizes, getMatrixSamples } from '../utils/matrix';
+import { getAllSamples, getExcludedSamples } from '../utils/samples';
+
+interface SampleManagerProps {
+  countMatrix: CountMatrix;
+  sampleMetadata: SampleMetadata;
+  edits: SampleEdits;
+  onEditsChange: (edits: SampleEdits) => void;
+  disabled: boolean;
+}
+
+const formatLibrarySize = (size: number): string => {
+  if (size >= 1e6) return `${(size / 1e6).toFixed(1)}M`;
+  if (size >= 1e3) return `${(size / 1e3).toFixed(0)}k`;
+  return String(Math.round(size));
+};
+
+const SampleManager: React.FC<SampleManagerProps> = ({ countMatrix, sampleMetadata, edits, onEditsChange, disabled }) => {
+  const samples = useMemo(() => getAllSamples(countMatrix, sampleMetadata), [countMatrix, sampleMetadata]);
+  const librarySizes = useMemo(() => getLibrarySizes(countMatrix, getMatrixSamples(countMatrix)), [countMatrix]);
+  const conditions = useMemo(() => [...new Set(samples.map(s => edits[s]?.condition || sampleMetadata[s]?.condition).filter(Boolean))], [samples, edits, sampleMetadata]);
+  const excludedCount = getExcludedSamples(edits).length;
+  const isEdited = Object.keys(edits).length > 0;
+
+  const updateEdit = (sample: string, change: Partial<SampleEdit>) => {
+    const next: SampleEdit = { ...edits[sample], ...change };
+    // Drop fields that no longer differ from the upload, so unedited samples have no entry
+    if (!next.excluded) delete next.excluded;
+    if (!next.name || next.name === sample) delete next.name;
+    if (!next.condition || next.condition === sampleMetadata[sample]?.condition) delete next.condition;
+
+    const newEdits = { ...edits };
+    if (Object.keys(next).length === 0) {
+      delete newEdits[sample];
+    } else {
+      newEdits[sample] = next;
+    }
+    onEditsChange(newEdits);
+  };
+
+  const handleRename = (sample: string, event: React.FocusEvent<HTMLInputElement>) => {
+    const name = event.target.value.trim();
+    const takenNames = samples.filter(s => s !== sample).map(s => edits[s]?.name || s);
+    if (!name || takenNames.includes(name)) {
+      // Reject empty and duplicate names by restoring the current one
+      event.target.value = edits[sample]?.name || sample;
+      return;
+    }
+    updateEdit(sample, { name });
+  };
+
+  const handleConditionChange = (sample: string, event: React.FocusEvent<HTMLInputElement>) => {
+    const condition = event.target.value.trim();
+    if (!condition) {
+      // An empty condition falls back to the uploaded one
+      event.target.value = sampleMetadata[sample]?.condition ?? '';
+    }
+    updateEdit(sample, { condition });
+  };
+
+  return (
+    <details className="text-sm">
+      <summary className="text-gray-400 cursor-pointer">
+        Samples ({samples.length - excludedCount} of {samples.length} included{isEdited ? ', edited' : ''})
+      </summary>
+      <div className="mt-2 bg-gray-800/50 p-2 rounded-lg border border-gray-700 space-y-2">
+        <datalist id="sample-manager-conditions">
+          {conditions.map(c => <option key={c} value={c} />)}
+        </datalist>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-medium pb-1"></th>
+              <th className="font-medium pb-1">Sample</th>
+              <th className="font-medium pb-1">Condition</th>
+              <th className="font-medium pb-1 text-right">Reads</th>
+            </tr>
+          </thead>
+          <tbody>
+            {samples.map(sample => {
+              const edit = edits[sample] ?? {};
+              const info = sampleMetadata[sample];
+              const covariates = info ? Object.entries(info.covariates).map(([k, v]) => `${k}: ${v}`).join(', ') : 'Not in metadata';
+              return (
+                <tr key={sample} className={edit.excluded ? 'opacity-40' : ''} title={covariates}>
+                  <td className="pr-1">
+                    <input type="checkbox" checked={!edit.excluded} disabled={disabled} onChange={e => updateEdit(sample, { excluded: !e.target.checked })} className="bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded" title="Include in analysis" />
+                  </td>
+                  <td className="pr-1">
+                    <input
+                      key={edit.name || sample}
+                      defaultValue={edit.name || sample}
+                      disabled={disabled}
+                      onBlur={e => handleRename(sample, e)}
+                      className={`w-full px-1 py-0.5 bg-gray-900 border border-gray-700 rounded ${edit.name ? 'text-cyan-400' : 'text-gray-200'}`}
+                    />
+                  </td>
+                  <td className="pr-1">
+                    <input
+                      key={edit.condition || info?.condition || ''}
+                      list="sample-manager-conditions"
+                      defaultValue={edit.condition || info?.condition || ''}
+                      placeholder="none"
+                      disabled={disabled}
+                      onBlur={e => handleConditionChange(sample, e)}
+                      className={`w-full px-1 py-0.5 bg-gray-900 border border-gray-700 rounded ${edit.condition ? 'text-cyan-400' : 'text-gray-200'}`}
+                    />
+                  </td>
+                  <td className="text-right text-gray-400">{sample in librarySizes ? formatLibrarySize(librarySizes[sample]) : '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {isEdited && (
+          <button onClick={() => onEditsChange({})} disabled={disabled} className="text-xs text-cyan-400 hover:text-cyan-300 underline disabled:opacity-50">
+            Reset all sample edits
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SampleManager;
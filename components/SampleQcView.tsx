@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { CountMatrix, CountTransforms, SampleDistanceMethod, SampleMetadata, SampleQc } from '../types';
+import { RService } from '../services/rService';
+import AnalysisResultContainer from './AnalysisResultContainer';
+import LoadingSpinner from './LoadingSpinner';
+import PcaPlot from './PcaPlot';
+import SampleDistanceHeatmap from './SampleDistanceHeatmap';
+import LibrarySizeChart from './LibrarySizeChart';
+import CountBoxPlot from './CountBoxPlot';
+import { downloadPlotPng } from '../utils/downloader';
+import { getLibrarySizes } from '../utils/matrix';
+import { getCountDistributions, getGroupColors, getGroupingColumns, getSampleGroups } from '../utils/qc';
+
+interface SampleQcViewProps {
+  transforms: CountTransforms;
+  countMatrix: CountMatrix; // raw counts, for library sizes
+  sampleMetadata: SampleMetadata;
+  rService: RService;
+}
+
+const selectClassName = "mt-1 block w-full pl-3 pr-8 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white";
+
+const SampleQcView: React.FC<SampleQcViewProps> = ({ transforms, countMatrix, sampleMetadata, rService }) => {
+    const pairingColumn = transforms.pairing?.column ?? null;
+    const [qc, setQc] = useState<SampleQc | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [distance, setDistance] = useState<SampleDistanceMethod>('euclidean');
+    const [ntop, setNtop] = useState(500);
+    const [removeBlock, setRemoveBlock] = useState(!!pairingColumn);
+    const [pcX, setPcX] = useState(0);
+    const [pcY, setPcY] = useState(1);
+    const [colorBy, setColorBy] = useState('condition');
+    // Paired samples are told apart by shape and joined by a line
+    const [shapeBy, setShapeBy] = useState(pairingColumn ?? '');
+    const [boxCounts, setBoxCounts] = useState<'normalized' | 'raw'>('normalized');
+    const pcaRef = useRef<HTMLDivElement>(null);
+    const distanceRef = useRef<HTMLDivElement>(null);
+    const librarySizeRef = useRef<HTMLDivElement>(null);
+    const boxPlotRef = useRef<HTMLDivElement>(null);
+
+    const { samples } = transforms;
+    const groupingColumns = useMemo(() => getGroupingColumns(sampleMetadata), [sampleMetadata]);
+
+    useEffect(() => {
+        const runQc = async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const block = removeBlock && pairingColumn ? {
+                    column: pairingColumn,
+                    subjects: samples.map(s => String(sampleMetadata[s].covariates[pairingColumn])),
+                    conditions: samples.map(s => sampleMetadata[s].condition),
+                } : undefined;
+                setQc(await rService.runSampleQc(transforms.vst, samples, { ntop, distance, block }));
+            } catch (e: any) {
+                setError(`Sample QC failed: ${e.message}`);
+                setQc(null);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        runQc();
+    }, [transforms, samples, sampleMetadata, rService, ntop, distance, removeBlock, pairingColumn]);
+
+    const colorGroups = getSampleGroups(sampleMetadata, samples, colorBy);
+    const groupColors = getGroupColors(colorGroups, samples);
+    const sampleColors = Object.fromEntries(samples.map(s => [s, groupColors[colorGroups[s]]]));
+    const subjects = pairingColumn ? getSampleGroups(sampleMetadata, samples, pairingColumn) : null;
+    const annotations = [
+        { name: colorBy, groups: colorGroups, colors: groupColors },
+        ...(subjects && colorBy !== pairingColumn ? [{ name: pairingColumn, groups: subjects, colors: getGroupColors(subjects, samples) }] : []),
+    ];
+
+    const librarySizes = useMemo(() => {
+        const reads = getLibrarySizes(countMatrix, samples);
+        return samples.map(sample => ({ sample, reads: reads[sample], sizeFactor: transforms.sizeFactors[sample] }));
+    }, [countMatrix, samples, transforms]);
+    const boxStats = useMemo(() => {
+        // Both views cover the genes that were tested
+        const genes = Object.keys(transforms.normalized);
+        return getCountDistributions(boxCounts === 'normalized' ? transforms.normalized : countMatrix, genes, samples);
+    }, [boxCounts, countMatrix, samples, transforms]);
+
+    const downloadFrom = (ref: React.RefObject<HTMLDivElement>, name: string) => {
+        const svg = ref.current?.querySelector('svg');
+        if (svg) downloadPlotPng(svg, `sample_qc_${name}`);
+    };
+    const pcCount = qc?.varianceExplained.length ?? 2;
+
+    return (
+        <>
+            <AnalysisResultContainer title="Sample PCA" onDownload={() => downloadFrom(pcaRef, 'pca')} downloadLabel="Download PNG">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+                    <div>
+                        <label htmlFor="qc-pc-x" className="block text-xs font-medium text-gray-400">X axis</label>
+                        <select id="qc-pc-x" value={pcX} onChange={e => setPcX(Number(e.target.value))} className={selectClassName}>
+                            {Array.from({ length: pcCount }, (_, i) => <option key={i} value={i}>PC{i + 1}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="qc-pc-y" className="block text-xs font-medium text-gray-400">Y axis</label>
+                        <select id="qc-pc-y" value={pcY} onChange={e => setPcY(Number(e.target.value))} className={selectClassName}>
+                            {Array.from({ length: pcCount }, (_, i) => <option key={i} value={i}>PC{i + 1}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="qc-color" className="block text-xs font-medium text-gray-400">Color by</label>
+                        <select id="qc-color" value={colorBy} onChange={e => setColorBy(e.target.value)} className={selectClassName}>
+                            {groupingColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="qc-shape" className="block text-xs font-medium text-gray-400">Shape by</label>
+                        <select id="qc-shape" value={shapeBy} onChange={e => setShapeBy(e.target.value)} className={selectClassName}>
+                            <option value="">None</option>
+                            {groupingColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="qc-ntop" className="block text-xs font-medium text-gray-400">Most variable genes</label>
+                        <select id="qc-ntop" value={ntop} onChange={e => setNtop(Number(e.target.value))} className={selectClassName}>
+                            {[500, 1000, 2000, 5000].map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                        </select>
+                    </div>
+                </div>
+                {pairingColumn && (
+                    <label className="flex items-center text-sm text-gray-400 mb-4">
+                        <input type="checkbox" checked={removeBlock} onChange={e => setRemoveBlock(e.target.checked)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                        Remove the {pairingColumn} effect before the PCA and distances, as the paired model does
+                    </label>
+                )}
+                {isLoading && <LoadingSpinner message="Running sample PCA..." />}
+                {error && <p className="text-red-400">{error}</p>}
+                {qc && !isLoading && (
+                    <>
+                        <div ref={pcaRef}>
+                            <PcaPlot
+                                qc={qc}
+                                pcX={Math.min(pcX, pcCount - 1)}
+                                pcY={Math.min(pcY, pcCount - 1)}
+                                colorGroups={colorGroups}
+                                groupColors={groupColors}
+                                shapeGroups={shapeBy ? getSampleGroups(sampleMetadata, samples, shapeBy) : null}
+                                subjects={subjects}
+                            />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">VST values of the {qc.ntop.toLocaleString()} most variable genes{qc.removedBlock && `, after removing the ${qc.removedBlock} effect`}.{subjects && ' Lines join samples of the same subject.'}</p>
+                    </>
+                )}
+            </AnalysisResultContainer>
+
+            <AnalysisResultContainer title="Sample Distances" onDownload={() => downloadFrom(distanceRef, `${distance}_distances`)} downloadLabel="Download PNG">
+                <div className="mb-4 max-w-xs">
+                    <label htmlFor="qc-distance" className="block text-xs font-medium text-gray-400">Distance</label>
+                    <select id="qc-distance" value={distance} onChange={e => setDistance(e.target.value as SampleDistanceMethod)} className={selectClassName}>
+                        <option value="euclidean">Euclidean</option>
+                        <option value="correlation">Correlation (1 - Pearson r)</option>
+                    </select>
+                </div>
+                {qc && !isLoading && (
+                    <div ref={distanceRef}>
+                        <SampleDistanceHeatmap qc={qc} annotations={annotations} />
+                    </div>
+                )}
+            </AnalysisResultContainer>
+
+            <AnalysisResultContainer title="Library Sizes" onDownload={() => downloadFrom(librarySizeRef, 'library_sizes')} downloadLabel="Download PNG">
+                <div ref={librarySizeRef}>
+                    <LibrarySizeChart sizes={librarySizes} colors={sampleColors} />
+                </div>
+            </AnalysisResultContainer>
+
+            <AnalysisResultContainer title="Count Distributions" onDownload={() => downloadFrom(boxPlotRef, `${boxCounts}_count_boxplots`)} downloadLabel="Download PNG">
+                <div className="mb-4 max-w-xs">
+                    <label htmlFor="qc-box-counts" className="block text-xs font-medium text-gray-400">Counts</label>
+                    <select id="qc-box-counts" value={boxCounts} onChange={e => setBoxCounts(e.target.value as 'normalized' | 'raw')} className={selectClassName}>
+                        <option value="normalized">Normalized (size factors applied)</option>
+                        <option value="raw">Raw</option>
+                    </select>
+                </div>
+                <div ref={boxPlotRef}>
+                    <CountBoxPlot stats={boxStats} colors={sampleColors} yLabel={`log2(${boxCounts} count + 1)`} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">After normalization the medians should line up; a sample that stays apart may have failed library preparation.</p>
+            </AnalysisResultContainer>
+        </>
+    );
+};
+
+export default SampleQcView;
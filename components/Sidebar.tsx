@@ -1,14 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
 import DataUpload from './DataUpload';
-import type { AnalysisType, GeneIdentifierType, GseaDatabase } from '../types';
+import ValidationReport from './ValidationReport';
+import IdMappingSummary from './IdMappingSummary';
+import SampleManager from './SampleManager';
+import ContrastBuilder, { type SavedContrast } from './ContrastBuilder';
+import type { GeneIdentifierType, GseaDatabase, CovariateColumn, CovariateType, DesignTerm, CountImportSummary, CountFileFormat, StarStrandedness, ValidationIssue, ValidationFix, IdConversionProviderType, IdMappingOptions, IdMappingRecord, CollapseStrategy, Organism, PrefilterParams, PrefilterRule, CountMatrix, SampleMetadata, SampleEdits, PseudobulkGrouping, LfcShrinkType, LfcMode, DeEngine, LrtSpec, ConditionContrast, PairingReport } from '../types';
+import { ORGANISMS } from '../utils/organisms';
+import { formatDesignFormula, formatReducedFormula } from '../utils/design';
+import { ENGINE_LABELS } from '../utils/results';
+import { allPairwiseContrasts, pairwiseContrast } from '../utils/contrasts';
+import { describeDroppedSample } from '../utils/pairing';
 
 interface SidebarProps {
-  onCountMatrixUpload: (file: File) => void;
+  onCountMatrixUpload: (files: File[]) => void;
   onMetadataUpload: (file: File) => void;
-  onRunPrimaryAnalysis: (comparisons: {A: string, B: string}[]) => void;
+  onRunPrimaryAnalysis: (contrasts: ConditionContrast[], design: DesignTerm[], lrt?: LrtSpec) => void;
   // FIX: Corrected the type for `onRunSubsequentAnalysis` to be a specific union type, resolving a TypeScript error.
-  onRunSubsequentAnalysis: (analysisType: 'summary' | 'volcano' | 'ma_plot' | 'heatmap') => void;
+  onRunSubsequentAnalysis: (analysisType: 'summary' | 'volcano' | 'ma_plot' | 'heatmap' | 'concordance' | 'qc' | 'diagnostics') => void;
   onRunGsea: (database: GseaDatabase) => void;
   isDataLoaded: boolean;
   isDegComplete: boolean;
@@ -17,14 +26,80 @@ interface SidebarProps {
   metadataFileName: string;
   onClearData: () => void;
   onClearMetadata: () => void;
+  countMatrix: CountMatrix | null;
+  sampleMetadata: SampleMetadata | null;
+  sampleEdits: SampleEdits;
+  onSampleEditsChange: (edits: SampleEdits) => void;
   conditions: string[];
+  covariateColumns: CovariateColumn[];
   geneIdType: GeneIdentifierType;
   originalGeneIdType: GeneIdentifierType;
+  importSummary: CountImportSummary | null;
+  idMappingRecords: IdMappingRecord[] | null;
+  idMappingOptions: IdMappingOptions;
+  onIdMappingOptionsChange: (options: IdMappingOptions) => void;
+  validationIssues: ValidationIssue[];
+  onApplyValidationFix: (fix: ValidationFix) => void;
+  starStrandedness: StarStrandedness;
+  onStarStrandednessChange: (value: StarStrandedness) => void;
+  tx2geneFileName: string;
+  onTx2GeneUpload: (file: File) => void;
+  onClearTx2Gene: () => void;
+  cellAssignmentsFileName: string;
+  onCellAssignmentsUpload: (file: File) => void;
+  onClearCellAssignments: () => void;
+  pseudobulkGrouping: PseudobulkGrouping;
+  onPseudobulkGroupingChange: (grouping: PseudobulkGrouping) => void;
+  organism: Organism;
+  onOrganismChange: (value: Organism) => void;
+  idProviderType: IdConversionProviderType;
+  onIdProviderTypeChange: (value: IdConversionProviderType) => void;
+  annotationFileName: string;
+  onAnnotationUpload: (file: File) => void;
+  onClearAnnotation: () => void;
   pValueThreshold: number;
   onPValueThresholdChange: (value: number) => void;
+  pairingColumn: string | null;
+  onPairingColumnChange: (column: string | null) => void;
+  pairingReport: PairingReport | null;
+  deEngines: DeEngine[];
+  onDeEnginesChange: (engines: DeEngine[]) => void;
+  canCompareEngines: boolean; // whether the current contrast was run with more than one engine
+  hasCountTransforms: boolean; // normalized and VST matrices are available for sample QC
+  countTransformsError: string | null; // why they could not be computed for the last run
+  lfcShrinkType: LfcShrinkType;
+  onLfcShrinkTypeChange: (type: LfcShrinkType) => void;
+  lfcMode: LfcMode;
+  onLfcModeChange: (mode: LfcMode) => void;
+  hasShrunkenLfc: boolean; // whether the current results include shrunken fold changes
+  prefilterParams: PrefilterParams;
+  onPrefilterParamsChange: (params: PrefilterParams) => void;
+  prefilterPreview: { genesBefore: number; genesAfter: number } | null;
 }
 
-type ComparisonMode = 'pairwise' | 'one_vs_rest';
+type ComparisonMode = 'pairwise' | 'one_vs_rest' | 'all_pairwise' | 'custom' | 'lrt';
+
+const COMPARISON_MODE_LABELS: { [key in ComparisonMode]: string } = {
+    pairwise: 'Pairwise',
+    one_vs_rest: 'One vs. all others',
+    all_pairwise: 'All pairwise',
+    custom: 'Custom contrasts',
+    lrt: 'LRT (any change)',
+};
+
+// Modes that only make sense with more than two conditions
+const MULTI_GROUP_MODES: ComparisonMode[] = ['one_vs_rest', 'all_pairwise'];
+
+const FORMAT_LABELS: { [key in CountFileFormat]: string } = {
+    matrix: 'Count matrix',
+    excel: 'Excel workbook',
+    featureCounts: 'featureCounts',
+    htseq: 'HTSeq-count',
+    star: 'STAR ReadsPerGene',
+    salmon: 'Salmon',
+    kallisto: 'kallisto',
+    mtx: '10x pseudobulk',
+};
 
 const AnalysisButton: React.FC<{
     onClick: () => void,
@@ -42,11 +117,38 @@ const AnalysisButton: React.FC<{
     </button>
 );
 
+const NumberField: React.FC<{
+    id: string,
+    label: string,
+    value: number,
+    step?: number,
+    onChange: (value: number) => void
+}> = ({ id, label, value, step = 1, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs font-medium text-gray-400">{label}</label>
+        <input
+            id={id}
+            type="number"
+            min="0"
+            step={step}
+            value={value}
+            onChange={e => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed) && parsed >= 0) onChange(parsed);
+            }}
+            className="mt-1 block w-full px-2 py-1 text-sm bg-gray-900 border border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white"
+        />
+    </div>
+);
+
 const Sidebar: React.FC<SidebarProps> = (props) => {
-  const { onRunSubsequentAnalysis, onRunGsea, isDegComplete, isLoading, conditions, originalGeneIdType, geneIdType } = props;
+  const { onRunSubsequentAnalysis, onRunGsea, isDegComplete, isLoading, conditions, covariateColumns, originalGeneIdType, geneIdType, importSummary, validationIssues } = props;
   const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('pairwise');
   const [conditionA, setConditionA] = useState<string>(''); // Baseline
   const [conditionB, setConditionB] = useState<string>(''); // Comparison
+  const [designTerms, setDesignTerms] = useState<DesignTerm[]>([]);
+  const [lrtDroppedTerms, setLrtDroppedTerms] = useState<string[]>(['condition']);
+  const [customContrasts, setCustomContrasts] = useState<SavedContrast[]>([]);
 
   useEffect(() => {
     if (conditions.length >= 1) {
@@ -61,31 +163,92 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     }
   }, [conditions]);
   
+  useEffect(() => {
+    // Drop terms whose column no longer exists after a new metadata upload
+    setDesignTerms(prev => prev.filter(t => covariateColumns.some(c => c.name === t.name && !c.hasMissing)));
+  }, [covariateColumns]);
+
+  const { pairingColumn, pairingReport } = props;
+  // The subject is fitted first when samples are paired, as in ~ subject + condition
+  const fullDesignTerms: DesignTerm[] = pairingColumn
+    ? [{ name: pairingColumn, type: 'categorical' }, ...designTerms.filter(t => t.name !== pairingColumn)]
+    : designTerms;
+
+  useEffect(() => {
+    // The pairing column, and covariates that never vary within a subject, are absorbed by the subject term
+    const absorbed = pairingColumn ? [pairingColumn, ...(pairingReport?.nestedColumns ?? [])] : [];
+    setDesignTerms(prev => prev.some(t => absorbed.includes(t.name)) ? prev.filter(t => !absorbed.includes(t.name)) : prev);
+  }, [pairingColumn, pairingReport]);
+
+  useEffect(() => {
+    // The LRT can only drop terms that are in the full design
+    setLrtDroppedTerms(prev => prev.filter(name => name === 'condition' || name === pairingColumn || designTerms.some(t => t.name === name)));
+  }, [designTerms, pairingColumn]);
+
+  const toggleLrtDroppedTerm = (name: string) => {
+    setLrtDroppedTerms(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const toggleDesignTerm = (column: CovariateColumn) => {
+    setDesignTerms(prev => prev.some(t => t.name === column.name)
+        ? prev.filter(t => t.name !== column.name)
+        : [...prev, { name: column.name, type: column.type }]);
+  };
+
+  const setDesignTermType = (name: string, type: CovariateType) => {
+    setDesignTerms(prev => prev.map(t => t.name === name ? { ...t, type } : t));
+  };
+
+  const { deEngines, onDeEnginesChange } = props;
+  const toggleEngine = (engine: DeEngine) => {
+    // Keep the canonical order so results are always listed the same way
+    const next = deEngines.includes(engine) ? deEngines.filter(e => e !== engine) : [...deEngines, engine];
+    onDeEnginesChange((Object.keys(ENGINE_LABELS) as DeEngine[]).filter(e => next.includes(e)));
+  };
+
+  const { prefilterParams, onPrefilterParamsChange } = props;
+  const setPrefilterParam = <K extends keyof PrefilterParams>(key: K, value: PrefilterParams[K]) => {
+    onPrefilterParamsChange({ ...prefilterParams, [key]: value });
+  };
+  
    useEffect(() => {
-    // If only 2 conditions, force pairwise
+    // If only 2 conditions, one-vs-all and all-pairwise are the same as pairwise
     if (conditions.length <= 2) {
-      setComparisonMode('pairwise');
+      setComparisonMode(prev => MULTI_GROUP_MODES.includes(prev) ? 'pairwise' : prev);
     }
+    // Forget custom contrasts that weight a condition which is gone
+    setCustomContrasts(prev => prev.filter(c => Object.keys(c.weights).every(condition => conditions.includes(condition))));
   }, [conditions]);
 
   const handleRunPrimaryAnalysis = () => {
-    if (comparisonMode === 'pairwise') {
-        if(conditionA && conditionB && conditionA !== conditionB) {
-            props.onRunPrimaryAnalysis([{ A: conditionA, B: conditionB }]);
-        }
-    } else { // one_vs_rest
-        if(conditionA) {
-            const comparisons = conditions
-                .filter(c => c !== conditionA)
-                .map(c => ({ A: conditionA, B: c }));
-            if (comparisons.length > 0) {
-                 props.onRunPrimaryAnalysis(comparisons);
-            }
+    if (!conditionA) return;
+    if (comparisonMode === 'lrt') {
+        if (lrtDroppedTerms.length > 0) {
+            props.onRunPrimaryAnalysis([], designTerms, { baseline: conditionA, droppedTerms: lrtDroppedTerms });
         }
+        return;
+    }
+
+    let contrasts: ConditionContrast[] = [];
+    if (comparisonMode === 'pairwise') {
+        if (conditionB && conditionA !== conditionB) contrasts = [pairwiseContrast(conditionA, conditionB)];
+    } else if (comparisonMode === 'one_vs_rest') {
+        contrasts = conditions.filter(c => c !== conditionA).map(c => pairwiseContrast(conditionA, c));
+    } else if (comparisonMode === 'all_pairwise') {
+        contrasts = allPairwiseContrasts(conditions);
+    } else { // custom
+        // Any reference level gives the same contrast; the baseline lets the fit be shared
+        contrasts = customContrasts.map(c => ({ ...c, kind: 'custom', baseline: conditionA }));
+    }
+    if (contrasts.length > 0) {
+        props.onRunPrimaryAnalysis(contrasts, designTerms);
     }
   };
 
-  const isPrimaryAnalysisDisabled = !props.isDataLoaded || isLoading || !conditionA || (comparisonMode === 'pairwise' && (!conditionB || conditionA === conditionB));
+  const hasBlockingIssues = validationIssues.some(issue => issue.severity === 'blocking');
+  const isPrimaryAnalysisDisabled = !props.isDataLoaded || isLoading || hasBlockingIssues || !conditionA || (comparisonMode === 'pairwise' && (!conditionB || conditionA === conditionB))
+    || (comparisonMode === 'custom' && customContrasts.length === 0)
+    || (comparisonMode === 'lrt' ? lrtDroppedTerms.length === 0 : deEngines.length === 0);
   const isSubsequentAnalysisDisabled = !isDegComplete || isLoading;
 
   const renderGeneIdMessage = () => {
@@ -103,19 +266,106 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
     )
   }
 
+  const renderImportSummary = () => {
+    if (!props.dataFileName || !importSummary) return null;
+
+    return (
+        <div className="text-xs text-gray-400 bg-gray-800 py-2 px-3 rounded-md space-y-1">
+            <p>
+                <span className="font-semibold text-cyan-400">{FORMAT_LABELS[importSummary.format]}</span>
+                {' '}&middot; {importSummary.sampleCount} samples &middot; {importSummary.geneCount.toLocaleString()} genes
+            </p>
+            {importSummary.notes.map(note => <p key={note}>{note}</p>)}
+            {importSummary.warnings?.map(warning => <p key={warning} className="text-yellow-400 break-words">{warning}</p>)}
+        </div>
+    );
+  }
+
   return (
     <aside className="w-96 bg-gray-900/80 backdrop-blur-md border-r border-gray-700/50 p-6 flex flex-col space-y-6 overflow-y-auto">
       <div>
         <h2 className="text-lg font-semibold text-cyan-400 mb-3">1. Load Data</h2>
         <div className="space-y-4">
+            <div>
+                <label htmlFor="organism" className="text-sm font-medium text-gray-400 mb-2 block">Organism</label>
+                <select id="organism" value={props.organism} onChange={e => props.onOrganismChange(e.target.value as Organism)} className="block w-full pl-3 pr-10 py-2 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                    {(Object.keys(ORGANISMS) as Organism[]).map(o => <option key={o} value={o}>{ORGANISMS[o].label}</option>)}
+                </select>
+            </div>
+            <details className="text-sm">
+                <summary className="text-gray-400 cursor-pointer">Import Options</summary>
+                <div className="mt-2 space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+                    <div>
+                        <label htmlFor="star-strandedness" className="block text-xs font-medium text-gray-400">STAR Strandedness</label>
+                        <select id="star-strandedness" value={props.starStrandedness} onChange={e => props.onStarStrandednessChange(e.target.value as StarStrandedness)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                            <option value="auto">Auto-detect</option>
+                            <option value="unstranded">Unstranded (column 2)</option>
+                            <option value="forward">Forward (column 3)</option>
+                            <option value="reverse">Reverse (column 4)</option>
+                        </select>
+                    </div>
+                    <DataUpload
+                        onFileUpload={props.onTx2GeneUpload}
+                        fileName={props.tx2geneFileName}
+                        onClearData={props.onClearTx2Gene}
+                        label="tx2gene Table (Salmon/kallisto)"
+                        accept=".csv,.tsv,.txt,.gz"
+                    />
+                    <DataUpload
+                        onFileUpload={props.onCellAssignmentsUpload}
+                        fileName={props.cellAssignmentsFileName}
+                        onClearData={props.onClearCellAssignments}
+                        label="Cell Assignments (10x: barcode, sample, cell type)"
+                        accept=".csv,.tsv,.txt,.gz"
+                    />
+                    <div>
+                        <label htmlFor="pseudobulk-grouping" className="block text-xs font-medium text-gray-400">10x Pseudobulk Samples</label>
+                        <select id="pseudobulk-grouping" value={props.pseudobulkGrouping} onChange={e => props.onPseudobulkGroupingChange(e.target.value as PseudobulkGrouping)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                            <option value="sample">Sum cells per sample</option>
+                            <option value="sample_cell_type">Sum cells per sample x cell type</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="id-provider" className="block text-xs font-medium text-gray-400">Gene ID Conversion</label>
+                        <select id="id-provider" value={props.idProviderType} onChange={e => props.onIdProviderTypeChange(e.target.value as IdConversionProviderType)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                            <option value="mygene">MyGene.info (online)</option>
+                            <option value="local">Local annotation file (offline)</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="collapse-strategy" className="block text-xs font-medium text-gray-400">IDs Sharing a Symbol</label>
+                        <select id="collapse-strategy" value={props.idMappingOptions.collapseStrategy} onChange={e => props.onIdMappingOptionsChange({ ...props.idMappingOptions, collapseStrategy: e.target.value as CollapseStrategy })} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                            <option value="sum">Sum their counts</option>
+                            <option value="max">Keep the most highly expressed ID</option>
+                            <option value="suffix">Keep all, with suffixes (.1, .2, ...)</option>
+                        </select>
+                    </div>
+                    <label className="flex items-center text-xs text-gray-400">
+                        <input type="checkbox" checked={props.idMappingOptions.keepUnmapped} onChange={e => props.onIdMappingOptionsChange({ ...props.idMappingOptions, keepUnmapped: e.target.checked })} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                        Keep unmapped genes under their original ID
+                    </label>
+                    {props.idProviderType === 'local' && (
+                        <DataUpload
+                            onFileUpload={props.onAnnotationUpload}
+                            fileName={props.annotationFileName}
+                            onClearData={props.onClearAnnotation}
+                            label="Annotation (GTF, GFF3 or ID/symbol table)"
+                            accept=".gtf,.gff,.gff3,.csv,.tsv,.txt,.gz"
+                        />
+                    )}
+                </div>
+            </details>
             <DataUpload 
-                onFileUpload={props.onCountMatrixUpload} 
+                onFilesUpload={props.onCountMatrixUpload} 
+                multiple
                 fileName={props.dataFileName} 
                 onClearData={props.onClearData}
-                label="Count Matrix"
-                accept=".csv,.tsv,.txt"
+                label="Count Data"
+                accept=".csv,.tsv,.txt,.tab,.counts,.sf,.mtx,.gz,.xlsx,.xls"
             />
+            {renderImportSummary()}
             {renderGeneIdMessage()}
+            {props.dataFileName && props.idMappingRecords && <IdMappingSummary records={props.idMappingRecords} />}
             <DataUpload
                 onFileUpload={props.onMetadataUpload}
                 fileName={props.metadataFileName}
@@ -123,21 +373,47 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 label="Sample Metadata"
                 accept=".csv,.tsv,.txt,.xlsx,.xls"
             />
+            {props.countMatrix && props.sampleMetadata && (
+                <SampleManager
+                    countMatrix={props.countMatrix}
+                    sampleMetadata={props.sampleMetadata}
+                    edits={props.sampleEdits}
+                    onEditsChange={props.onSampleEditsChange}
+                    disabled={isLoading}
+                />
+            )}
         </div>
       </div>
        <div>
         <h2 className="text-lg font-semibold text-cyan-400 mb-3">2. Configure & Run</h2>
         <div className="space-y-4 bg-gray-800/50 p-4 rounded-lg border border-gray-700">
-            {conditions.length > 2 && (
-                 <div>
-                    <label className="text-sm font-medium text-gray-300">Comparison Mode</label>
-                    <div className="flex items-center space-x-4 mt-2">
-                        <label className="flex items-center text-sm text-gray-400"><input type="radio" name="comp-mode" value="pairwise" checked={comparisonMode === 'pairwise'} onChange={() => setComparisonMode('pairwise')} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500"/>Pairwise</label>
-                        <label className="flex items-center text-sm text-gray-400"><input type="radio" name="comp-mode" value="one_vs_rest" checked={comparisonMode === 'one_vs_rest'} onChange={() => setComparisonMode('one_vs_rest')} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500"/>One vs. All</label>
+            {props.isDataLoaded && (
+                <div>
+                    <label className="text-sm font-medium text-gray-300">Data Checks</label>
+                    <div className="mt-2">
+                        <ValidationReport issues={validationIssues} onApplyFix={props.onApplyValidationFix} disabled={isLoading} />
                     </div>
                 </div>
             )}
+
+            {conditions.length >= 2 && (
+                 <div>
+                    <label htmlFor="comparison-mode" className="text-sm font-medium text-gray-300">Comparison Mode</label>
+                    <select id="comparison-mode" value={comparisonMode} onChange={e => setComparisonMode(e.target.value as ComparisonMode)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                        {(Object.keys(COMPARISON_MODE_LABELS) as ComparisonMode[])
+                            .filter(mode => conditions.length > 2 || !MULTI_GROUP_MODES.includes(mode))
+                            .map(mode => <option key={mode} value={mode}>{COMPARISON_MODE_LABELS[mode]}</option>)}
+                    </select>
+                    {comparisonMode === 'all_pairwise' && (
+                        <p className="text-xs text-gray-400 mt-2">Tests all {conditions.length * (conditions.length - 1) / 2} pairs of conditions.</p>
+                    )}
+                    {comparisonMode === 'lrt' && (
+                        <p className="text-xs text-gray-400 mt-2">Tests whether genes change at all across the dropped terms (e.g. any time point or dose). Runs with DESeq2; fold changes are relative to the baseline.</p>
+                    )}
+                </div>
+            )}
            
+            {comparisonMode !== 'all_pairwise' && (
             <div className="grid grid-cols-2 gap-3">
                  <div>
                     <label htmlFor="conditionA" className="block text-xs font-medium text-gray-400">Baseline (Control)</label>
@@ -154,6 +430,141 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 </div>
                 )}
             </div>
+            )}
+
+            {comparisonMode === 'custom' && (
+                <div>
+                    <label className="text-sm font-medium text-gray-300">Custom Contrasts</label>
+                    <div className="mt-2">
+                        <ContrastBuilder conditions={conditions} contrasts={customContrasts} onContrastsChange={setCustomContrasts} disabled={isLoading} />
+                    </div>
+                </div>
+            )}
+
+            {covariateColumns.length > 0 && (
+                <div>
+                    <label htmlFor="pairing-column" className="text-sm font-medium text-gray-300">Pairing / Blocking</label>
+                    <select id="pairing-column" value={pairingColumn ?? ''} onChange={e => props.onPairingColumnChange(e.target.value || null)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                        <option value="">None (unpaired samples)</option>
+                        {covariateColumns.map(c => <option key={c.name} value={c.name}>Paired by {c.name}</option>)}
+                    </select>
+                    {pairingReport && (
+                        <div className="text-xs mt-2 space-y-1">
+                            <p className="text-gray-400">{pairingReport.subjects} {pairingReport.column} values have samples under more than one condition.</p>
+                            {pairingReport.droppedSamples.length > 0 && (
+                                <p className="text-yellow-400 break-words">
+                                    {pairingReport.droppedSamples.length} sample{pairingReport.droppedSamples.length === 1 ? ' has' : 's have'} no partner and will be left out: {pairingReport.droppedSamples.map(describeDroppedSample).join(', ')}
+                                </p>
+                            )}
+                            {pairingReport.nestedColumns.length > 0 && (
+                                <p className="text-gray-500">Absorbed by the pairing: {pairingReport.nestedColumns.join(', ')}</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {covariateColumns.length > 0 && (
+                <div>
+                    <label className="text-sm font-medium text-gray-300">Design Covariates</label>
+                    <div className="mt-2 space-y-2">
+                        {covariateColumns.map(column => {
+                            const term = designTerms.find(t => t.name === column.name);
+                            const absorbed = column.name === pairingColumn || !!pairingReport?.nestedColumns.includes(column.name);
+                            const unavailableReason = column.hasMissing ? 'Some samples have no value for this column.'
+                                : absorbed ? 'Already accounted for by the pairing.' : undefined;
+                            return (
+                                <div key={column.name} className="flex items-center justify-between">
+                                    <label className={`flex items-center text-sm ${unavailableReason ? 'text-gray-600' : 'text-gray-400'}`} title={unavailableReason}>
+                                        <input type="checkbox" checked={!!term} disabled={!!unavailableReason} onChange={() => toggleDesignTerm(column)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                                        {column.name}
+                                    </label>
+                                    {term && column.type === 'numeric' && (
+                                        <select value={term.type} onChange={e => setDesignTermType(column.name, e.target.value as CovariateType)} className="pl-2 pr-8 py-1 text-xs bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                                            <option value="numeric">Numeric</option>
+                                            <option value="categorical">Factor</option>
+                                        </select>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-2">Design: <code className="text-cyan-400">{formatDesignFormula(fullDesignTerms)}</code></p>
+                </div>
+            )}
+
+            {comparisonMode === 'lrt' && (
+                <div>
+                    <label className="text-sm font-medium text-gray-300">Terms Tested by the LRT</label>
+                    <div className="mt-2 space-y-1">
+                        {[...fullDesignTerms.map(t => t.name), 'condition'].map(name => (
+                            <label key={name} className="flex items-center text-sm text-gray-400">
+                                <input type="checkbox" checked={lrtDroppedTerms.includes(name)} onChange={() => toggleLrtDroppedTerm(name)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                                {name}
+                            </label>
+                        ))}
+                    </div>
+                    {lrtDroppedTerms.length === 0 ? (
+                        <p className="text-xs text-red-400 mt-2">Select at least one term to test.</p>
+                    ) : (
+                        <p className="text-xs text-gray-400 mt-2">Full: <code className="text-cyan-400">{formatDesignFormula(fullDesignTerms)}</code> vs. reduced: <code className="text-cyan-400">{formatReducedFormula(fullDesignTerms, lrtDroppedTerms)}</code></p>
+                    )}
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="prefilter-rule" className="text-sm font-medium text-gray-300">Low-Count Filter</label>
+                <select id="prefilter-rule" value={prefilterParams.rule} onChange={e => setPrefilterParam('rule', e.target.value as PrefilterRule)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white">
+                    <option value="filter_by_expr">edgeR filterByExpr</option>
+                    <option value="min_count">Minimum count in N samples</option>
+                    <option value="min_cpm">Minimum CPM in smallest group</option>
+                    <option value="none">No filtering</option>
+                </select>
+                <div className="grid grid-cols-2 gap-3 mt-2">
+                    {(prefilterParams.rule === 'min_count' || prefilterParams.rule === 'filter_by_expr') && (
+                        <NumberField id="prefilter-min-count" label="Min. count" value={prefilterParams.minCount} onChange={v => setPrefilterParam('minCount', v)} />
+                    )}
+                    {prefilterParams.rule === 'min_count' && (
+                        <NumberField id="prefilter-min-samples" label="In at least N samples" value={prefilterParams.minSamples} onChange={v => setPrefilterParam('minSamples', v)} />
+                    )}
+                    {prefilterParams.rule === 'min_cpm' && (
+                        <NumberField id="prefilter-min-cpm" label="Min. CPM" value={prefilterParams.minCpm} step={0.1} onChange={v => setPrefilterParam('minCpm', v)} />
+                    )}
+                    {prefilterParams.rule === 'filter_by_expr' && (
+                        <NumberField id="prefilter-min-total" label="Min. total count" value={prefilterParams.minTotalCount} onChange={v => setPrefilterParam('minTotalCount', v)} />
+                    )}
+                </div>
+                {props.prefilterPreview && (
+                    <p className="text-xs text-gray-400 mt-2">
+                        {props.prefilterPreview.genesAfter.toLocaleString()} of {props.prefilterPreview.genesBefore.toLocaleString()} genes will be tested.
+                    </p>
+                )}
+            </div>
+
+            <div>
+                <label className="text-sm font-medium text-gray-300">Methods</label>
+                <div className="mt-2 space-y-1">
+                    {(Object.keys(ENGINE_LABELS) as DeEngine[]).map(engine => (
+                        <label key={engine} className="flex items-center text-sm text-gray-400">
+                            <input type="checkbox" checked={deEngines.includes(engine)} disabled={comparisonMode === 'lrt'} onChange={() => toggleEngine(engine)} className="mr-2 bg-gray-700 text-cyan-500 focus:ring-cyan-500 rounded"/>
+                            {ENGINE_LABELS[engine]}
+                        </label>
+                    ))}
+                </div>
+                {comparisonMode !== 'lrt' && deEngines.length === 0 && <p className="text-xs text-red-400 mt-1">Select at least one method.</p>}
+                {comparisonMode !== 'lrt' && deEngines.length > 1 && <p className="text-xs text-gray-400 mt-1">Each comparison is run with every selected method.</p>}
+            </div>
+
+            <div>
+                <label htmlFor="lfc-shrink" className="text-sm font-medium text-gray-300">LFC Shrinkage</label>
+                <select id="lfc-shrink" value={props.lfcShrinkType} disabled={!deEngines.includes('deseq2') || comparisonMode === 'lrt'} onChange={e => props.onLfcShrinkTypeChange(e.target.value as LfcShrinkType)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white disabled:opacity-50">
+                    <option value="none">None (raw MLE only)</option>
+                    <option value="apeglm">apeglm (recommended)</option>
+                    <option value="ashr">ashr</option>
+                    <option value="normal">normal (original DESeq2 prior)</option>
+                </select>
+                <p className="text-xs text-gray-400 mt-1">DESeq2 only. Shrunken fold changes are stored next to the raw ones; p-values are not affected.</p>
+            </div>
 
             <div>
                  <label htmlFor="pval-slider" className="block text-xs font-medium text-gray-400">Adj. P-Value Threshold: <span className="font-bold text-cyan-400">{props.pValueThreshold}</span></label>
@@ -164,12 +575,16 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 <p className="text-xs text-red-400 text-center">Baseline and Comparison conditions must be different.</p>
             )}
 
+            {hasBlockingIssues && (
+                <p className="text-xs text-red-400 text-center">Resolve the errors under Data Checks before running the analysis.</p>
+            )}
+
             <button
                 onClick={handleRunPrimaryAnalysis}
                 disabled={isPrimaryAnalysisDisabled}
                 className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors"
             >
-                Run DESeq2 Analysis
+                Run Analysis
             </button>
         </div>
       </div>
@@ -177,14 +592,29 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
 
       <div className="flex-1 space-y-4">
         <h2 className="text-lg font-semibold text-cyan-400">3. Visualize & Interpret</h2>
-        <p className={`text-sm text-gray-500 ${isDegComplete ? 'hidden' : 'block'}`}>Complete DESeq2 analysis to enable these options.</p>
+        <p className={`text-sm text-gray-500 ${isDegComplete ? 'hidden' : 'block'}`}>Complete the differential expression analysis to enable these options.</p>
+        {isDegComplete && (
+            <div>
+                <label htmlFor="lfc-mode" className="block text-xs font-medium text-gray-400">Fold Changes Used in Plots, Rankings & AI</label>
+                <select id="lfc-mode" value={props.hasShrunkenLfc ? props.lfcMode : 'raw'} disabled={!props.hasShrunkenLfc || isLoading} onChange={e => props.onLfcModeChange(e.target.value as LfcMode)} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm bg-gray-900 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 rounded-md text-white disabled:opacity-50">
+                    <option value="shrunk">Shrunken log2 fold changes</option>
+                    <option value="raw">Raw (MLE) log2 fold changes</option>
+                </select>
+            </div>
+        )}
         
         <details open className="space-y-3">
             <summary className="font-semibold text-gray-200 cursor-pointer">Overview & Plots</summary>
+            {isDegComplete && !props.hasCountTransforms && props.countTransformsError && (
+                <p className="text-xs text-yellow-400">Sample QC and the heatmap need normalized counts, which could not be computed: {props.countTransformsError}</p>
+            )}
+            <AnalysisButton onClick={() => onRunSubsequentAnalysis('qc')} disabled={isSubsequentAnalysisDisabled || !props.hasCountTransforms} title="Sample QC" description="PCA, sample distances and library sizes."/>
+            <AnalysisButton onClick={() => onRunSubsequentAnalysis('diagnostics')} disabled={isSubsequentAnalysisDisabled} title="Model Diagnostics" description="P-values, dispersions and Cook's outliers."/>
             <AnalysisButton onClick={() => onRunSubsequentAnalysis('summary')} disabled={isSubsequentAnalysisDisabled} title="AI Data Summary" description="Get a high-level overview of results."/>
             <AnalysisButton onClick={() => onRunSubsequentAnalysis('volcano')} disabled={isSubsequentAnalysisDisabled} title="Volcano Plot" description="Visualize significance vs. fold change."/>
             <AnalysisButton onClick={() => onRunSubsequentAnalysis('ma_plot')} disabled={isSubsequentAnalysisDisabled} title="MA Plot" description="Check for expression-dependent bias."/>
-            <AnalysisButton onClick={() => onRunSubsequentAnalysis('heatmap')} disabled={isSubsequentAnalysisDisabled} title="DEG Heatmap" description="Visualize top changing genes."/>
+            <AnalysisButton onClick={() => onRunSubsequentAnalysis('heatmap')} disabled={isSubsequentAnalysisDisabled || !props.hasCountTransforms} title="DEG Heatmap" description="Expression of top genes across samples."/>
+            <AnalysisButton onClick={() => onRunSubsequentAnalysis('concordance')} disabled={isSubsequentAnalysisDisabled || !props.canCompareEngines} title="Method Concordance" description="Compare DEG calls across methods for this comparison."/>
         </details>
 
          <details open className="space-y-3">
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { ValidationFix, ValidationIssue } from '../types';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  onApplyFix: (fix: ValidationFix) => void;
+  disabled: boolean;
+}
+
+// Number of offending items listed before the rest are summarized.
+const MAX_LISTED_ITEMS = 5;
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ issues, onApplyFix, disabled }) => {
+  if (issues.length === 0) {
+    return <p className="text-xs text-center text-green-400 bg-gray-800 py-1 rounded-md">All data checks passed.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {issues.map(issue => {
+        const isBlocking = issue.severity === 'blocking';
+        const listed = issue.items.slice(0, MAX_LISTED_ITEMS);
+        const remaining = issue.items.length - listed.length;
+        return (
+          <div
+            key={issue.id}
+            className={`text-xs p-2 rounded-md border ${isBlocking ? 'bg-red-900/30 border-red-700 text-red-300' : 'bg-yellow-900/20 border-yellow-700 text-yellow-300'}`}
+          >
+            <p className="font-semibold">{isBlocking ? 'Error' : 'Warning'}: {issue.title}</p>
+            {listed.length > 0 && (
+              <p className="text-gray-400 mt-1 break-words">
+                {listed.join(', ')}{remaining > 0 && ` and ${remaining.toLocaleString()} more`}
+              </p>
+            )}
+            {issue.fixes?.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {issue.fixes.map(fix => (
+                  <button
+                    key={fix.label}
+                    onClick={() => onApplyFix(fix.action)}
+                    disabled={disabled}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-100 rounded"
+                  >
+                    {fix.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ValidationReport;
@@ -1,9 +1,12 @@
 import React from 'react';
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ZAxis, Label, Cell } from 'recharts';
-import type { GeneData } from '../types';
+import type { GeneData, LfcMode } from '../types';
+import { formatPValue, getLfc, isSignificant } from '../utils/results';
 
 interface VolcanoPlotProps {
   data: GeneData[];
+  lfcMode: LfcMode;
+  onGeneClick?: (gene: string) => void;
 }
 
 const CustomTooltip = ({ active, payload }: any) => {
@@ -13,27 +16,35 @@ const CustomTooltip = ({ active, payload }: any) => {
             <div className="bg-gray-800 text-white p-3 border border-gray-600 rounded-md shadow-lg">
                 <p className="font-bold text-cyan-400">{data.gene}</p>
                 <p>log2 Fold Change: <span className="font-semibold">{data.log2FoldChange.toFixed(3)}</span></p>
-                <p>p-value: <span className="font-semibold">{data.pvalue.toExponential(3)}</span></p>
+                {data.log2FoldChangeShrunk != null && <p>Shrunken log2 Fold Change: <span className="font-semibold">{data.log2FoldChangeShrunk.toFixed(3)}</span></p>}
+                <p>p-value: <span className="font-semibold">{formatPValue(data.pvalue, 3)}</span></p>
+                <p>padj: <span className="font-semibold">{formatPValue(data.padj, 3)}</span></p>
             </div>
         );
     }
     return null;
 };
 
-const VolcanoPlot: React.FC<VolcanoPlotProps> = ({ data }) => {
+const VolcanoPlot: React.FC<VolcanoPlotProps> = ({ data, lfcMode, onGeneClick }) => {
     const pThreshold = 0.05;
     const fcThreshold = 1.0;
 
-    const getColor = (entry: GeneData) => {
-        if (entry.pvalue < pThreshold && entry.log2FoldChange > fcThreshold) {
+    const getColor = (entry: GeneData & { lfc: number }) => {
+        if (isSignificant(entry, pThreshold) && entry.lfc > fcThreshold) {
             return '#4ade80'; // Green for up-regulated
         }
-        if (entry.pvalue < pThreshold && entry.log2FoldChange < -fcThreshold) {
+        if (isSignificant(entry, pThreshold) && entry.lfc < -fcThreshold) {
             return '#f87171'; // Red for down-regulated
         }
         return '#6b7280'; // Gray for non-significant
     };
 
+    // Genes without a p-value (all-zero counts, Cook's outliers) cannot be placed
+    const plotData = data
+        .map(d => ({ ...d, lfc: getLfc(d, lfcMode) }))
+        .filter(d => d.negLog10PValue !== null && d.lfc !== null);
+    const lfcLabel = lfcMode === 'shrunk' && data[0]?.log2FoldChangeShrunk !== undefined ? 'Shrunken log2(Fold Change)' : 'log2(Fold Change)';
+
   return (
     <div style={{ width: '100%', height: 500 }}>
       <ResponsiveContainer>
@@ -41,13 +52,13 @@ const VolcanoPlot: React.FC<VolcanoPlotProps> = ({ data }) => {
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
           <XAxis 
             type="number" 
-            dataKey="log2FoldChange" 
-            name="log2 Fold Change"
+            dataKey="lfc" 
+            name={lfcLabel}
             domain={['dataMin', 'dataMax']}
             tick={{ fill: '#9ca3af' }}
             stroke="#6b7280"
           >
-             <Label value="log2(Fold Change)" offset={-25} position="insideBottom" fill="#d1d5db"/>
+             <Label value={lfcLabel} offset={-25} position="insideBottom" fill="#d1d5db"/>
           </XAxis>
           <YAxis 
             type="number" 
@@ -60,8 +71,8 @@ const VolcanoPlot: React.FC<VolcanoPlotProps> = ({ data }) => {
           </YAxis>
           <ZAxis dataKey="gene" name="gene" />
           <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3', stroke: '#4b5563' }} />
-          <Scatter name="Genes" data={data} fill="#8884d8">
-            {data.map((entry, index) => (
+          <Scatter name="Genes" data={plotData} fill="#8884d8" onClick={(point: any) => onGeneClick?.(point.gene ?? point.payload?.gene)} cursor={onGeneClick ? 'pointer' : undefined}>
+            {plotData.map((entry, index) => (
               <Cell key={`cell-${index}`} fill={getColor(entry)} />
             ))}
           </Scatter>
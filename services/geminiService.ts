@@ -1,36 +1,56 @@
 
 import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
-import type { GeneData, AnalysisType, AnalysisResult, ChatMessage } from '../types';
+import type { GeneData, AnalysisType, AnalysisResult, ChatMessage, LfcMode, ComparisonResult } from '../types';
+import { formatContrast } from '../utils/contrasts';
+import { countResultFlags, formatPValue, getLfc, getSignificantGenes, getTestLabel, ENGINE_LABELS, FC_THRESHOLD } from '../utils/results';
+
+// How a set of results was produced, for describing it in prompts.
+type DeMethod = Pick<ComparisonResult, 'engine' | 'test' | 'design' | 'reducedDesign' | 'contrastWeights' | 'pairing'>;
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
 
-const FC_THRESHOLD = 1.0;
+const describeLfc = (data: GeneData[], lfcMode: LfcMode): string =>
+    lfcMode === 'shrunk' && data[0]?.log2FoldChangeShrunk !== undefined
+        ? 'Fold changes are shrunken log2 fold changes (lfcShrink), which damp noisy estimates for low-count genes.'
+        : 'Fold changes are unshrunken maximum-likelihood log2 fold changes.';
 
-const getSignificantGenes = (data: GeneData[], pValueThreshold: number) => {
-    const up = data
-        .filter(g => g.pvalue < pValueThreshold && g.log2FoldChange > FC_THRESHOLD)
-        .sort((a, b) => b.log2FoldChange - a.log2FoldChange);
-    const down = data
-        .filter(g => g.pvalue < pValueThreshold && g.log2FoldChange < -FC_THRESHOLD)
-        .sort((a, b) => a.log2FoldChange - b.log2FoldChange);
-    return { up, down };
+// Only DESeq2 filters and flags genes itself; edgeR and limma only mark all-zero genes.
+const describeFlags = (data: GeneData[], method: DeMethod): string => {
+    if (method.engine !== 'deseq2') return '';
+    const flags = countResultFlags(data);
+    return `Of ${data.length} genes, ${flags.low_count} were removed by DESeq2's independent filtering and ${flags.outlier} were flagged as count outliers (Cook's distance), so they have no adjusted p-value.`;
 };
 
-const formatGeneListForPrompt = (genes: GeneData[], count: number = 25): string => {
+const describePairing = (method: DeMethod): string =>
+    method.pairing
+        ? ` Samples are paired by ${method.pairing.column} (${method.pairing.subjects} subjects), so each comparison is made within a subject.`
+        : '';
+
+const describeTest = (method: DeMethod): string =>
+    (method.test === 'lrt'
+        ? `P-values come from a likelihood ratio test of the full design (${method.design}) against the reduced design (${method.reducedDesign}), so they show which genes change at all across the tested terms. Each gene's fold change is its largest change among the tested coefficients.`
+        : method.contrastWeights
+            ? `The comparison is a custom contrast of condition means: ${formatContrast(method.contrastWeights)}. Positive fold changes mean the positively weighted side is higher.`
+            : '') + describePairing(method);
+
+const formatGeneListForPrompt = (genes: GeneData[], lfcMode: LfcMode, count: number = 25): string => {
     if (!genes || genes.length === 0) return 'None';
-    return genes.slice(0, count).map(g => `${g.gene} (logFC: ${g.log2FoldChange.toFixed(2)}, p-value: ${g.pvalue.toExponential(2)})`).join(', ');
+    return genes.slice(0, count).map(g => `${g.gene} (logFC: ${getLfc(g, lfcMode).toFixed(2)}, padj: ${formatPValue(g.padj)}, baseMean: ${g.baseMean.toFixed(0)})`).join(', ');
 };
 
-const getInterpretationPrompt = (analysisType: AnalysisType, data: GeneData[], pValueThreshold: number): string => {
-    const significantGenes = getSignificantGenes(data, pValueThreshold);
-    const topUpGenes = formatGeneListForPrompt(significantGenes.up);
-    const topDownGenes = formatGeneListForPrompt(significantGenes.down);
+const getInterpretationPrompt = (analysisType: AnalysisType, data: GeneData[], pValueThreshold: number, lfcMode: LfcMode, method: DeMethod): string => {
+    const significantGenes = getSignificantGenes(data, pValueThreshold, lfcMode);
+    const topUpGenes = formatGeneListForPrompt(significantGenes.up, lfcMode);
+    const topDownGenes = formatGeneListForPrompt(significantGenes.down, lfcMode);
 
     switch (analysisType) {
         case 'summary':
              return `
-You are a senior bioinformatician. Based on the provided DEG results from a DESeq2 analysis, provide a high-level summary of the potential findings.
+You are a senior bioinformatician. Based on the provided DEG results from a ${ENGINE_LABELS[method.engine]} analysis, provide a high-level summary of the potential findings.
 Mention the number of significantly up-regulated (${significantGenes.up.length}) and down-regulated (${significantGenes.down.length}) genes (using adjusted p-value < ${pValueThreshold} and |log2FoldChange| > ${FC_THRESHOLD}).
+${describeFlags(data, method)}
+${describeTest(method)}
+${describeLfc(data, lfcMode)}
 Briefly mention the most significant genes by name.
 
 Top up-regulated: ${topUpGenes}
@@ -40,11 +60,13 @@ Provide your summary as a concise text.
             `;
         default:
              return `
-You are a senior bioinformatician interpreting differential gene expression data from a DESeq2 analysis.
+You are a senior bioinformatician interpreting differential gene expression data from a ${ENGINE_LABELS[method.engine]} analysis.
 The key findings are summarized by these significant genes:
 
 Most significantly up-regulated genes: ${topUpGenes}
 Most significantly down-regulated genes: ${topDownGenes}
+${describeTest(method)}
+${describeLfc(data, lfcMode)}
 
 Provide a concise, expert interpretation of these results. What might these gene changes imply biologically?
 Focus on the overall pattern and potential biological significance based on the most changed genes.
@@ -53,8 +75,8 @@ Focus on the overall pattern and potential biological significance based on the
 };
 
 
-export const getAnalysisFromGemini = async (analysisType: AnalysisType, data: GeneData[], pValueThreshold: number): Promise<AnalysisResult> => {
-    const prompt = getInterpretationPrompt(analysisType, data, pValueThreshold);
+export const getAnalysisFromGemini = async (analysisType: AnalysisType, data: GeneData[], pValueThreshold: number, lfcMode: LfcMode, method: DeMethod): Promise<AnalysisResult> => {
+    const prompt = getInterpretationPrompt(analysisType, data, pValueThreshold, lfcMode, method);
     
     try {
         const response: GenerateContentResponse = await ai.models.generateContent({
@@ -62,7 +84,7 @@ export const getAnalysisFromGemini = async (analysisType: AnalysisType, data: Ge
             contents: prompt,
         });
 
-        const significantGenes = getSignificantGenes(data, pValueThreshold);
+        const significantGenes = getSignificantGenes(data, pValueThreshold, lfcMode);
         
         return {
             type: analysisType,
@@ -80,21 +102,27 @@ export const getAnalysisFromGemini = async (analysisType: AnalysisType, data: Ge
 
 let chat: Chat | null = null;
 
-const formatGeneListForChatContext = (genes: GeneData[], count: number = 10): string => {
+const formatGeneListForChatContext = (genes: GeneData[], lfcMode: LfcMode, count: number = 10): string => {
     if (!genes || genes.length === 0) return 'None';
-    return genes.slice(0, count).map(g => `- ${g.gene} (logFC: ${g.log2FoldChange.toFixed(2)}, padj: ${g.pvalue.toExponential(2)})`).join('\n');
+    return genes.slice(0, count).map(g => {
+        const shrunk = lfcMode === 'shrunk' && g.log2FoldChangeShrunk !== undefined;
+        const lfc = shrunk ? `shrunken logFC: ${g.log2FoldChangeShrunk?.toFixed(2)}, raw logFC: ${g.log2FoldChange.toFixed(2)}` : `logFC: ${g.log2FoldChange.toFixed(2)} ± ${g.lfcSE?.toFixed(2)} SE`;
+        return `- ${g.gene} (${lfc}, p-value: ${formatPValue(g.pvalue)}, padj: ${formatPValue(g.padj)}, baseMean: ${g.baseMean.toFixed(0)})`;
+    }).join('\n');
 };
 
 export const initChat = (
     degResults: GeneData[],
     pValueThreshold: number,
+    lfcMode: LfcMode,
+    method: DeMethod,
     initialHistory: ChatMessage[] = []
 ) => {
-    const significantGenes = getSignificantGenes(degResults, pValueThreshold);
-    const topUpGenes = formatGeneListForChatContext(significantGenes.up);
-    const topDownGenes = formatGeneListForChatContext(significantGenes.down);
+    const significantGenes = getSignificantGenes(degResults, pValueThreshold, lfcMode);
+    const topUpGenes = formatGeneListForChatContext(significantGenes.up, lfcMode);
+    const topDownGenes = formatGeneListForChatContext(significantGenes.down, lfcMode);
 
-    const systemInstruction = `You are a helpful bioinformatician assistant. The user has performed a differential gene expression (DEG) analysis using DESeq2.
+    const systemInstruction = `You are a helpful bioinformatician assistant. The user has performed a differential gene expression (DEG) analysis using ${ENGINE_LABELS[method.engine]}.
     You can answer questions about the results, interpret gene functions, and perform pathway analysis (e.g., "what pathways are associated with the up-regulated genes?").
     Here is the summary of their results:
     - Significantly Up-regulated Genes: ${significantGenes.up.length}
@@ -106,7 +134,7 @@ export const initChat = (
     Top 10 Down-regulated Genes:
     ${topDownGenes}
 
-    Based on this data, answer the user's questions. Be concise and helpful. The p-values shown are adjusted p-values (padj).`;
+    Based on this data, answer the user's questions. Be concise and helpful. Significance is judged on the Benjamini-Hochberg adjusted p-value (padj); the raw ${getTestLabel(method)} p-value is shown alongside it. ${describeTest(method)} ${describeLfc(degResults, lfcMode)}`;
     
     // Convert UI message history to the format the API expects.
     const chatHistory = initialHistory.map(msg => ({
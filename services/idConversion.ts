@@ -0,0 +1,74 @@
+import type { GeneAnnotation, GeneIdentifierType, Organism } from '../types';
+import { lookupSymbol } from '../utils/annotation';
+import { ORGANISMS } from '../utils/organisms';
+
+export interface IdConversionResult {
+    // original identifier -> symbol, for every identifier that could be converted
+    map: { [key: string]: string };
+    // One message per batch that could not be converted
+    failures: string[];
+}
+
+export interface IdConversionProvider {
+    readonly label: string;
+    convert(ids: string[], inputType: GeneIdentifierType): Promise<IdConversionResult>;
+}
+
+const MYGENE_BATCH_SIZE = 1000;
+
+// Queries the MyGene.info web service. Needs internet access.
+export class MyGeneProvider implements IdConversionProvider {
+    readonly label = 'MyGene.info';
+
+    constructor(private organism: Organism) {}
+
+    async convert(ids: string[], _inputType: GeneIdentifierType): Promise<IdConversionResult> {
+        // MyGene.info is good at handling versioned Ensembl IDs, so no pre-trimming needed here.
+        const scopes = 'ensembl.gene,entrezgene,uniprot';
+        const map: { [key: string]: string } = {};
+        const failures: string[] = [];
+        const batchCount = Math.ceil(ids.length / MYGENE_BATCH_SIZE);
+
+        for (let i = 0; i < ids.length; i += MYGENE_BATCH_SIZE) {
+            const batch = ids.slice(i, i + MYGENE_BATCH_SIZE);
+            try {
+                const response = await fetch('https://mygene.info/v3/query', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                    body: `q=${batch.join(',')}&scopes=${scopes}&fields=symbol&species=${ORGANISMS[this.organism].taxonId}`,
+                });
+                if (!response.ok) {
+                    throw new Error(`request failed with status ${response.status}`);
+                }
+                const data = await response.json();
+                for (const item of data) {
+                    if (item.symbol && !item.notfound) {
+                        map[item.query] = item.symbol;
+                    }
+                }
+            } catch (error: any) {
+                const batchNumber = i / MYGENE_BATCH_SIZE + 1;
+                failures.push(`Batch ${batchNumber} of ${batchCount} (${batch.length} IDs starting at ${batch[0]}): ${error.message}`);
+            }
+        }
+        return { map, failures };
+    }
+}
+
+// Converts IDs offline from an uploaded GTF/GFF3 or two-column mapping file.
+export class LocalAnnotationProvider implements IdConversionProvider {
+    readonly label: string;
+
+    constructor(private annotation: GeneAnnotation, fileName: string) {
+        this.label = fileName;
+    }
+
+    async convert(ids: string[], _inputType: GeneIdentifierType): Promise<IdConversionResult> {
+        const map: { [key: string]: string } = {};
+        for (const id of ids) {
+            const symbol = lookupSymbol(this.annotation, id);
+            if (symbol) map[id] = symbol;
+        }
+        return { map, failures: [] };
+    }
+}
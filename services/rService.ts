@@ -1,9 +1,115 @@
 
-import type { CountMatrix, SampleMetadata, GeneData, ClusteringMethod, GseaResult, GseaDatabase } from '../types';
+import type { CountMatrix, SampleMetadata, GeneData, ClusteringMethod, GseaResult, GseaDatabase, DesignTerm, CovariateValue, Organism, LfcShrinkType, LfcMode, DeEngine, ConditionContrast, CountTransforms, SampleQc, SampleDistanceMethod, Deseq2Diagnostics, ExpressionHeatmapData, ClusteringDistance } from '../types';
+import { formatDesignFormula } from '../utils/design';
+import { ORGANISMS, type OrgDbPackage } from '../utils/organisms';
+import { getLfc } from '../utils/results';
+import { getSingleCoefficient } from '../utils/contrasts';
+import { hashStrings } from '../utils/hash';
 
-type Package = 'BiocManager' | 'DESeq2' | 'clusterProfiler' | 'org.Hs.eg.db' | 'vsn';
+type Package = 'BiocManager' | 'DESeq2' | 'apeglm' | 'ashr' | 'edgeR' | 'clusterProfiler' | OrgDbPackage;
 type PackageStatus = 'not_installed' | 'installing' | 'installed';
 
+export interface DeOptions {
+    // Gene x sample average transcript lengths from a tximport-style summary
+    averageTxLengths?: CountMatrix | null;
+}
+
+export interface Deseq2Options extends DeOptions {
+    // Shrinkage estimator for the additional shrunken log2 fold changes
+    lfcShrink?: LfcShrinkType;
+    // When set, runs a likelihood ratio test of the full design against this reduced
+    // one (e.g. "~ batch") instead of a Wald test; only the contrast's baseline is used
+    reducedDesign?: string;
+    // Reference level of the condition in the fit. Wald contrasts are numeric vectors that
+    // do not depend on it, so contrasts with different baselines can share one fit.
+    // Defaults to the contrast's baseline
+    referenceLevel?: string;
+}
+
+// Quotes a value for the CSV files handed to R's read.csv.
+const toCsvField = (value: CovariateValue | undefined): string => {
+    if (value === undefined || value === '') return 'NA';
+    if (typeof value === 'number') return String(value);
+    return `"${value.replace(/"/g, '""')}"`;
+};
+
+// Condition weights as a named R vector, e.g. c("treated" = 1, "control" = -1).
+const toRWeights = (weights: ConditionContrast['weights']): string =>
+    `c(${Object.keys(weights).map(c => `${JSON.stringify(c)} = ${weights[c]}`).join(', ')})`;
+
+// Builds `design_matrix` for edgeR and limma and turns the condition weights into
+// `contrast_vec` over its columns. The baseline is the reference level, so it has no
+// column and its weight is absorbed by the intercept.
+const DESIGN_MATRIX_R = (designFormula: string, contrast: ConditionContrast) => `
+            design_matrix <- model.matrix(${designFormula}, data = col_data)
+            contrast_weights <- ${toRWeights(contrast.weights)}
+            contrast_vec <- setNames(rep(0, ncol(design_matrix)), colnames(design_matrix))
+            for (level in setdiff(names(contrast_weights), levels(col_data$condition)[1])) {
+                column <- paste0("condition", level)
+                if (!(column %in% names(contrast_vec))) stop(paste("Condition", level, "has no coefficient in the design matrix"))
+                contrast_vec[column] <- contrast_weights[[level]]
+            }
+`;
+
+// edgeR and limma still test genes without any counts; report them like DESeq2 does.
+const FLAG_ALL_ZERO_R = `
+            all_zero <- rowSums(count_data[res$gene, , drop = FALSE]) == 0
+            res[all_zero, c("log2FoldChange", "lfcSE", "stat", "pvalue", "padj")] <- NA
+            res$flag <- ifelse(all_zero, "all_zero", NA)
+`;
+
+// Converts a results table from R to GeneData. P-values below double precision come
+// back as 0; they are plotted at the top of the observed range rather than at an
+// arbitrary height.
+const toGeneData = (rows: any[]): GeneData[] => {
+    const maxNegLog10 = rows.reduce((max: number, row: any) =>
+        row.pvalue > 0 ? Math.max(max, -Math.log10(row.pvalue)) : max, 0);
+
+    return rows.map((row: any): GeneData => ({
+        gene: row.gene,
+        baseMean: row.baseMean,
+        log2FoldChange: row.log2FoldChange,
+        lfcSE: row.lfcSE,
+        stat: row.stat,
+        pvalue: row.pvalue,
+        padj: row.padj,
+        negLog10PValue: row.pvalue === null ? null : row.pvalue > 0 ? -Math.log10(row.pvalue) : maxNegLog10,
+        ...(row.flag ? { flag: row.flag } : {}),
+        ...(row.log2FoldChangeShrunk !== undefined ? { log2FoldChangeShrunk: row.log2FoldChangeShrunk, lfcSEShrunk: row.lfcSEShrunk } : {}),
+    }));
+};
+
+// Files for the virtual file system and the R code that reads them back.
+interface AnalysisInputs {
+    files: { path: string; content: string }[];
+    readCode: string;
+}
+
+export interface DeRun {
+    genes: GeneData[];
+    reusedFit: boolean; // true when the DESeq2 model was taken from the cache instead of refitted
+    lfcShrink: LfcShrinkType; // shrinkage actually applied
+    diagnostics?: Deseq2Diagnostics; // DESeq2 only
+}
+
+// The matrices computed in R; the description of the run is added by the caller.
+export type CountTransformMatrices = Pick<CountTransforms, 'samples' | 'sizeFactors' | 'sizeFactorSource' | 'normalized' | 'vst' | 'rlog' | 'notes' | 'methods'>;
+
+// rlog fits a model per gene and sample and becomes very slow beyond this many
+// samples, where DESeq2 recommends the VST anyway
+const RLOG_MAX_SAMPLES = 30;
+
+// Rebuilds a gene x sample matrix from row-wise values returned by R.
+const toCountMatrix = (genes: string[], samples: string[], rows: number[][]): CountMatrix => {
+    const matrix: CountMatrix = {};
+    genes.forEach((gene, g) => {
+        const row: { [sample: string]: number } = {};
+        samples.forEach((sample, s) => { row[sample] = rows[g][s]; });
+        matrix[gene] = row;
+    });
+    return matrix;
+};
+
 export class RService {
     private webR: any;
     private statusLogCallback: (msg: string) => void = () => {};
@@ -12,11 +118,23 @@ export class RService {
     private packageStatus: Record<Package, PackageStatus> = {
         'BiocManager': 'not_installed',
         'DESeq2': 'not_installed',
-        'clusterProfiler': 'not_installed',
-        'org.Hs.eg.db': 'not_installed',
-        'vsn': 'not_installed'
+        'apeglm': 'not_installed',
+        'ashr': 'not_installed',
+        'edgeR': 'not_installed',
+        'clusterProfiler': 'not_installed'
     };
 
+    // Key of the DESeq2 fit held in the R session as `.dds_cache`
+    private cachedFitKey: string | null = null;
+    // Key of the data and design of that fit, whatever its test and reference level
+    private cachedDataKey: string | null = null;
+    private cachedDiagnostics: Deseq2Diagnostics | null = null;
+
+    // OrgDb packages are added to packageStatus the first time they are requested
+    private getPackageStatus(pkg: Package): PackageStatus {
+        return this.packageStatus[pkg] ?? 'not_installed';
+    }
+
     private async waitForWebR(timeout = 1200000): Promise<void> {
         const startTime = Date.now();
         return new Promise((resolve, reject) => {
@@ -78,17 +196,17 @@ export class RService {
     }
 
     private async ensurePackage(pkg: Package, installCmd: string) {
-        if (this.packageStatus[pkg] === 'installed') {
+        if (this.getPackageStatus(pkg) === 'installed') {
             return;
         }
 
         // If another process is already installing, wait for it
-        while (this.packageStatus[pkg] === 'installing') {
+        while (this.getPackageStatus(pkg) === 'installing') {
             await new Promise(resolve => setTimeout(resolve, 500));
         }
 
         // Re-check status after waiting, in case it's now installed
-        if (this.packageStatus[pkg] === 'installed') {
+        if (this.getPackageStatus(pkg) === 'installed') {
             return;
         }
 
@@ -107,165 +225,756 @@ export class RService {
     }
 
 
-    async runDeseq2(
+    // Builds the counts, sample table and optional transcript lengths as CSV files, and
+    // the R code that reads them back as `count_data`, `col_data` (with the baseline as
+    // reference level) and `tx_lengths`.
+    private buildAnalysisInputs(
         matrix: CountMatrix,
         metadata: SampleMetadata,
-        conditionA: string,
-        conditionB: string
-    ): Promise<GeneData[]> {
-        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
-        
-        await this.ensurePackage('DESeq2', 'if (!requireNamespace("DESeq2", quietly = TRUE)) BiocManager::install("DESeq2", update=FALSE)');
-        
+        baseline: string,
+        design: DesignTerm[],
+        averageTxLengths: CountMatrix | null | undefined
+    ): AnalysisInputs {
         const genes = Object.keys(matrix);
         const samples = Object.keys(metadata);
         
         // Create CSV strings
-        const countHeader = ['gene', ...samples].join(',');
+        // Gene IDs and sample names are quoted the same way in every file, as they may
+        // contain commas or quotes
+        const countHeader = ['gene', ...samples].map(toCsvField).join(',');
         const countMatrixString = [countHeader, ...genes.map(gene => 
-            [gene, ...samples.map(sample => matrix[gene][sample] ?? 0)].join(',')
+            [toCsvField(gene), ...samples.map(sample => matrix[gene][sample] ?? 0)].join(',')
         )].join('\n');
-        const colDataString = `sample,condition\n${samples.map(s => `${s},${metadata[s]}`).join('\n')}`;
+        const colDataHeader = ['sample', 'condition', ...design.map(t => t.name)].map(toCsvField).join(',');
+        const colDataString = [colDataHeader, ...samples.map(s =>
+            [toCsvField(s), toCsvField(metadata[s].condition), ...design.map(t => toCsvField(metadata[s].covariates[t.name]))].join(',')
+        )].join('\n');
+        const categoricalTerms = design.filter(t => t.type === 'categorical').map(t => `"${t.name}"`);
+        const numericTerms = design.filter(t => t.type === 'numeric').map(t => `"${t.name}"`);
         
-        // Write data to virtual file system for performance
-        await this.webR.FS.writeFile('/data/counts.csv', countMatrixString);
-        await this.webR.FS.writeFile('/data/metadata.csv', colDataString);
+        const files = [
+            { path: '/data/counts.csv', content: countMatrixString },
+            { path: '/data/metadata.csv', content: colDataString },
+        ];
+        if (averageTxLengths) {
+            const lengthMatrixString = [countHeader, ...genes.map(gene =>
+                [toCsvField(gene), ...samples.map(sample => averageTxLengths[gene]?.[sample] ?? 1)].join(',')
+            )].join('\n');
+            files.push({ path: '/data/tx_lengths.csv', content: lengthMatrixString });
+        }
 
-        const rCode = `
-            # Load necessary library
-            library(DESeq2)
-            
+        const readCode = `
             # Read data from virtual files
-            count_data_raw <- read.csv('/data/counts.csv', row.names=1)
-            col_data <- read.csv('/data/metadata.csv', row.names=1)
+            count_data_raw <- read.csv('/data/counts.csv', row.names=1, check.names=FALSE)
+            col_data <- read.csv('/data/metadata.csv', row.names=1, check.names=FALSE)
             
             # Ensure matrix columns and metadata rows are in the same order
             count_data <- count_data_raw[, rownames(col_data)]
+            has_tx_lengths <- ${averageTxLengths ? 'TRUE' : 'FALSE'}
+            if (has_tx_lengths) {
+                # Transcript-level estimates are fractional; round as DESeqDataSetFromTximport does
+                count_data <- round(as.matrix(count_data))
+                tx_lengths <- as.matrix(read.csv('/data/tx_lengths.csv', row.names=1, check.names=FALSE))
+                tx_lengths <- tx_lengths[rownames(count_data), colnames(count_data)]
+            }
 
-            # Create DESeqDataSet
-            dds <- DESeqDataSetFromMatrix(countData = count_data, colData = col_data, design = ~ condition)
-            
-            # Set the reference level for comparison
-            dds$condition <- relevel(dds$condition, ref = "${conditionA}")
-            
-            # Run DESeq analysis
-            dds <- DESeq(dds)
-            
-            # Get results
-            res <- results(dds, contrast=c("condition", "${conditionB}", "${conditionA}"))
-            res <- as.data.frame(res)
-            res <- na.omit(res)
-            res$gene <- rownames(res)
-            
-            # Select relevant columns and convert to JSON
-            res_subset <- res[, c("gene", "log2FoldChange", "padj", "baseMean")]
-            jsonlite::toJSON(res_subset)
+            # Categorical covariates become factors; numeric ones are kept continuous
+            col_data$condition <- relevel(factor(col_data$condition), ref = ${JSON.stringify(baseline)})
+            for (term in c(${categoricalTerms.join(', ')})) col_data[[term]] <- factor(col_data[[term]])
+            for (term in c(${numericTerms.join(', ')})) col_data[[term]] <- as.numeric(col_data[[term]])
         `;
+        return { files, readCode };
+    }
 
+    // Writes the inputs to the virtual file system and returns the R code that reads them.
+    private async writeAnalysisInputs(inputs: AnalysisInputs): Promise<string> {
+        for (const file of inputs.files) {
+            await this.webR.FS.writeFile(file.path, file.content);
+        }
+        return inputs.readCode;
+    }
+
+    private async removeAnalysisInputs() {
+        for (const path of ['/data/counts.csv', '/data/metadata.csv', '/data/tx_lengths.csv']) {
+            try {
+                await this.webR.FS.unlink(path);
+            } catch {
+                // Not written for this run (cached fit, or no transcript lengths)
+            }
+        }
+    }
+
+    // Drops the cached DESeq2 fit, e.g. when the data it was fitted on changes.
+    async invalidateModelCache() {
+        if (this.cachedFitKey === null) return;
+        this.cachedFitKey = null;
+        this.cachedDataKey = null;
+        this.cachedDiagnostics = null;
+        await this.webR.evalR('if (exists(".dds_cache", envir = globalenv())) rm(".dds_cache", envir = globalenv())');
+    }
+
+    // Runs an R script that returns a results table as JSON and converts it to GeneData.
+    private async runDeScript(label: string, rCode: string, status = `Running ${label} analysis...`): Promise<GeneData[]> {
         try {
-            this.statusLogCallback('Running DESeq2 analysis...');
+            this.statusLogCallback(status);
             const result = await this.webR.evalR(rCode);
             const jsonResult = await result.toJs();
-            const deseqResults = JSON.parse(jsonResult[0]);
-            
-            await this.webR.FS.unlink('/data/counts.csv');
-            await this.webR.FS.unlink('/data/metadata.csv');
+            await this.removeAnalysisInputs();
+            return toGeneData(JSON.parse(jsonResult[0]));
+        } catch(e: any) {
+            console.error(`Error during ${label} analysis in R:`, e);
+            throw new Error(`R analysis script failed: ${e.message}`);
+        }
+    }
 
-            return deseqResults.map((row: any) => ({
-                gene: row.gene,
-                log2FoldChange: row.log2FoldChange,
-                pvalue: row.padj, // Use adjusted p-value
-                averageExpression: row.baseMean,
-                negLog10PValue: row.padj > 0 ? -Math.log10(row.padj) : 50,
-            }));
+    async runDeseq2(
+        matrix: CountMatrix,
+        metadata: SampleMetadata,
+        contrast: ConditionContrast,
+        design: DesignTerm[] = [],
+        options: Deseq2Options = {}
+    ): Promise<DeRun> {
+        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
+        
+        await this.ensurePackage('DESeq2', 'if (!requireNamespace("DESeq2", quietly = TRUE)) BiocManager::install("DESeq2", update=FALSE)');
+        const { averageTxLengths, reducedDesign } = options;
+        const singleCoefficient = getSingleCoefficient(contrast);
+        // Shrinkage needs a comparison, which an omnibus test does not have; apeglm also
+        // needs it to be a single coefficient rather than a combination of several
+        let lfcShrink: LfcShrinkType = reducedDesign ? 'none' : options.lfcShrink ?? 'none';
+        if (lfcShrink === 'apeglm' && !singleCoefficient) {
+            this.statusLogCallback(`apeglm cannot shrink the combined contrast ${contrast.name}; its fold changes are left unshrunken.`);
+            lfcShrink = 'none';
+        }
+        if (lfcShrink === 'apeglm' || lfcShrink === 'ashr') {
+            await this.ensurePackage(lfcShrink, `if (!requireNamespace("${lfcShrink}", quietly = TRUE)) BiocManager::install("${lfcShrink}", update=FALSE)`);
+        }
+        
+        // apeglm shrinks a model coefficient, which is only the comparison itself with the
+        // contrast's baseline as reference level; that case needs its own fit
+        const referenceLevel = lfcShrink === 'apeglm' ? contrast.baseline : options.referenceLevel ?? contrast.baseline;
+        const inputs = this.buildAnalysisInputs(matrix, metadata, referenceLevel, design, averageTxLengths);
+        const designFormula = formatDesignFormula(design);
+
+        // The fit depends on the data, the design, the test and the reference level; every
+        // contrast of the same fit is extracted from the cached model with results()
+        const fitKey = hashStrings([...inputs.files.map(f => f.content), designFormula, reducedDesign ?? 'wald', referenceLevel]);
+        const dataKey = hashStrings([...inputs.files.map(f => f.content), designFormula]);
+        const reusedFit = fitKey === this.cachedFitKey;
+        const readInputs = reusedFit ? '' : await this.writeAnalysisInputs(inputs);
+        if (!reusedFit) {
+            // A fresh fit replaces the cached one; until it has been stored nothing may reuse it
+            this.cachedFitKey = null;
+            this.cachedDataKey = null;
+            this.cachedDiagnostics = null;
+        }
 
+        const rCode = `
+            # Load necessary library
+            library(DESeq2)
+
+            is_lrt <- ${reducedDesign ? 'TRUE' : 'FALSE'}
+            reduced_design <- ${reducedDesign ?? '~ 1'}
+            reused_fit <- ${reusedFit ? 'TRUE' : 'FALSE'}
+            if (reused_fit) {
+                if (!exists(".dds_cache", envir = globalenv()) || !identical(.dds_cache$key, "${fitKey}")) {
+                    stop("The cached DESeq2 fit does not belong to this analysis; run it again.")
+                }
+                dds <- .dds_cache$dds
+            } else {
+                ${readInputs}
+
+                # Create DESeqDataSet
+                dds <- DESeqDataSetFromMatrix(countData = count_data, colData = col_data, design = ${designFormula})
+
+                # Average transcript lengths become gene- and sample-specific normalization
+                # offsets, picked up automatically by estimateSizeFactors()
+                if (has_tx_lengths) {
+                    assays(dds)[["avgTxLength"]] <- tx_lengths
+                }
+
+                # Run DESeq analysis. The LRT is an omnibus test: does the gene change at
+                # all with the terms left out of the reduced design?
+                # Dispersion warnings (e.g. a failed parametric fit) are kept for the diagnostics.
+                fit_messages <- character(0)
+                dds <- withCallingHandlers(
+                    tryCatch({
+                        if (is_lrt) DESeq(dds, test = "LRT", reduced = reduced_design) else DESeq(dds)
+                    }, error = function(e) {
+                        if (!grepl("dispersion", conditionMessage(e))) stop(e)
+                        # No trend can be fitted (e.g. all gene-wise estimates are alike); as
+                        # the DESeq2 error suggests, test with the gene-wise estimates instead
+                        fit_messages <<- c(fit_messages, conditionMessage(e))
+                        dds <- estimateSizeFactors(dds)
+                        dds <- estimateDispersionsGeneEst(dds)
+                        dispersions(dds) <- mcols(dds)$dispGeneEst
+                        if (is_lrt) nbinomLRT(dds, reduced = reduced_design) else nbinomWaldTest(dds)
+                    }),
+                    warning = function(w) {
+                        if (grepl("dispersion|fit", conditionMessage(w))) fit_messages <<- c(fit_messages, conditionMessage(w))
+                    }
+                )
+            }
+
+            if (is_lrt) {
+                res_raw <- results(dds)
+                res <- as.data.frame(res_raw)
+
+                # The LRT has no single fold change. Report the largest (by magnitude) of the
+                # coefficients it tests, e.g. the time point furthest from the baseline.
+                full_terms <- attr(terms(design(dds)), "term.labels")
+                tested_terms <- setdiff(full_terms, attr(terms(reduced_design), "term.labels"))
+                model_columns <- attr(model.matrix(design(dds), colData(dds)), "assign")
+                tested <- which(model_columns %in% match(tested_terms, full_terms))
+                coef_mat <- coef(dds)[, tested, drop = FALSE]
+                se_mat <- coef(dds, SE = TRUE)[, tested, drop = FALSE]
+                pick <- apply(abs(coef_mat), 1, function(x) if (all(is.na(x))) NA else which.max(x))
+                res$log2FoldChange <- coef_mat[cbind(seq_len(nrow(coef_mat)), pick)]
+                res$lfcSE <- se_mat[cbind(seq_len(nrow(se_mat)), pick)]
+            } else {
+                # Weights on the condition means become a numeric contrast over the model
+                # coefficients; the baseline's weight is absorbed by the intercept
+                contrast_weights <- ${toRWeights(contrast.weights)}
+                ref_level <- levels(dds$condition)[1]
+                contrast_vec <- setNames(rep(0, length(resultsNames(dds))), resultsNames(dds))
+                for (level in setdiff(names(contrast_weights), ref_level)) {
+                    coef_name <- make.names(paste("condition", level, "vs", ref_level, sep = "_"))
+                    if (!(coef_name %in% names(contrast_vec))) stop(paste("No coefficient for condition", level))
+                    contrast_vec[coef_name] <- contrast_weights[[level]]
+                }
+
+                # Get results
+                res_raw <- results(dds, contrast = contrast_vec)
+                res <- as.data.frame(res_raw)
+            }
+            res$gene <- rownames(res)
+
+            # Shrunken fold changes are kept next to the raw MLE ones; p-values are unchanged
+            shrink_type <- "${lfcShrink}"
+            if (shrink_type != "none") {
+                if (shrink_type == "apeglm") {
+                    # apeglm shrinks a model coefficient rather than a contrast; with the
+                    # baseline as reference level the comparison is its own coefficient
+                    coef_name <- make.names(paste("condition", ${JSON.stringify(singleCoefficient ?? '')}, "vs", ref_level, sep = "_"))
+                    if (!(coef_name %in% resultsNames(dds))) stop(paste("Coefficient", coef_name, "not found for apeglm shrinkage"))
+                    res_shrunk <- lfcShrink(dds, coef = coef_name, type = "apeglm", res = res_raw, quiet = TRUE)
+                } else {
+                    res_shrunk <- lfcShrink(dds, contrast = contrast_vec, type = shrink_type, res = res_raw, quiet = TRUE)
+                }
+                res$log2FoldChangeShrunk <- res_shrunk$log2FoldChange
+                res$lfcSEShrunk <- res_shrunk$lfcSE
+            }
+
+            # Keep genes DESeq2 gave NA statistics and record why, instead of dropping them:
+            # all-zero genes, Cook's distance outliers (pvalue NA) and genes removed by
+            # independent filtering (padj NA)
+            res$flag <- ifelse(res$baseMean == 0, "all_zero",
+                        ifelse(is.na(res$pvalue), "outlier",
+                        ifelse(is.na(res$padj), "low_count", NA)))
+
+            # Select relevant columns and convert to JSON at full precision
+            columns <- c("gene", "baseMean", "log2FoldChange", "lfcSE", "stat", "pvalue", "padj", "flag")
+            if (shrink_type != "none") columns <- c(columns, "log2FoldChangeShrunk", "lfcSEShrunk")
+            res_subset <- res[, columns]
+
+            # Keep the fit in the session for later contrasts on the same data. Stored only
+            # once the results were extracted, so a failed run leaves no fit behind
+            if (!reused_fit) {
+                assign(".dds_cache", list(key = "${fitKey}", data_key = "${dataKey}", dds = dds, fit_messages = fit_messages), envir = globalenv())
+            }
+            jsonlite::toJSON(res_subset, digits = NA, na = "null")
+        `;
+
+        const label = reducedDesign ? 'DESeq2 LRT' : 'DESeq2';
+        const genes = await this.runDeScript(label, rCode, reusedFit ? `Reusing the fitted ${label} model; extracting results only...` : undefined);
+        this.cachedFitKey = fitKey;
+        this.cachedDataKey = dataKey;
+        // The results stand without the diagnostics if collecting them fails
+        if (!reusedFit) this.cachedDiagnostics = await this.getDeseq2Diagnostics().catch(() => null);
+        return { genes, reusedFit, lfcShrink, ...(this.cachedDiagnostics ? { diagnostics: this.cachedDiagnostics } : {}) };
+    }
+
+    // Dispersion estimates and Cook's distances of the cached DESeq2 fit.
+    private async getDeseq2Diagnostics(): Promise<Deseq2Diagnostics> {
+        const rCode = `
+            library(DESeq2)
+            dds <- .dds_cache$dds
+
+            disp_fn <- dispersionFunction(dds)
+            fit_type <- if (is.null(disp_fn)) "gene_estimates" else attr(disp_fn, "fitType")
+            dispersions <- data.frame(
+                baseMean = mcols(dds)$baseMean,
+                geneEst = mcols(dds)$dispGeneEst,
+                fitted = mcols(dds)$dispFit,
+                final = dispersions(dds),
+                outlier = if (is.null(mcols(dds)$dispOutlier)) FALSE else mcols(dds)$dispOutlier
+            )
+            dispersions <- dispersions[!is.na(dispersions$baseMean) & dispersions$baseMean > 0, ]
+
+            # DESeq2's default outlier cutoff; the model has p coefficients and m samples
+            cooks <- assays(dds)[["cooks"]]
+            p <- ncol(model.matrix(design(dds), colData(dds)))
+            m <- ncol(dds)
+            cutoff <- qf(0.99, p, m - p)
+            cooks_summary <- data.frame(
+                sample = colnames(dds),
+                genesAboveCutoff = colSums(cooks > cutoff, na.rm = TRUE),
+                maxCooks = apply(cooks, 2, function(x) if (all(is.na(x))) 0 else max(x, na.rm = TRUE))
+            )
+            gene_max <- apply(cooks, 1, function(x) if (all(is.na(x))) NA else max(x, na.rm = TRUE))
+            flagged <- which(!is.na(gene_max) & gene_max > cutoff)
+            flagged_count <- length(flagged)
+            flagged <- flagged[order(gene_max[flagged], decreasing = TRUE)][seq_len(min(200, length(flagged)))]
+            outlier_genes <- data.frame(
+                gene = rownames(dds)[flagged],
+                sample = colnames(dds)[apply(cooks[flagged, , drop = FALSE], 1, which.max)],
+                cooks = unname(gene_max[flagged])
+            )
+
+            jsonlite::toJSON(list(
+                dispersions = dispersions,
+                fitType = fit_type,
+                fitMessages = I(.dds_cache$fit_messages),
+                cooksCutoff = cutoff,
+                cooks = cooks_summary,
+                outlierGeneCount = flagged_count,
+                outlierGenes = outlier_genes
+            ), digits = NA, na = "null", auto_unbox = TRUE)
+        `;
+
+        try {
+            const result = await this.webR.evalR(rCode);
+            const jsonResult = await result.toJs();
+            return JSON.parse(jsonResult[0]);
         } catch(e: any) {
-            console.error("Error during DESeq2 analysis in R:", e);
-            throw new Error(`R analysis script failed: ${e.message}`);
+            console.error('Error while collecting DESeq2 diagnostics in R:', e);
+            throw new Error(`R diagnostics script failed: ${e.message}`);
+        }
+    }
+
+    // edgeR quasi-likelihood F-test for the same contrast and design as runDeseq2.
+    async runEdgeR(
+        matrix: CountMatrix,
+        metadata: SampleMetadata,
+        contrast: ConditionContrast,
+        design: DesignTerm[] = [],
+        options: DeOptions = {}
+    ): Promise<GeneData[]> {
+        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
+        await this.ensurePackage('edgeR', 'if (!requireNamespace("edgeR", quietly = TRUE)) BiocManager::install("edgeR", update=FALSE)');
+
+        const readInputs = await this.writeAnalysisInputs(this.buildAnalysisInputs(matrix, metadata, contrast.baseline, design, options.averageTxLengths));
+
+        const rCode = `
+            library(edgeR)
+            ${readInputs}
+
+            y <- DGEList(counts = as.matrix(count_data))
+            if (has_tx_lengths) {
+                # tximport's recipe: average transcript lengths become a gene- and
+                # sample-specific offset on top of the TMM library sizes
+                norm_mat <- tx_lengths / exp(rowMeans(log(tx_lengths)))
+                norm_counts <- y$counts / norm_mat
+                eff_lib <- calcNormFactors(norm_counts) * colSums(norm_counts)
+                norm_mat <- sweep(norm_mat, 2, eff_lib, "*")
+                y <- scaleOffset(y, log(norm_mat))
+            } else {
+                y <- calcNormFactors(y)
+            }
+
+            ${DESIGN_MATRIX_R(formatDesignFormula(design), contrast)}
+            y <- estimateDisp(y, design_matrix)
+            fit <- glmQLFit(y, design_matrix)
+            qlf <- glmQLFTest(fit, contrast = contrast_vec)
+            tab <- topTags(qlf, n = Inf, sort.by = "none")$table
+
+            # Mean of normalized counts, on the same scale as DESeq2's baseMean
+            eff_lib_sizes <- y$samples$lib.size * y$samples$norm.factors
+            base_mean <- rowMeans(sweep(y$counts, 2, eff_lib_sizes / mean(eff_lib_sizes), "/"))
+
+            res <- data.frame(
+                gene = rownames(tab), baseMean = base_mean[rownames(tab)], log2FoldChange = tab$logFC,
+                lfcSE = NA_real_, stat = tab$F, pvalue = tab$PValue, padj = tab$FDR
+            )
+            ${FLAG_ALL_ZERO_R}
+            jsonlite::toJSON(res, digits = NA, na = "null")
+        `;
+
+        return this.runDeScript('edgeR', rCode);
+    }
+
+    // limma-voom moderated t-test for the same contrast and design as runDeseq2.
+    async runLimmaVoom(
+        matrix: CountMatrix,
+        metadata: SampleMetadata,
+        contrast: ConditionContrast,
+        design: DesignTerm[] = [],
+        options: DeOptions = {}
+    ): Promise<GeneData[]> {
+        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
+        await this.ensurePackage('edgeR', 'if (!requireNamespace("edgeR", quietly = TRUE)) BiocManager::install("edgeR", update=FALSE)');
+
+        if (options.averageTxLengths) {
+            // voom has no offset argument; tximport suggests length-scaled TPM counts instead
+            this.statusLogCallback('limma-voom ignores average transcript lengths; counts are used as imported.');
+        }
+        const readInputs = await this.writeAnalysisInputs(this.buildAnalysisInputs(matrix, metadata, contrast.baseline, design, options.averageTxLengths));
+
+        const rCode = `
+            library(edgeR)
+            library(limma)
+            ${readInputs}
+
+            y <- calcNormFactors(DGEList(counts = as.matrix(count_data)))
+            ${DESIGN_MATRIX_R(formatDesignFormula(design), contrast)}
+            v <- voom(y, design_matrix)
+            fit <- eBayes(contrasts.fit(lmFit(v, design_matrix), contrast_vec))
+            tab <- topTable(fit, coef = 1, number = Inf, sort.by = "none")
+
+            eff_lib_sizes <- y$samples$lib.size * y$samples$norm.factors
+            base_mean <- rowMeans(sweep(y$counts, 2, eff_lib_sizes / mean(eff_lib_sizes), "/"))
+            lfc_se <- (sqrt(fit$s2.post) * fit$stdev.unscaled[, 1])[rownames(tab)]
+
+            res <- data.frame(
+                gene = rownames(tab), baseMean = base_mean[rownames(tab)], log2FoldChange = tab$logFC,
+                lfcSE = lfc_se, stat = tab$t, pvalue = tab$P.Value, padj = tab$adj.P.Val
+            )
+            ${FLAG_ALL_ZERO_R}
+            jsonlite::toJSON(res, digits = NA, na = "null")
+        `;
+
+        return this.runDeScript('limma-voom', rCode);
+    }
+
+    async runDifferentialExpression(
+        engine: DeEngine,
+        matrix: CountMatrix,
+        metadata: SampleMetadata,
+        contrast: ConditionContrast,
+        design: DesignTerm[] = [],
+        options: Deseq2Options = {}
+    ): Promise<DeRun> {
+        switch (engine) {
+            case 'edger':
+                return { genes: await this.runEdgeR(matrix, metadata, contrast, design, options), reusedFit: false, lfcShrink: 'none' };
+            case 'limma':
+                return { genes: await this.runLimmaVoom(matrix, metadata, contrast, design, options), reusedFit: false, lfcShrink: 'none' };
+            default:
+                return this.runDeseq2(matrix, metadata, contrast, design, options);
         }
     }
     
-     async getClusteredOrder(
+    // Size factors, normalized counts and the VST (and, for up to RLOG_MAX_SAMPLES
+    // samples, rlog) matrices. The transformations use the design's dispersion trend
+    // (blind = FALSE), so they are taken from the cached DESeq2 fit when it has the same
+    // data and design.
+    async getCountTransforms(
         matrix: CountMatrix,
-        geneSymbols: string[],
-        method: ClusteringMethod
-    ): Promise<string[]> {
+        metadata: SampleMetadata,
+        baseline: string,
+        design: DesignTerm[] = [],
+        options: DeOptions = {}
+    ): Promise<CountTransformMatrices> {
         if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
-        await this.ensurePackage('vsn', 'if (!requireNamespace("vsn", quietly = TRUE)) BiocManager::install("vsn", update=FALSE)');
+        await this.ensurePackage('DESeq2', 'if (!requireNamespace("DESeq2", quietly = TRUE)) BiocManager::install("DESeq2", update=FALSE)');
 
-        const relevantMatrix: { [key: string]: { [key: string]: number } } = {};
-        geneSymbols.forEach(g => {
-            if (matrix[g]) {
-                relevantMatrix[g] = matrix[g];
+        const inputs = this.buildAnalysisInputs(matrix, metadata, baseline, design, options.averageTxLengths);
+        const designFormula = formatDesignFormula(design);
+        const dataKey = hashStrings([...inputs.files.map(f => f.content), designFormula]);
+        const reuseFit = this.cachedFitKey !== null && dataKey === this.cachedDataKey;
+        const readInputs = reuseFit ? '' : await this.writeAnalysisInputs(inputs);
+        const withRlog = Object.keys(metadata).length <= RLOG_MAX_SAMPLES;
+
+        const rCode = `
+            library(DESeq2)
+
+            if (${reuseFit ? 'TRUE' : 'FALSE'}) {
+                if (!exists(".dds_cache", envir = globalenv()) || !identical(.dds_cache$data_key, "${dataKey}")) {
+                    stop("The cached DESeq2 fit does not belong to this analysis; run it again.")
+                }
+                dds <- .dds_cache$dds
+            } else {
+                ${readInputs}
+                dds <- DESeqDataSetFromMatrix(countData = count_data, colData = col_data, design = ${designFormula})
+                if (has_tx_lengths) {
+                    assays(dds)[["avgTxLength"]] <- tx_lengths
+                }
+                dds <- estimateSizeFactors(dds)
             }
-        });
 
-        const genes = Object.keys(relevantMatrix);
-        if (genes.length < 3) return geneSymbols;
-        
-        const samples = Object.keys(Object.values(relevantMatrix)[0]);
-        
-        const countHeader = ['gene', ...samples].join(',');
-        const countMatrixString = [countHeader, ...genes.map(gene =>
-             [gene, ...samples.map(sample => relevantMatrix[gene][sample] ?? 0)].join(',')
+            # Transcript-length offsets replace size factors with gene x sample factors
+            from_tx_lengths <- is.null(sizeFactors(dds))
+            size_factors <- if (from_tx_lengths) exp(colMeans(log(normalizationFactors(dds)))) else sizeFactors(dds)
+
+            # vst() fits the dispersion trend on a subset of 1000 genes with a mean normalized
+            # count above 5, so matrices with fewer such genes use the full transformation
+            n_expressed <- sum(rowMeans(counts(dds, normalized = TRUE)) > 5, na.rm = TRUE)
+            vst_function <- if (n_expressed >= 1000) "vst" else "varianceStabilizingTransformation"
+            run_vst <- function(blind) {
+                if (n_expressed >= 1000) vst(dds, blind = blind) else varianceStabilizingTransformation(dds, blind = blind)
+            }
+
+            # Both transformations need a dispersion trend. When the design's trend cannot be
+            # fitted (e.g. the fit fell back to gene-wise dispersions), estimate it blind to
+            # the design, and as a last resort use the mean dispersion. The calls actually
+            # used are returned for the export headers.
+            notes <- character(0)
+            vst_method <- paste0(vst_function, "(dds, blind = FALSE)")
+            vst_data <- tryCatch(run_vst(FALSE), error = function(e) {
+                notes <<- c(notes, paste0("VST: the design's dispersion trend failed (", conditionMessage(e), "); the transformation is blind to the design."))
+                vst_method <<- paste0(vst_function, "(dds, blind = TRUE)")
+                tryCatch(run_vst(TRUE), error = function(e2) {
+                    notes <<- c(notes, "VST: no blind trend either; the mean dispersion is used.")
+                    vst_method <<- 'varianceStabilizingTransformation(dds, blind = TRUE, fitType = "mean")'
+                    varianceStabilizingTransformation(dds, blind = TRUE, fitType = "mean")
+                })
+            })
+            rlog_method <- if (${withRlog ? 'TRUE' : 'FALSE'}) "rlog(dds, blind = FALSE)" else NA
+            rlog_data <- if (${withRlog ? 'TRUE' : 'FALSE'}) tryCatch(unname(assay(rlog(dds, blind = FALSE))), error = function(e) {
+                tryCatch({
+                    data <- unname(assay(rlog(dds, blind = TRUE)))
+                    notes <<- c(notes, "rlog: the design's dispersion trend failed; the transformation is blind to the design.")
+                    rlog_method <<- "rlog(dds, blind = TRUE)"
+                    data
+                }, error = function(e2) {
+                    notes <<- c(notes, paste0("rlog failed (", conditionMessage(e2), ") and is left out."))
+                    rlog_method <<- NA
+                    NA
+                })
+            }) else NA
+            methods <- list(
+                size_factors = if (from_tx_lengths) "exp(colMeans(log(normalizationFactors(dds)))): geometric mean of the average transcript length offsets" else "estimateSizeFactors(dds): median of ratios",
+                normalized = "counts(dds, normalized = TRUE)",
+                vst = vst_method,
+                rlog = rlog_method
+            )
+
+            jsonlite::toJSON(list(
+                genes = rownames(dds),
+                samples = colnames(dds),
+                size_factors = unname(size_factors),
+                from_tx_lengths = from_tx_lengths,
+                normalized = unname(counts(dds, normalized = TRUE)),
+                vst = unname(assay(vst_data)),
+                rlog = rlog_data,
+                notes = I(notes),
+                methods = methods
+            ), digits = NA, na = "null", auto_unbox = TRUE)
+        `;
+
+        try {
+            this.statusLogCallback(`Computing normalized counts and the VST${withRlog ? ' and rlog' : ''}...`);
+            const result = await this.webR.evalR(rCode);
+            const jsonResult = await result.toJs();
+            await this.removeAnalysisInputs();
+            const parsed = JSON.parse(jsonResult[0]);
+            const genes: string[] = parsed.genes;
+            const samples: string[] = parsed.samples;
+            return {
+                samples,
+                sizeFactors: Object.fromEntries(samples.map((sample, i) => [sample, parsed.size_factors[i]])),
+                sizeFactorSource: parsed.from_tx_lengths ? 'tx_length_offsets' : 'median_ratio',
+                normalized: toCountMatrix(genes, samples, parsed.normalized),
+                vst: toCountMatrix(genes, samples, parsed.vst),
+                rlog: parsed.rlog ? toCountMatrix(genes, samples, parsed.rlog) : null,
+                notes: parsed.notes,
+                methods: parsed.methods,
+            };
+        } catch(e: any) {
+            console.error('Error while computing count transformations in R:', e);
+            throw new Error(`R count transformation script failed: ${e.message}`);
+        }
+    }
+
+    // PCA on the ntop most variable VST genes (as DESeq2's plotPCA) and sample-to-sample
+    // distances over all genes. With a pairing, the subject effect can be removed first
+    // (limma::removeBatchEffect, keeping the condition), so that the plots show the
+    // within-subject differences the model tests.
+    async runSampleQc(
+        vst: CountMatrix,
+        samples: string[],
+        options: { ntop: number; distance: SampleDistanceMethod; block?: { column: string; subjects: string[]; conditions: string[] } }
+    ): Promise<SampleQc> {
+        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
+        const { ntop, distance, block } = options;
+        if (block) {
+            // limma comes with edgeR
+            await this.ensurePackage('edgeR', 'if (!requireNamespace("edgeR", quietly = TRUE)) BiocManager::install("edgeR", update=FALSE)');
+        }
+
+        const genes = Object.keys(vst);
+        const vstString = [['gene', ...samples].map(toCsvField).join(','), ...genes.map(gene =>
+            [toCsvField(gene), ...samples.map(sample => vst[gene][sample])].join(',')
         )].join('\n');
-        
-        await this.webR.FS.writeFile('/data/heatmap_counts.csv', countMatrixString);
+        await this.webR.FS.writeFile('/data/qc_vst.csv', vstString);
+        const toRVector = (values: string[]) => `c(${values.map(v => JSON.stringify(v)).join(', ')})`;
 
         const rCode = `
-            library(vsn)
-            count_data <- read.csv('/data/heatmap_counts.csv', row.names=1)
-            
-            # VST normalize data for clustering
-            vst_data <- vsn::vst(as.matrix(count_data), fit = TRUE)
-            
-            # Calculate distance and perform hierarchical clustering
-            dist_matrix <- dist(vst_data)
-            hc <- hclust(dist_matrix, method="${method}")
-            
-            # Get the ordered gene labels
-            ordered_genes <- hc$labels[hc$order]
-            jsonlite::toJSON(ordered_genes)
+            vst_mat <- as.matrix(read.csv('/data/qc_vst.csv', row.names=1, check.names=FALSE))
+
+            if (${block ? 'TRUE' : 'FALSE'}) {
+                subjects <- factor(${block ? toRVector(block.subjects) : 'NULL'})
+                conditions <- factor(${block ? toRVector(block.conditions) : 'NULL'})
+                vst_mat <- limma::removeBatchEffect(vst_mat, batch = subjects, design = model.matrix(~ conditions))
+            }
+
+            # PCA of the most variable genes, centred but not scaled
+            row_vars <- apply(vst_mat, 1, var)
+            top <- order(row_vars, decreasing = TRUE)[seq_len(min(${ntop}, nrow(vst_mat)))]
+            pca <- prcomp(t(vst_mat[top, , drop = FALSE]))
+            n_pcs <- min(10, ncol(pca$x))
+
+            sample_dist <- if ("${distance}" == "correlation") as.dist(1 - cor(vst_mat)) else dist(t(vst_mat))
+            hc <- hclust(sample_dist)
+
+            jsonlite::toJSON(list(
+                pcs = unname(pca$x[, seq_len(n_pcs), drop = FALSE]),
+                variance = (pca$sdev^2 / sum(pca$sdev^2))[seq_len(n_pcs)],
+                ntop = length(top),
+                distances = unname(as.matrix(sample_dist)),
+                order = hc$order - 1
+            ), digits = NA, auto_unbox = TRUE)
         `;
 
         try {
-             const result = await this.webR.evalR(rCode);
-             const jsonResult = await result.toJs();
-             await this.webR.FS.unlink('/data/heatmap_counts.csv');
-             return JSON.parse(jsonResult[0]);
+            this.statusLogCallback('Running sample PCA and distance clustering...');
+            const result = await this.webR.evalR(rCode);
+            const jsonResult = await result.toJs();
+            await this.webR.FS.unlink('/data/qc_vst.csv');
+            const parsed = JSON.parse(jsonResult[0]);
+            return {
+                samples,
+                pcs: parsed.pcs,
+                varianceExplained: parsed.variance,
+                ntop: parsed.ntop,
+                distances: parsed.distances,
+                clusterOrder: parsed.order,
+                distance,
+                removedBlock: block ? block.column : null,
+            };
         } catch(e: any) {
-            console.error(`Error during clustering in R with method ${method}:`, e);
-            throw new Error(`R clustering script failed: ${e.message}`);
+            console.error('Error during sample QC in R:', e);
+            throw new Error(`R sample QC script failed: ${e.message}`);
+        }
+    }
+
+    async getExpressionHeatmap(
+        vst: CountMatrix,
+        genes: string[],
+        samples: string[],
+        options: { method: ClusteringMethod; distance: ClusteringDistance; block?: { column: string; subjects: string[]; conditions: string[] } }
+    ): Promise<ExpressionHeatmapData> {
+        if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
+        const { method, distance, block } = options;
+        if (block) {
+            // limma comes with edgeR
+            await this.ensurePackage('edgeR', 'if (!requireNamespace("edgeR", quietly = TRUE)) BiocManager::install("edgeR", update=FALSE)');
+        }
+
+        // The batch effect is estimated from all genes, not only the ones shown
+        const allGenes = Object.keys(vst);
+        const vstString = [['gene', ...samples].map(toCsvField).join(','), ...allGenes.map(gene =>
+            [toCsvField(gene), ...samples.map(sample => vst[gene][sample])].join(',')
+        )].join('\n');
+        await this.webR.FS.writeFile('/data/heatmap_vst.csv', vstString);
+        const toRVector = (values: string[]) => `c(${values.map(v => JSON.stringify(v)).join(', ')})`;
+
+        const rCode = `
+            vst_mat <- as.matrix(read.csv('/data/heatmap_vst.csv', row.names=1, check.names=FALSE))
+
+            if (${block ? 'TRUE' : 'FALSE'}) {
+                subjects <- factor(${block ? toRVector(block.subjects) : 'NULL'})
+                conditions <- factor(${block ? toRVector(block.conditions) : 'NULL'})
+                vst_mat <- limma::removeBatchEffect(vst_mat, batch = subjects, design = model.matrix(~ conditions))
+            }
+
+            selected <- intersect(${toRVector(genes)}, rownames(vst_mat))
+            z <- t(scale(t(vst_mat[selected, , drop = FALSE])))
+            z[!is.finite(z)] <- 0
+
+            # Distances between the rows of m; a constant row has no correlation and counts as uncorrelated
+            row_dist <- function(m) {
+                if ("${distance}" == "euclidean") return(dist(m))
+                r <- suppressWarnings(cor(t(m), method = "${distance}"))
+                r[is.na(r)] <- 0
+                as.dist(1 - r)
+            }
+
+            to_tree <- function(d) {
+                hc <- hclust(d, method = "${method}")
+                list(merge = hc$merge, height = I(hc$height), order = I(hc$order - 1))
+            }
+
+            jsonlite::toJSON(list(
+                genes = I(rownames(z)),
+                z = unname(z),
+                row_tree = if (nrow(z) > 1) to_tree(row_dist(z)) else NA,
+                col_tree = if (ncol(z) > 1) to_tree(row_dist(t(z))) else NA
+            ), digits = NA, na = "null", auto_unbox = TRUE)
+        `;
+
+        try {
+            this.statusLogCallback(`Clustering ${genes.length} genes and ${samples.length} samples (${method}, ${distance})...`);
+            const result = await this.webR.evalR(rCode);
+            const jsonResult = await result.toJs();
+            await this.webR.FS.unlink('/data/heatmap_vst.csv');
+            const parsed = JSON.parse(jsonResult[0]);
+            return {
+                genes: parsed.genes,
+                samples,
+                zScores: parsed.z,
+                rowTree: parsed.row_tree,
+                colTree: parsed.col_tree,
+                method,
+                distance,
+                removedBlock: block ? block.column : null,
+            };
+        } catch(e: any) {
+            console.error(`Error during heatmap clustering in R with method ${method}:`, e);
+            throw new Error(`R heatmap clustering script failed: ${e.message}`);
         }
     }
 
     async runGsea(
         degResults: GeneData[],
-        database: GseaDatabase
+        database: GseaDatabase,
+        organism: Organism,
+        lfcMode: LfcMode
     ): Promise<GseaResult[]> {
         if (this.packageStatus['BiocManager'] !== 'installed') throw new Error("R service not initialized.");
         
+        const { orgDb, symbolKeyType, kegg } = ORGANISMS[organism];
         await this.ensurePackage('clusterProfiler', 'if (!requireNamespace("clusterProfiler", quietly = TRUE)) BiocManager::install("clusterProfiler", update=FALSE)');
-        await this.ensurePackage('org.Hs.eg.db', 'if (!requireNamespace("org.Hs.eg.db", quietly = TRUE)) BiocManager::install("org.Hs.eg.db", update=FALSE)');
+        await this.ensurePackage(orgDb, `if (!requireNamespace("${orgDb}", quietly = TRUE)) BiocManager::install("${orgDb}", update=FALSE)`);
         
-        const rankedGenes = [...degResults]
-            .filter(g => g.pvalue !== null && isFinite(g.log2FoldChange) && g.gene)
-            .sort((a, b) => b.log2FoldChange - a.log2FoldChange);
+        // Genes are ranked by the fold change currently shown (raw or shrunken)
+        const rankedGenes = degResults
+            .filter(g => !g.flag && getLfc(g, lfcMode) !== null && isFinite(getLfc(g, lfcMode)) && g.gene)
+            .map(g => ({ gene: g.gene, lfc: getLfc(g, lfcMode) }))
+            .sort((a, b) => b.lfc - a.lfc);
 
-        const geneListString = `gene,log2FC\n${rankedGenes.map(g => `"${g.gene}",${g.log2FoldChange}`).join('\n')}`;
+        const geneListString = `gene,log2FC\n${rankedGenes.map(g => `${toCsvField(g.gene)},${g.lfc}`).join('\n')}`;
         await this.webR.FS.writeFile('/data/gene_list.csv', geneListString);
         
         const dbCommand = {
-            'GO': `gseGO(geneList=geneList, ont="BP", OrgDb=org.Hs.eg.db, keyType="SYMBOL", minGSSize=10, maxGSSize=500, pvalueCutoff=1, verbose=FALSE)`,
-            'KEGG': `gseKEGG(geneList=kegg_gene_list, organism='hsa', minGSSize=10, maxGSSize=500, pvalueCutoff=1, verbose=FALSE)`,
+            'GO': `gseGO(geneList=geneList, ont="BP", OrgDb=${orgDb}, keyType="${symbolKeyType}", minGSSize=10, maxGSSize=500, pvalueCutoff=1, verbose=FALSE)`,
+            'KEGG': `gseKEGG(geneList=kegg_gene_list, organism='${kegg.code}', keyType='${kegg.keyType}', minGSSize=10, maxGSSize=500, pvalueCutoff=1, verbose=FALSE)`,
         };
 
         const rCode = `
             library(clusterProfiler)
-            library(org.Hs.eg.db)
+            library(${orgDb})
             
             # Read ranked gene list from virtual file
             gene_list_df <- read.csv('/data/gene_list.csv')
+
+            # Match symbols to the OrgDb case-insensitively, so that each organism's
+            # convention applies (TP53 in human, Trp53 in mouse, tp53 in zebrafish)
+            org_symbols <- keys(${orgDb}, keytype="${symbolKeyType}")
+            canonical <- org_symbols[match(toupper(gene_list_df$gene), toupper(org_symbols))]
+            original_names <- setNames(gene_list_df$gene, ifelse(is.na(canonical), gene_list_df$gene, canonical))
+            gene_list_df$gene <- names(original_names)
+
             geneList <- gene_list_df$log2FC
             names(geneList) <- gene_list_df$gene
             
@@ -274,16 +983,16 @@ export class RService {
             geneList <- sort(geneList, decreasing = TRUE)
             
             gsea_results <- NULL
-            # Special handling for KEGG, which requires Entrez IDs
+            # Special handling for KEGG, which requires Entrez IDs (ORF names for yeast)
             if ("${database}" == "KEGG") {
-                ids <- bitr(names(geneList), fromType="SYMBOL", toType="ENTREZID", OrgDb="org.Hs.eg.db")
-                dedup_ids <- ids[!duplicated(ids[c("SYMBOL")]),]
+                ids <- bitr(names(geneList), fromType="${symbolKeyType}", toType="${kegg.idColumn}", OrgDb="${orgDb}")
+                dedup_ids <- ids[!duplicated(ids[c("${symbolKeyType}")]),]
                 
-                df2 <- gene_list_df[gene_list_df$gene %in% dedup_ids$SYMBOL,]
-                df2 <- merge(df2, dedup_ids, by.x="gene", by.y="SYMBOL")
+                df2 <- gene_list_df[gene_list_df$gene %in% dedup_ids$${symbolKeyType},]
+                df2 <- merge(df2, dedup_ids, by.x="gene", by.y="${symbolKeyType}")
 
                 kegg_gene_list <- df2$log2FC
-                names(kegg_gene_list) <- df2$ENTREZID
+                names(kegg_gene_list) <- df2$${kegg.idColumn}
                 kegg_gene_list <- sort(kegg_gene_list, decreasing = TRUE)
                 
                 gsea_results <- tryCatch({ ${dbCommand['KEGG']} }, error = function(e) { return(NULL) })
@@ -295,12 +1004,23 @@ export class RService {
             if (is.null(gsea_results) || nrow(as.data.frame(gsea_results)) == 0) {
                 "[]"
             } else {
-                jsonlite::toJSON(as.data.frame(gsea_results))
+                if ("${database}" == "KEGG") {
+                    # KEGG leading edges are Entrez IDs (ORF names for yeast); convert them to
+                    # symbols, keeping the IDs if the OrgDb cannot
+                    gsea_results <- tryCatch(setReadable(gsea_results, OrgDb = ${orgDb}, keyType = "${kegg.idColumn}"), error = function(e) gsea_results)
+                }
+                gsea_df <- as.data.frame(gsea_results)
+                # Report leading-edge genes under the names used in the uploaded data
+                gsea_df$core_enrichment <- sapply(strsplit(gsea_df$core_enrichment, "/"), function(g) {
+                    uploaded <- original_names[g]
+                    paste(ifelse(is.na(uploaded), g, uploaded), collapse="/")
+                })
+                jsonlite::toJSON(gsea_df)
             }
         `;
 
         try {
-            this.statusLogCallback(`Running GSEA with ${database}...`);
+            this.statusLogCallback(`Running GSEA with ${database} (${ORGANISMS[organism].label})...`);
             const result = await this.webR.evalR(rCode);
             const jsonResult = await result.toJs();
             await this.webR.FS.unlink('/data/gene_list.csv');
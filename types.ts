@@ -1,16 +1,88 @@
 
+// Why DESeq2 reported no (adjusted) p-value for a gene. Such genes are kept in the
+// results and flagged rather than dropped.
+export type GeneResultFlag = 'all_zero' | 'low_count' | 'outlier';
+
 export interface GeneData {
   gene: string;
-  log2FoldChange: number;
-  pvalue: number; // Note: This will be the adjusted p-value (padj) from DESeq2
-  negLog10PValue: number;
-  averageExpression?: number; // Note: This will be the baseMean from DESeq2
+  baseMean: number;
+  log2FoldChange: number | null; // null when every count is zero
+  lfcSE: number | null;
+  stat: number | null;
+  pvalue: number | null; // raw p-value; null for all-zero genes and Cook's outliers
+  padj: number | null; // also null for genes removed by independent filtering
+  negLog10PValue: number | null; // -log10(pvalue)
+  flag?: GeneResultFlag;
+  // Present when the run used lfcShrink
+  log2FoldChangeShrunk?: number | null;
+  lfcSEShrunk?: number | null;
 }
 
-export type AnalysisType = 'summary' | 'volcano' | 'ma_plot' | 'heatmap' | 'gsea';
+export type LfcShrinkType = 'none' | 'apeglm' | 'ashr' | 'normal';
+
+// Which log2 fold change the plots, rankings and AI summaries use.
+export type LfcMode = 'raw' | 'shrunk';
+
+// Differential expression method a comparison was run with.
+export type DeEngine = 'deseq2' | 'edger' | 'limma';
+
+// Wald tests compare two conditions; a likelihood ratio test (DESeq2 only) asks whether
+// the terms dropped from the reduced design explain any change at all.
+export type DeTest = 'wald' | 'lrt';
+
+// A Wald-type comparison, as weights on the condition means. Pairwise contrasts are
+// +1 for one condition and -1 for the baseline; custom ones can weight any groups as
+// long as the weights sum to zero, e.g. an interaction
+// (treated_KO - control_KO) - (treated_WT - control_WT).
+export interface ConditionContrast {
+    name: string;
+    kind: 'pairwise' | 'custom';
+    baseline: string; // reference level of the fitted model
+    weights: { [condition: string]: number };
+}
+
+export interface LrtSpec {
+    baseline: string; // reference level, which the reported fold changes are relative to
+    droppedTerms: string[]; // full-design terms left out of the reduced design
+}
+
+export type AnalysisType = 'summary' | 'volcano' | 'ma_plot' | 'heatmap' | 'gsea' | 'concordance' | 'qc' | 'diagnostics';
 
 export type ClusteringMethod = 'ward.D2' | 'complete' | 'average' | 'single';
 
+// 1 - correlation for pearson and spearman
+export type ClusteringDistance = 'euclidean' | 'pearson' | 'spearman';
+
+// An hclust tree as R returns it. In merge, negative entries are leaves (-i is leaf i)
+// and positive ones earlier merges (j is row j), both 1-based.
+export interface Dendrogram {
+    merge: [number, number][];
+    height: number[];
+    order: number[]; // leaf indices in plot order, 0-based
+}
+
+// Row-scaled VST expression of selected genes (genes x samples), clustered both ways.
+export interface ExpressionHeatmapData {
+    genes: string[];
+    samples: string[];
+    zScores: number[][]; // per gene, its z-scores in the order of samples; constant genes are 0
+    rowTree: Dendrogram | null; // null with fewer than two genes
+    colTree: Dendrogram | null;
+    method: ClusteringMethod;
+    distance: ClusteringDistance;
+    removedBlock: string | null; // pairing column whose effect was removed before scaling
+}
+
+export type HeatmapPalette = 'blue_white_red' | 'blue_black_yellow' | 'viridis';
+
+export type HeatmapRanking = 'padj' | 'lfc' | 'variance';
+
+// A named gene list kept for later heatmaps
+export interface GeneSelection {
+    name: string;
+    genes: string[];
+}
+
 export interface GseaResult {
     ID: string;
     Description: string;
@@ -44,11 +116,261 @@ export type CountMatrix = {
     [key: string]: { [key: string]: number };
 };
 
-export type SampleMetadata = {
-    // sample_name -> condition
+export type CovariateValue = string | number;
+
+export type CovariateType = 'categorical' | 'numeric';
+
+export interface SampleInfo {
+    condition: string;
+    // covariate column -> value (numeric columns hold numbers)
+    covariates: { [key: string]: CovariateValue };
+}
+
+export type FeatureLengths = {
+    // gene identifier -> feature length in bases
+    [key: string]: number;
+};
+
+export type CountFileFormat = 'matrix' | 'excel' | 'featureCounts' | 'htseq' | 'star' | 'salmon' | 'kallisto' | 'mtx';
+
+export type Tx2GeneMap = {
+    // transcript identifier -> gene identifier
+    [key: string]: string;
+};
+
+// Where each single-cell barcode belongs, for pseudobulk imports.
+export interface CellAssignment {
+    sample: string;
+    cellType?: string;
+    condition?: string;
+}
+
+export type CellAssignments = {
+    // cell barcode -> sample (and cell type)
+    [key: string]: CellAssignment;
+};
+
+// Whether cells are summed per sample or per sample x cell type.
+export type PseudobulkGrouping = 'sample' | 'sample_cell_type';
+
+export type GeneAnnotation = {
+    // Ensembl / Entrez / UniProt identifier -> gene symbol
     [key: string]: string;
 };
 
+export type Organism = 'human' | 'mouse' | 'rat' | 'zebrafish' | 'fly' | 'yeast';
+
+export type IdConversionProviderType = 'mygene' | 'local';
+
+export type IdMappingStatus = 'mapped' | 'unmapped' | 'collapsed';
+
+// How several original IDs mapping to the same symbol are combined.
+export type CollapseStrategy = 'sum' | 'max' | 'suffix';
+
+export interface IdMappingOptions {
+    keepUnmapped: boolean;
+    collapseStrategy: CollapseStrategy;
+}
+
+export interface IdMappingRecord {
+    originalId: string;
+    symbol: string | null;
+    status: IdMappingStatus;
+    finalId: string | null; // row name in the analysed matrix, or null if the ID was dropped
+    totalCount: number; // reads across all samples
+}
+
+export type StarStrandedness = 'auto' | 'unstranded' | 'forward' | 'reverse';
+
+export interface CountImportSummary {
+    format: CountFileFormat;
+    sampleCount: number;
+    geneCount: number;
+    unmappedTranscripts?: number;
+    notes: string[];
+    warnings?: string[];
+}
+
+// A rectangular table read from a CSV/TSV file or one workbook sheet. All cells are strings.
+export interface DataTable {
+    headers: string[];
+    rows: string[][];
+}
+
+// Column choices from the column-mapping dialog, as indices into DataTable.headers.
+export interface CountColumnMapping {
+    geneId: number;
+    samples: number[];
+}
+
+export interface MetadataColumnMapping {
+    sample: number;
+    condition: number;
+    covariates: number[];
+}
+
+export type SampleMetadata = {
+    // sample_name -> condition and covariates
+    [key: string]: SampleInfo;
+};
+
+export interface CovariateColumn {
+    name: string;
+    type: CovariateType;
+    hasMissing: boolean;
+}
+
+// A covariate included in the design formula ahead of `condition`.
+export interface DesignTerm {
+    name: string;
+    type: CovariateType;
+}
+
+export type PrefilterRule = 'none' | 'min_count' | 'min_cpm' | 'filter_by_expr';
+
+export interface PrefilterParams {
+    rule: PrefilterRule;
+    minCount: number; // min_count: per-sample count; filter_by_expr: edgeR's min.count
+    minSamples: number; // min_count only
+    minCpm: number; // min_cpm only
+    minTotalCount: number; // filter_by_expr only
+}
+
+export interface PrefilterReport {
+    params: PrefilterParams;
+    description: string;
+    genesBefore: number;
+    genesAfter: number;
+    // Pooled log2-CPM density across samples, before and after filtering
+    density: { logCpm: number; before: number; after: number }[];
+}
+
+// Matched samples (e.g. before/after treatment on the same patient) fitted as
+// ~ subject + condition. Samples whose subject has no sample under another condition
+// carry no within-subject information and are left out.
+export interface PairingReport {
+    column: string; // metadata column identifying the subject or block
+    subjects: number; // subjects kept
+    droppedSamples: { sample: string; subject: string | null; condition: string }[];
+    nestedColumns: string[]; // covariates constant within every subject, so absorbed by the pairing
+}
+
+// How DESeq2 modelled the dispersion-mean trend. 'gene_estimates' means no trend could be
+// fitted and the gene-wise estimates were used as final dispersions.
+export type DispersionFitType = 'parametric' | 'local' | 'mean' | 'glmGamPoi' | 'gene_estimates';
+
+export interface DispersionEstimate {
+    baseMean: number;
+    geneEst: number | null; // gene-wise maximum likelihood estimate
+    fitted: number | null; // value of the fitted trend
+    final: number | null; // shrunken (MAP) estimate used in the tests
+    outlier: boolean; // gene-wise estimate too far above the trend to be shrunk
+}
+
+// Per-sample Cook's distance summary over all genes.
+export interface CooksSampleSummary {
+    sample: string;
+    genesAboveCutoff: number;
+    maxCooks: number;
+}
+
+// Model checks of a DESeq2 fit, shared by every comparison extracted from it.
+export interface Deseq2Diagnostics {
+    dispersions: DispersionEstimate[];
+    fitType: DispersionFitType;
+    fitMessages: string[]; // warnings and errors raised while fitting the dispersions
+    cooksCutoff: number; // DESeq2's default: 99% quantile of F(p, m - p)
+    cooks: CooksSampleSummary[];
+    outlierGeneCount: number; // genes whose largest Cook's distance is above the cutoff
+    // The strongest of them, and the sample driving each
+    outlierGenes: { gene: string; sample: string; cooks: number }[];
+}
+
+export interface ComparisonResult {
+    genes: GeneData[];
+    engine: DeEngine;
+    test: DeTest;
+    contrast: string; // e.g. "treated_vs_control"; shared by every engine run on it
+    design: string; // e.g. "~ batch + sex + condition"
+    reducedDesign?: string; // LRT only, e.g. "~ batch + sex"
+    contrastWeights?: { [condition: string]: number }; // custom contrasts only
+    pairing?: PairingReport;
+    prefilter: PrefilterReport;
+    excludedSamples: string[]; // original names of samples left out of this analysis
+    lfcShrink: LfcShrinkType;
+    reusedFit: boolean; // results were extracted from a DESeq2 fit cached by an earlier comparison
+    diagnostics?: Deseq2Diagnostics; // DESeq2 only
+}
+
+export type CountTransformKind = 'size_factors' | 'normalized' | 'vst' | 'rlog';
+
+// Normalized and variance-stabilized counts (genes x samples) from the DESeq2 model of
+// the last run, kept for export and for plots that need expression values.
+export interface CountTransforms {
+    samples: string[];
+    sizeFactors: { [sample: string]: number };
+    // With transcript-length offsets DESeq2 has per-gene normalization factors; the
+    // per-sample factor is then their geometric mean
+    sizeFactorSource: 'median_ratio' | 'tx_length_offsets';
+    normalized: CountMatrix;
+    vst: CountMatrix;
+    rlog: CountMatrix | null; // skipped for large sample numbers, where it is too slow
+    notes: string[]; // fallbacks taken when the design's dispersion trend could not be used
+    // The R calls each matrix came from, null for an rlog that was skipped or failed
+    methods: Record<CountTransformKind, string | null>;
+    // The run the matrices came from
+    design: string;
+    comparisons: string[];
+    pairing?: PairingReport;
+    excludedSamples: string[];
+}
+
+export type SampleDistanceMethod = 'euclidean' | 'correlation';
+
+// Sample-level QC on the VST matrix: PCA of the most variable genes and the
+// sample-to-sample distances over all genes.
+export interface SampleQc {
+    samples: string[];
+    pcs: number[][]; // per sample, its scores on PC1, PC2, ...
+    varianceExplained: number[]; // fraction of variance per PC
+    ntop: number; // genes used for the PCA
+    distances: number[][]; // sample x sample, in the order of samples
+    clusterOrder: number[]; // hierarchical clustering order of the samples, as indices
+    distance: SampleDistanceMethod;
+    removedBlock: string | null; // pairing column whose effect was removed first
+}
+
+export interface SampleEdit {
+    excluded?: boolean;
+    name?: string; // new sample name
+    condition?: string; // reassigned condition
+}
+
+export type SampleEdits = {
+    // sample name in the uploaded files -> edits
+    [key: string]: SampleEdit;
+};
+
+export type ValidationSeverity = 'blocking' | 'warning';
+
+// A one-click correction offered alongside a validation issue.
+export type ValidationFix =
+    | { kind: 'drop_samples'; samples: string[] }
+    | { kind: 'drop_genes'; genes: string[] }
+    | { kind: 'round_counts' }
+    | { kind: 'zero_invalid_counts' };
+
+export interface ValidationIssue {
+    id: string;
+    severity: ValidationSeverity;
+    title: string;
+    items: string[]; // offending samples, genes, cells or conditions
+    fixes?: {
+        label: string;
+        action: ValidationFix;
+    }[];
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
@@ -0,0 +1,113 @@
+import type { GeneAnnotation } from '../types';
+import { streamFileText } from './fileStream';
+
+export type AnnotationFormat = 'gtf' | 'gff3' | 'table';
+
+export interface ParsedAnnotation {
+    format: AnnotationFormat;
+    annotation: GeneAnnotation;
+}
+
+const stripVersion = (id: string) => id.split('.')[0];
+
+const isEnsemblId = (id: string) => /^ENS[A-Z]*[GTP]\d+(\.\d+)?$/i.test(id);
+
+// GTF attributes: gene_id "ENSG00000223972.5"; gene_name "DDX11L1"; db_xref "GeneID:100287102";
+const parseGtfAttributes = (field: string): Map<string, string[]> => {
+    const attributes = new Map<string, string[]>();
+    for (const match of field.matchAll(/(\S+)\s+"([^"]*)"/g)) {
+        const values = attributes.get(match[1]) ?? [];
+        values.push(match[2]);
+        attributes.set(match[1], values);
+    }
+    return attributes;
+};
+
+// GFF3 attributes: ID=gene-DDX11L1;Dbxref=GeneID:100287102,HGNC:HGNC:37102;Name=DDX11L1
+const parseGff3Attributes = (field: string): Map<string, string[]> => {
+    const attributes = new Map<string, string[]>();
+    for (const pair of field.split(';')) {
+        const separator = pair.indexOf('=');
+        if (separator === -1) continue;
+        const key = pair.slice(0, separator).trim();
+        const values = pair.slice(separator + 1).split(',').map(v => decodeURIComponent(v.trim()));
+        attributes.set(key, [...(attributes.get(key) ?? []), ...values]);
+    }
+    return attributes;
+};
+
+// Collects every identifier on a feature that can be mapped to its symbol: the
+// Ensembl or RefSeq gene ID, and Entrez / UniProt cross-references.
+const addFeature = (annotation: GeneAnnotation, attributes: Map<string, string[]>) => {
+    const first = (key: string) => attributes.get(key)?.[0];
+    const symbol = first('gene_name') ?? first('gene') ?? first('gene_symbol') ?? first('Name');
+    if (!symbol) return;
+
+    const ids: string[] = [];
+    const geneId = first('gene_id') ?? first('ID')?.replace(/^gene[:-]/, '');
+    if (geneId && geneId !== symbol) ids.push(geneId);
+
+    const xrefs = [...(attributes.get('db_xref') ?? []), ...(attributes.get('Dbxref') ?? [])];
+    for (const xref of xrefs) {
+        const [db, ...rest] = xref.split(':');
+        const value = rest.join(':');
+        if (db === 'GeneID' || db.startsWith('UniProtKB')) ids.push(value);
+    }
+
+    for (const id of ids) {
+        const key = isEnsemblId(id) ? stripVersion(id) : id;
+        // The first feature seen (normally the gene line) wins
+        annotation[key] ??= symbol;
+    }
+};
+
+const detectAnnotationFormat = (line: string): AnnotationFormat => {
+    const fields = line.split('\t');
+    if (fields.length >= 9) {
+        if (/\S+\s+"[^"]*"/.test(fields[8])) return 'gtf';
+        if (fields[8].includes('=')) return 'gff3';
+    }
+    return 'table';
+};
+
+// Builds an identifier -> symbol map from a GTF, GFF3 or two-column (ID, symbol)
+// table, streaming the file line by line so full genome annotations fit in memory.
+// Ensembl IDs are stored without their version suffix.
+export const parseAnnotationFile = async (file: File): Promise<ParsedAnnotation> => {
+    const annotation: GeneAnnotation = {};
+    let format: AnnotationFormat | null = null;
+    let pending = '';
+
+    const handleLine = (line: string) => {
+        if (line === '' || line.startsWith('#')) {
+            if (line.startsWith('##gff-version 3')) format ??= 'gff3';
+            return;
+        }
+        format ??= detectAnnotationFormat(line);
+
+        if (format === 'table') {
+            const [id, symbol] = line.split(/[\t,]/).map(v => v.replace(/"/g, '').trim());
+            if (!id || !symbol) return;
+            annotation[isEnsemblId(id) ? stripVersion(id) : id] ??= symbol;
+            return;
+        }
+
+        const fields = line.split('\t');
+        if (fields.length < 9) return;
+        addFeature(annotation, format === 'gtf' ? parseGtfAttributes(fields[8]) : parseGff3Attributes(fields[8]));
+    };
+
+    await streamFileText(file, chunk => {
+        const lines = (pending + chunk).split(/\r?\n/);
+        pending = lines.pop() ?? '';
+        lines.forEach(handleLine);
+    });
+    handleLine(pending);
+
+    return { format: format ?? 'table', annotation };
+};
+
+// Looks up a gene identifier, falling back to its unversioned Ensembl form.
+export const lookupSymbol = (annotation: GeneAnnotation, id: string): string | undefined => {
+    return annotation[id] ?? (isEnsemblId(id) ? annotation[stripVersion(id)] : undefined);
+};
@@ -0,0 +1,66 @@
+import type { ComparisonResult, DeEngine, LfcMode } from '../types';
+import { getSignificantGenes } from './results';
+
+export interface EngineDegSet {
+    engine: DeEngine;
+    up: Set<string>;
+    down: Set<string>;
+}
+
+export interface EngineOverlap {
+    a: DeEngine;
+    b: DeEngine;
+    shared: number; // significant in both, in the same direction
+    opposite: number; // significant in both, in opposite directions
+    union: number;
+    jaccard: number;
+}
+
+export interface ConcordanceReport {
+    engines: EngineDegSet[];
+    pairs: EngineOverlap[];
+    sharedByAll: string[];
+}
+
+const directionOf = (set: EngineDegSet, gene: string): 'up' | 'down' | null =>
+    set.up.has(gene) ? 'up' : set.down.has(gene) ? 'down' : null;
+
+// Compares the DEG calls of several engines run on the same contrast, using the same
+// padj and fold-change cut-offs as the gene lists.
+export const computeConcordance = (results: ComparisonResult[], padjThreshold: number, lfcMode: LfcMode): ConcordanceReport => {
+    const engines = results.map((result): EngineDegSet => {
+        const { up, down } = getSignificantGenes(result.genes, padjThreshold, lfcMode);
+        return { engine: result.engine, up: new Set(up.map(g => g.gene)), down: new Set(down.map(g => g.gene)) };
+    });
+
+    const pairs: EngineOverlap[] = [];
+    engines.forEach((a, i) => engines.slice(i + 1).forEach(b => {
+        const genes = new Set([...a.up, ...a.down, ...b.up, ...b.down]);
+        let shared = 0;
+        let opposite = 0;
+        genes.forEach(gene => {
+            const da = directionOf(a, gene);
+            const db = directionOf(b, gene);
+            if (da && db) da === db ? shared++ : opposite++;
+        });
+        pairs.push({ a: a.engine, b: b.engine, shared, opposite, union: genes.size, jaccard: genes.size > 0 ? shared / genes.size : 0 });
+    }));
+
+    const [first, ...rest] = engines;
+    const sharedByAll = first
+        ? [...first.up, ...first.down].filter(gene => rest.every(set => directionOf(set, gene) === directionOf(first, gene))).sort()
+        : [];
+
+    return { engines, pairs, sharedByAll };
+};
+
+// One row per gene called by any engine, with its direction in each, for spreadsheet export.
+export const toMembershipRows = (report: ConcordanceReport, labels: { [key in DeEngine]: string }) => {
+    const genes = new Set(report.engines.flatMap(set => [...set.up, ...set.down]));
+    return [...genes].sort().map(gene => {
+        const row: { [key: string]: string | number } = { gene };
+        report.engines.forEach(set => { row[labels[set.engine]] = directionOf(set, gene) ?? ''; });
+        row.engines = report.engines.filter(set => directionOf(set, gene)).length;
+        return row;
+    });
+};
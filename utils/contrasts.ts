@@ -0,0 +1,51 @@
+import type { ConditionContrast } from '../types';
+
+// Weights this close to zero are treated as zero when checking a contrast.
+const TOLERANCE = 1e-9;
+
+export const pairwiseContrast = (baseline: string, comparison: string): ConditionContrast => ({
+    name: `${comparison}_vs_${baseline}`,
+    kind: 'pairwise',
+    baseline,
+    weights: { [comparison]: 1, [baseline]: -1 },
+});
+
+// Every pair of conditions once, with the earlier condition as the baseline.
+export const allPairwiseContrasts = (conditions: string[]): ConditionContrast[] =>
+    conditions.flatMap((baseline, i) => conditions.slice(i + 1).map(comparison => pairwiseContrast(baseline, comparison)));
+
+// The condition a contrast compares with its baseline when that is all it does, so the
+// comparison is a single model coefficient (which apeglm needs). Null otherwise.
+export const getSingleCoefficient = (contrast: ConditionContrast): string | null => {
+    const others = Object.keys(contrast.weights).filter(c => c !== contrast.baseline && contrast.weights[c] !== 0);
+    if (others.length !== 1 || contrast.weights[others[0]] !== 1) return null;
+    const baselineWeight = contrast.weights[contrast.baseline] ?? 0;
+    return baselineWeight === -1 ? others[0] : null;
+};
+
+const formatWeight = (weight: number): string => {
+    const magnitude = Math.abs(weight);
+    return magnitude === 1 ? '' : `${Number(magnitude.toPrecision(4))} `;
+};
+
+// e.g. "treated_KO - control_KO - treated_WT + control_WT" or "0.5 a + 0.5 b - c"
+export const formatContrast = (weights: { [condition: string]: number }): string =>
+    Object.keys(weights)
+        .filter(c => weights[c] !== 0)
+        .map((c, i) => {
+            const sign = weights[c] < 0 ? '-' : '+';
+            const term = `${formatWeight(weights[c])}${c}`;
+            return i === 0 ? `${sign === '-' ? '-' : ''}${term}` : `${sign} ${term}`;
+        })
+        .join(' ');
+
+// Returns why a custom contrast cannot be tested, or null when it is valid.
+export const validateContrast = (name: string, weights: { [condition: string]: number }, existingNames: string[]): string | null => {
+    const values = Object.values(weights).filter(w => w !== 0);
+    if (!name.trim()) return 'Give the contrast a name.';
+    if (existingNames.includes(name.trim())) return `A contrast named "${name.trim()}" already exists.`;
+    if (values.length < 2) return 'Weight at least two conditions.';
+    if (values.some(w => !isFinite(w))) return 'Weights must be numbers.';
+    if (Math.abs(values.reduce((sum, w) => sum + w, 0)) > TOLERANCE) return 'The weights must sum to zero.';
+    return null;
+};
@@ -0,0 +1,59 @@
+import type { CountMatrix, CountTransformKind, CountTransforms } from '../types';
+import { describeDroppedSample } from './pairing';
+
+export const COUNT_TRANSFORM_LABELS: Record<CountTransformKind, string> = {
+    size_factors: 'Size Factors',
+    normalized: 'Normalized Counts',
+    vst: 'VST',
+    rlog: 'rlog',
+};
+
+// One row per gene, one column per sample.
+const toMatrixRows = (matrix: CountMatrix, samples: string[]) =>
+    Object.keys(matrix).map(gene => ({ gene, ...Object.fromEntries(samples.map(s => [s, matrix[gene][s]])) }));
+
+export const getAvailableTransforms = (transforms: CountTransforms): CountTransformKind[] =>
+    (['size_factors', 'normalized', 'vst', 'rlog'] as CountTransformKind[]).filter(kind => kind !== 'rlog' || transforms.rlog !== null);
+
+export const toTransformRows = (transforms: CountTransforms, kind: CountTransformKind): any[] => {
+    switch (kind) {
+        case 'size_factors':
+            return transforms.samples.map(sample => ({ sample, sizeFactor: transforms.sizeFactors[sample] }));
+        case 'normalized':
+            return toMatrixRows(transforms.normalized, transforms.samples);
+        case 'vst':
+            return toMatrixRows(transforms.vst, transforms.samples);
+        case 'rlog':
+            return transforms.rlog ? toMatrixRows(transforms.rlog, transforms.samples) : [];
+    }
+};
+
+// The DESeq2 call R reports for the matrix, including any fallback it had to take
+const getMethod = (transforms: CountTransforms, kind: CountTransformKind): string =>
+    `DESeq2 ${transforms.methods[kind]}`;
+
+// Where a matrix came from, as key/value pairs for a CSV header or a metadata sheet.
+export const describeTransforms = (transforms: CountTransforms, kind?: CountTransformKind): { key: string; value: string }[] => {
+    return [
+        ...(kind ? [{ key: 'matrix', value: COUNT_TRANSFORM_LABELS[kind] }, { key: 'method', value: getMethod(transforms, kind) }] : []),
+        { key: 'design', value: transforms.design },
+        { key: 'comparisons', value: transforms.comparisons.join('; ') },
+        { key: 'samples', value: String(transforms.samples.length) },
+        { key: 'genes', value: String(Object.keys(transforms.normalized).length) },
+        ...(transforms.pairing ? [{ key: 'paired by', value: `${transforms.pairing.column} (${transforms.pairing.subjects} subjects)` }] : []),
+        ...(transforms.pairing?.droppedSamples.length ? [{ key: 'unpaired samples left out', value: transforms.pairing.droppedSamples.map(describeDroppedSample).join('; ') }] : []),
+        ...(transforms.excludedSamples.length ? [{ key: 'excluded samples', value: transforms.excludedSamples.join('; ') }] : []),
+        ...(transforms.notes.length ? [{ key: 'notes', value: transforms.notes.join(' ') }] : []),
+        { key: 'exported', value: new Date().toISOString() },
+    ];
+};
+
+// A metadata sheet followed by one sheet per available matrix.
+export const toWorkbookSheets = (transforms: CountTransforms): { name: string; data: any[] }[] => {
+    const kinds = getAvailableTransforms(transforms);
+    const methods = kinds.map(kind => ({ key: `${COUNT_TRANSFORM_LABELS[kind]} sheet`, value: getMethod(transforms, kind) }));
+    return [
+        { name: 'Metadata', data: [...describeTransforms(transforms), ...methods] },
+        ...kinds.map(kind => ({ name: COUNT_TRANSFORM_LABELS[kind], data: toTransformRows(transforms, kind) })),
+    ];
+};
@@ -0,0 +1,285 @@
+import type { CountFileFormat, CountMatrix, StarStrandedness, Tx2GeneMap } from '../types';
+import { CountMatrixBuilder, detectGeneIdentifier } from './countMatrix';
+
+// Number of annotation columns (Chr, Start, End, Strand, Length) after Geneid in a featureCounts table.
+const FEATURE_COUNTS_ANNOTATION_COLUMNS = 5;
+
+const STAR_COLUMN: { [key in Exclude<StarStrandedness, 'auto'>]: number } = {
+    unstranded: 1,
+    forward: 2,
+    reverse: 3,
+};
+
+// Suffixes stripped from file names to derive a sample name, longest first.
+const SAMPLE_FILE_SUFFIXES = [
+    'ReadsPerGene.out.tab', 'quant.sf', 'abundance.tsv', '.htseq.counts', '.htseq.txt', '.htseq', '.counts', '.count', '.txt', '.tsv', '.tab',
+];
+
+export const detectCountFileFormat = (fileName: string, head: string): CountFileFormat => {
+    const lines = head.split(/\r?\n/).filter(line => line.trim() !== '');
+    const firstLine = lines[0] ?? '';
+
+    if (firstLine.startsWith('# Program:featureCounts') || /^Geneid\tChr\tStart\tEnd\tStrand\tLength/.test(firstLine)) {
+        return 'featureCounts';
+    }
+    if (/^Name\tLength\tEffectiveLength\tTPM\tNumReads/.test(firstLine)) {
+        return 'salmon';
+    }
+    if (/^target_id\tlength\teff_length\test_counts\ttpm/.test(firstLine)) {
+        return 'kallisto';
+    }
+    if (/ReadsPerGene\.out\.tab/i.test(fileName) || (firstLine.startsWith('N_unmapped') && firstLine.split('\t').length === 4)) {
+        return 'star';
+    }
+
+    // HTSeq-count output is headerless: gene id and an integer count on every line
+    const sample = lines.slice(0, 20);
+    if (sample.length > 0 && sample.every(line => /^[^\t]+\t\d+$/.test(line))) {
+        return 'htseq';
+    }
+
+    return 'matrix';
+};
+
+export const sampleNameFromFileName = (fileName: string): string => {
+    let name = fileName.split(/[\\/]/).pop() ?? fileName;
+    name = name.replace(/\.gz$/i, '');
+    const suffix = SAMPLE_FILE_SUFFIXES.find(s => name.toLowerCase().endsWith(s.toLowerCase()) && name.length > s.length);
+    // STAR prefixes are often written as "sample_" or "sample."
+    return suffix ? name.slice(0, -suffix.length).replace(/[._-]+$/, '') : name;
+};
+
+// featureCounts names its sample columns after the BAM paths it counted.
+const sampleNameFromBamPath = (path: string): string => {
+    const name = path.split(/[\\/]/).pop() ?? path;
+    return name.replace(/\.bam$/i, '').replace(/\.?Aligned\.sortedByCoord\.out$/, '').replace(/\.?Aligned\.out$/, '');
+};
+
+// Feeds one tab-separated featureCounts row into the builder, dropping the leading
+// "#" program line and keeping the Length column as the feature length.
+export const addFeatureCountsRow = (builder: CountMatrixBuilder, row: string[]) => {
+    if (row[0].startsWith('#')) return;
+
+    const counts = row.slice(FEATURE_COUNTS_ANNOTATION_COLUMNS + 1);
+    if (!builder.hasHeader) {
+        builder.addRow([row[0], ...counts.map(sampleNameFromBamPath)]);
+        return;
+    }
+    builder.addRow([row[0], ...counts], Number(row[FEATURE_COUNTS_ANNOTATION_COLUMNS]));
+};
+
+export interface PerSampleCounts {
+    sample: string;
+    counts: Map<string, number>;
+    droppedRows: number;
+}
+
+// HTSeq-count appends summary rows such as __no_feature and __ambiguous.
+export const parseHtseqCounts = (sample: string, text: string): PerSampleCounts => {
+    const counts = new Map<string, number>();
+    let droppedRows = 0;
+
+    for (const line of text.split(/\r?\n/)) {
+        const [gene, value] = line.trim().split('\t');
+        if (!gene || value === undefined) continue;
+        if (gene.startsWith('__')) {
+            droppedRows++;
+            continue;
+        }
+        counts.set(gene, parseInt(value, 10));
+    }
+    return { sample, counts, droppedRows };
+};
+
+export interface StarReadsPerGene {
+    sample: string;
+    columns: Map<string, number[]>;
+    droppedRows: number;
+}
+
+// STAR ReadsPerGene.out.tab: four N_* summary rows, then gene id and the counts for
+// unstranded, forward-stranded and reverse-stranded libraries.
+export const parseStarReadsPerGene = (sample: string, text: string): StarReadsPerGene => {
+    const columns = new Map<string, number[]>();
+    let droppedRows = 0;
+
+    for (const line of text.split(/\r?\n/)) {
+        const [gene, ...values] = line.trim().split('\t');
+        if (!gene || values.length < 3) continue;
+        if (gene.startsWith('N_')) {
+            droppedRows++;
+            continue;
+        }
+        columns.set(gene, values.slice(0, 3).map(v => parseInt(v, 10)));
+    }
+    return { sample, columns, droppedRows };
+};
+
+// Infers library strandedness the way it is usually eyeballed: one strand-specific
+// column carrying most of the reads means a stranded library.
+export const inferStarStrandedness = (columns: Map<string, number[]>): Exclude<StarStrandedness, 'auto'> => {
+    let forward = 0;
+    let reverse = 0;
+    columns.forEach(values => {
+        forward += values[STAR_COLUMN.forward - 1] || 0;
+        reverse += values[STAR_COLUMN.reverse - 1] || 0;
+    });
+    if (forward > 4 * reverse) return 'forward';
+    if (reverse > 4 * forward) return 'reverse';
+    return 'unstranded';
+};
+
+export const selectStarColumn = (
+    parsed: StarReadsPerGene,
+    strandedness: Exclude<StarStrandedness, 'auto'>
+): PerSampleCounts => {
+    const counts = new Map<string, number>();
+    parsed.columns.forEach((values, gene) => counts.set(gene, values[STAR_COLUMN[strandedness] - 1]));
+    return { sample: parsed.sample, counts, droppedRows: parsed.droppedRows };
+};
+
+// Joins per-sample count files into one matrix. Genes missing from a file count as zero.
+export const mergePerSampleCounts = (builder: CountMatrixBuilder, samples: PerSampleCounts[]) => {
+    const genes = new Set<string>();
+    samples.forEach(s => s.counts.forEach((_, gene) => genes.add(gene)));
+
+    builder.addRow(['gene', ...samples.map(s => s.sample)]);
+    genes.forEach(gene => {
+        builder.addRow([gene, ...samples.map(s => String(s.counts.get(gene) ?? 0))]);
+    });
+};
+
+// --- Transcript-level quantifications (Salmon / kallisto) ---
+
+const QUANT_COLUMNS: { [key in 'salmon' | 'kallisto']: { id: string; effectiveLength: string; tpm: string; count: string } } = {
+    salmon: { id: 'Name', effectiveLength: 'EffectiveLength', tpm: 'TPM', count: 'NumReads' },
+    kallisto: { id: 'target_id', effectiveLength: 'eff_length', tpm: 'tpm', count: 'est_counts' },
+};
+
+export interface TranscriptQuant {
+    sample: string;
+    ids: string[];
+    effectiveLengths: number[];
+    tpm: number[];
+    counts: number[];
+}
+
+export const parseTranscriptQuant = (format: 'salmon' | 'kallisto', sample: string, text: string): TranscriptQuant => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const header = (lines[0] ?? '').split('\t');
+    const columns = QUANT_COLUMNS[format];
+    const index = {
+        id: header.indexOf(columns.id),
+        effectiveLength: header.indexOf(columns.effectiveLength),
+        tpm: header.indexOf(columns.tpm),
+        count: header.indexOf(columns.count),
+    };
+    if (Object.values(index).some(i => i === -1)) {
+        throw new Error(`${sample} is missing one of the expected ${format} columns: ${Object.values(columns).join(', ')}.`);
+    }
+
+    const quant: TranscriptQuant = { sample, ids: [], effectiveLengths: [], tpm: [], counts: [] };
+    for (let i = 1; i < lines.length; i++) {
+        const values = lines[i].split('\t');
+        quant.ids.push(values[index.id]);
+        quant.effectiveLengths.push(parseFloat(values[index.effectiveLength]));
+        quant.tpm.push(parseFloat(values[index.tpm]));
+        quant.counts.push(parseFloat(values[index.count]));
+    }
+    return quant;
+};
+
+const stripVersion = (id: string) => id.split('.')[0];
+
+// Reads a two-column transcript -> gene table (CSV or TSV, header optional).
+// Versioned Ensembl transcript IDs are also indexed without their version.
+export const parseTx2Gene = (text: string): Tx2GeneMap => {
+    const tx2gene: Tx2GeneMap = {};
+    for (const line of text.split(/\r?\n/)) {
+        const [tx, gene] = line.trim().split(/[\t,]/).map(v => v.replace(/"/g, '').trim());
+        if (!tx || !gene) continue;
+        tx2gene[tx] = gene;
+        tx2gene[stripVersion(tx)] ??= gene;
+    }
+    return tx2gene;
+};
+
+const lookupGene = (tx2gene: Tx2GeneMap, transcriptId: string): string | undefined => {
+    // Salmon run without --gencode keeps the whole GENCODE header: ENST...|ENSG...|...
+    const id = transcriptId.split('|')[0];
+    return tx2gene[id] ?? tx2gene[stripVersion(id)];
+};
+
+export interface GeneLevelQuant {
+    matrix: CountMatrix;
+    averageTxLengths: CountMatrix;
+    transcriptCount: number;
+    unmappedTranscripts: number;
+}
+
+// tximport-style summarisation (countsFromAbundance = "no"): gene counts are the sum
+// of transcript counts, and the gene length per sample is the abundance-weighted mean
+// of its transcripts' effective lengths. Where a gene has no abundance in a sample,
+// the mean transcript length across samples is used instead.
+export const summarizeToGenes = (quants: TranscriptQuant[], tx2gene: Tx2GeneMap): GeneLevelQuant => {
+    const allTranscripts = new Set<string>();
+    const unmapped = new Set<string>();
+    const perSample = quants.map(() => new Map<string, { count: number; tpm: number; weightedLength: number }>());
+    const lengthTotals = new Map<string, { sum: number; n: number }>();
+
+    quants.forEach((quant, s) => {
+        for (let i = 0; i < quant.ids.length; i++) {
+            const tx = quant.ids[i];
+            allTranscripts.add(tx);
+            const gene = lookupGene(tx2gene, tx);
+            if (!gene) {
+                unmapped.add(tx);
+                continue;
+            }
+            const entry = perSample[s].get(gene) ?? { count: 0, tpm: 0, weightedLength: 0 };
+            entry.count += quant.counts[i] || 0;
+            entry.tpm += quant.tpm[i] || 0;
+            entry.weightedLength += (quant.tpm[i] || 0) * quant.effectiveLengths[i];
+            perSample[s].set(gene, entry);
+
+            const total = lengthTotals.get(gene) ?? { sum: 0, n: 0 };
+            total.sum += quant.effectiveLengths[i];
+            total.n++;
+            lengthTotals.set(gene, total);
+        }
+    });
+
+    // Trim Ensembl gene versions the same way plain count matrices are handled. Versions
+    // collapsing onto one ID are pooled first, so its length stays abundance-weighted.
+    const trimVersions = detectGeneIdentifier([...lengthTotals.keys()]) === 'ensembl';
+    const pooled = new Map<string, { sum: number; n: number; samples: { count: number; tpm: number; weightedLength: number }[] }>();
+    lengthTotals.forEach((total, gene) => {
+        const geneId = trimVersions ? stripVersion(gene) : gene;
+        const target = pooled.get(geneId) ?? { sum: 0, n: 0, samples: quants.map(() => ({ count: 0, tpm: 0, weightedLength: 0 })) };
+        target.sum += total.sum;
+        target.n += total.n;
+        perSample.forEach((entries, s) => {
+            const entry = entries.get(gene);
+            if (!entry) return;
+            target.samples[s].count += entry.count;
+            target.samples[s].tpm += entry.tpm;
+            target.samples[s].weightedLength += entry.weightedLength;
+        });
+        pooled.set(geneId, target);
+    });
+
+    const matrix: CountMatrix = {};
+    const averageTxLengths: CountMatrix = {};
+    pooled.forEach((gene, geneId) => {
+        const fallbackLength = gene.sum / gene.n;
+        matrix[geneId] = {};
+        averageTxLengths[geneId] = {};
+        quants.forEach((quant, s) => {
+            const { count, tpm, weightedLength } = gene.samples[s];
+            matrix[geneId][quant.sample] = count;
+            averageTxLengths[geneId][quant.sample] = tpm > 0 ? weightedLength / tpm : fallbackLength;
+        });
+    });
+
+    return { matrix, averageTxLengths, transcriptCount: allTranscripts.size, unmappedTranscripts: unmapped.size };
+};
@@ -0,0 +1,141 @@
+import type { CountMatrix, FeatureLengths, GeneIdentifierType } from '../types';
+
+export interface ParsedCountMatrix {
+    matrix: CountMatrix;
+    identifierType: GeneIdentifierType;
+    featureLengths?: FeatureLengths;
+    // Gene x sample average transcript lengths, for transcript-level imports
+    averageTxLengths?: CountMatrix;
+    // Identifiers that appeared on more than one row, also after trimming Ensembl
+    // versions; their counts were summed
+    duplicateGeneIds?: string[];
+    // Empty or non-numeric cells, kept as NaN in the matrix until validation resolves them
+    invalidCells?: InvalidCountCell[];
+}
+
+export interface InvalidCountCell {
+    gene: string;
+    sample: string;
+    value: string;
+}
+
+const IDENTIFIER_REGEX: { [key in GeneIdentifierType]: RegExp } = {
+    ensembl: /^ENS[A-Z]*G\d+(\.\d+)?$/i,
+    entrez: /^\d+$/,
+    uniprot: /^[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2}$|^[OPQ][0-9][A-Z0-9]{3}[0-9]$/i,
+    symbol: /^[A-Z0-9][A-Z0-9-]{1,10}$/i, // A bit loose, but a decent guess
+    unknown: /.*/,
+};
+
+export const detectGeneIdentifier = (ids: string[]): GeneIdentifierType => {
+    const scores: { [key in GeneIdentifierType]: number } = {
+        ensembl: 0, entrez: 0, uniprot: 0, symbol: 0, unknown: 0,
+    };
+
+    const testIds = ids.slice(0, 100);
+
+    for (const id of testIds) {
+        if (IDENTIFIER_REGEX.ensembl.test(id)) scores.ensembl++;
+        else if (IDENTIFIER_REGEX.entrez.test(id)) scores.entrez++;
+        else if (IDENTIFIER_REGEX.uniprot.test(id)) scores.uniprot++;
+        else if (IDENTIFIER_REGEX.symbol.test(id)) scores.symbol++;
+    }
+
+    // Check most specific patterns first
+    if (scores.ensembl / testIds.length > 0.7) return 'ensembl';
+    if (scores.uniprot / testIds.length > 0.7) return 'uniprot';
+    if (scores.entrez / testIds.length > 0.7) return 'entrez';
+    if (scores.symbol / testIds.length > 0.5) return 'symbol';
+
+    return 'unknown';
+};
+
+// Assembles a gene x sample CountMatrix one tokenized row at a time. The first row
+// is the header: a gene identifier column followed by one column per sample.
+// Feature lengths, when the source provides them, are carried along per gene.
+export class CountMatrixBuilder {
+    private sampleNames: string[] | null = null;
+    private rawMatrix: CountMatrix = {};
+    private rawGeneIds: string[] = [];
+    private rawLengths: FeatureLengths = {};
+    private duplicateIds = new Set<string>();
+    private invalidCells: InvalidCountCell[] = [];
+
+    get hasHeader(): boolean {
+        return this.sampleNames !== null;
+    }
+
+    addRow(values: string[], featureLength?: number) {
+        if (!this.sampleNames) {
+            this.sampleNames = values.slice(1).map(h => h.trim());
+            return;
+        }
+        if (values.length < this.sampleNames.length + 1) return;
+
+        const geneId = values[0].trim();
+        if (!geneId) return;
+
+        const row = this.rawMatrix[geneId];
+        if (row) {
+            this.duplicateIds.add(geneId);
+        } else {
+            this.rawGeneIds.push(geneId);
+            this.rawMatrix[geneId] = {};
+        }
+        if (featureLength !== undefined && isFinite(featureLength)) {
+            this.rawLengths[geneId] = featureLength;
+        }
+        for (let j = 0; j < this.sampleNames.length; j++) {
+            // Fractional estimates are kept as-is; validation flags them before analysis.
+            // Number() rejects trailing text that parseFloat would drop ("12abc").
+            const value = values[j + 1].trim();
+            const count = value === '' ? NaN : Number(value);
+            const sample = this.sampleNames[j];
+            if (!isFinite(count)) {
+                this.invalidCells.push({ gene: geneId, sample, value });
+            }
+            this.rawMatrix[geneId][sample] = (row?.[sample] ?? 0) + (isFinite(count) ? count : NaN);
+        }
+    }
+
+    build(): ParsedCountMatrix {
+        const sampleNames = this.sampleNames ?? [];
+        const identifierType = detectGeneIdentifier(this.rawGeneIds);
+        const matrix: CountMatrix = {};
+        const featureLengths: FeatureLengths = {};
+        const trim = (id: string) => identifierType === 'ensembl' ? id.split('.')[0] : id;
+        const duplicateIds = new Set([...this.duplicateIds].map(trim));
+
+        // Process IDs based on detected type
+        for (const rawId of this.rawGeneIds) {
+            const finalId = trim(rawId); // Trim version only if we're sure it's Ensembl
+
+            // Versions of one gene trimmed to the same ID are summed and reported like duplicate rows
+            if (matrix[finalId]) {
+                 duplicateIds.add(finalId);
+                 for (const sample of sampleNames) {
+                    matrix[finalId][sample] = (matrix[finalId][sample] ?? 0) + (this.rawMatrix[rawId][sample] ?? 0);
+                }
+            } else {
+                 matrix[finalId] = this.rawMatrix[rawId];
+            }
+
+            const length = this.rawLengths[rawId];
+            if (length !== undefined) {
+                featureLengths[finalId] = Math.max(featureLengths[finalId] ?? 0, length);
+            }
+        }
+
+        const result: ParsedCountMatrix = { matrix, identifierType };
+        if (Object.keys(featureLengths).length > 0) {
+            result.featureLengths = featureLengths;
+        }
+        if (duplicateIds.size > 0) {
+            result.duplicateGeneIds = [...duplicateIds];
+        }
+        if (this.invalidCells.length > 0) {
+            result.invalidCells = this.invalidCells.map(cell => ({ ...cell, gene: trim(cell.gene) }));
+        }
+        return result;
+    }
+}
@@ -0,0 +1,45 @@
+import { CsvTokenizer } from './csv';
+import { CountMatrixBuilder, type ParsedCountMatrix } from './countMatrix';
+import { addFeatureCountsRow } from './countFormats';
+import { streamFileText } from './fileStream';
+
+export type CountMatrixWorkerMessage =
+    | { type: 'progress'; fraction: number }
+    | { type: 'result'; result: ParsedCountMatrix }
+    | { type: 'error'; message: string };
+
+const post = (message: CountMatrixWorkerMessage) => self.postMessage(message);
+
+export interface CountMatrixWorkerRequest {
+    file: File;
+    format: 'matrix' | 'featureCounts';
+}
+
+self.onmessage = async (event: MessageEvent<CountMatrixWorkerRequest>) => {
+    const { file, format } = event.data;
+    // featureCounts starts with a "#" comment line, so the delimiter cannot be sniffed from it
+    const tokenizer = new CsvTokenizer(format === 'featureCounts' ? '\t' : undefined);
+    const builder = new CountMatrixBuilder();
+    const addRow = format === 'featureCounts'
+        ? (row: string[]) => addFeatureCountsRow(builder, row)
+        : (row: string[]) => builder.addRow(row);
+    let lastReported = 0;
+
+    try {
+        await streamFileText(
+            file,
+            chunk => tokenizer.push(chunk).forEach(addRow),
+            fraction => {
+                // Throttle progress messages to whole percentage steps
+                if (fraction - lastReported >= 0.01 || fraction === 1) {
+                    lastReported = fraction;
+                    post({ type: 'progress', fraction });
+                }
+            }
+        );
+        tokenizer.end().forEach(addRow);
+        post({ type: 'result', result: builder.build() });
+    } catch (e: any) {
+        post({ type: 'error', message: `Could not read ${file.name}: ${e.message}` });
+    }
+};
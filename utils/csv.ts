@@ -0,0 +1,118 @@
+const QUOTE = 34; // "
+const CR = 13;
+const LF = 10;
+
+// Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary chunks (a quoted
+// field or a CRLF pair may be split across them); complete rows are returned as soon
+// as they end. When no delimiter is given, a tab in the first line selects TSV,
+// otherwise comma.
+export class CsvTokenizer {
+    private delimiter: number | null;
+    private pending = '';
+    private started = false;
+    private field = '';
+    private row: string[] = [];
+    private inQuotes = false;
+    private afterQuote = false;
+    private afterCr = false;
+
+    constructor(delimiter?: string) {
+        this.delimiter = delimiter ? delimiter.charCodeAt(0) : null;
+    }
+
+    push(chunk: string): string[][] {
+        if (!this.started) {
+            this.started = true;
+            if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+        }
+        if (this.delimiter === null) {
+            this.pending += chunk;
+            const lineEnd = this.pending.search(/[\r\n]/);
+            if (lineEnd === -1) return [];
+            this.detectDelimiter(this.pending.slice(0, lineEnd));
+            chunk = this.pending;
+            this.pending = '';
+        }
+        return this.tokenize(chunk);
+    }
+
+    end(): string[][] {
+        const rows: string[][] = [];
+        if (this.delimiter === null) {
+            this.detectDelimiter(this.pending);
+            rows.push(...this.tokenize(this.pending));
+            this.pending = '';
+        }
+        if (this.inQuotes || this.field !== '' || this.row.length > 0) {
+            this.endRow(rows);
+        }
+        return rows;
+    }
+
+    private detectDelimiter(headerLine: string) {
+        this.delimiter = (headerLine.includes('\t') ? '\t' : ',').charCodeAt(0);
+    }
+
+    private endRow(rows: string[][]) {
+        this.row.push(this.field);
+        if (this.row.length > 1 || this.row[0] !== '') {
+            rows.push(this.row);
+        }
+        this.row = [];
+        this.field = '';
+        this.inQuotes = false;
+        this.afterQuote = false;
+    }
+
+    private tokenize(text: string): string[][] {
+        const rows: string[][] = [];
+        let start = 0;
+
+        for (let i = 0; i < text.length; i++) {
+            const c = text.charCodeAt(i);
+
+            if (this.inQuotes) {
+                if (c === QUOTE) {
+                    this.field += text.slice(start, i);
+                    this.inQuotes = false;
+                    this.afterQuote = true;
+                    start = i + 1;
+                }
+                continue;
+            }
+
+            const afterCr = this.afterCr;
+            this.afterCr = false;
+
+            if (this.afterQuote) {
+                this.afterQuote = false;
+                if (c === QUOTE) {
+                    // An escaped quote ("") inside a quoted field
+                    this.field += '"';
+                    this.inQuotes = true;
+                    start = i + 1;
+                    continue;
+                }
+            }
+
+            if (c === QUOTE && start === i && this.field === '') {
+                this.inQuotes = true;
+                start = i + 1;
+            } else if (c === this.delimiter) {
+                this.row.push(this.field + text.slice(start, i));
+                this.field = '';
+                start = i + 1;
+            } else if (c === LF && afterCr) {
+                start = i + 1;
+            } else if (c === CR || c === LF) {
+                this.field += text.slice(start, i);
+                this.endRow(rows);
+                this.afterCr = c === CR;
+                start = i + 1;
+            }
+        }
+
+        this.field += text.slice(start);
+        return rows;
+    }
+}
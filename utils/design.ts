@@ -0,0 +1,26 @@
+import type { SampleMetadata, CovariateColumn, DesignTerm } from '../types';
+
+// Lists the covariate columns present in the metadata. A column is numeric only if
+// every sample that has a value for it holds a number.
+export const getCovariateColumns = (metadata: SampleMetadata): CovariateColumn[] => {
+    const samples = Object.values(metadata);
+    const names = [...new Set(samples.flatMap(s => Object.keys(s.covariates)))];
+
+    return names.map(name => {
+        const values = samples.map(s => s.covariates[name]).filter(v => v !== undefined);
+        return {
+            name,
+            type: values.every(v => typeof v === 'number') ? 'numeric' : 'categorical',
+            hasMissing: values.length < samples.length,
+        };
+    });
+};
+
+export const formatDesignFormula = (terms: DesignTerm[]): string =>
+    `~ ${[...terms.map(t => t.name), 'condition'].join(' + ')}`;
+
+// The reduced model of a likelihood ratio test: the full design without the tested terms.
+export const formatReducedFormula = (terms: DesignTerm[], droppedTerms: string[]): string => {
+    const kept = [...terms.map(t => t.name), 'condition'].filter(name => !droppedTerms.includes(name));
+    return `~ ${kept.length > 0 ? kept.join(' + ') : '1'}`;
+};
@@ -0,0 +1,66 @@
+import type { ComparisonResult, Deseq2Diagnostics, GeneData } from '../types';
+import { median } from './matrix';
+
+export interface PValueBin {
+    start: number;
+    end: number;
+    count: number;
+}
+
+export const getPValueHistogram = (genes: GeneData[], binCount: number = 20): PValueBin[] => {
+    const bins: PValueBin[] = Array.from({ length: binCount }, (_, i) => ({ start: i / binCount, end: (i + 1) / binCount, count: 0 }));
+    genes.forEach(g => {
+        if (g.pvalue === null) return;
+        bins[Math.min(binCount - 1, Math.floor(g.pvalue * binCount))].count++;
+    });
+    return bins;
+};
+
+const countBetween = (genes: GeneData[], from: number, to: number): number =>
+    genes.filter(g => g.pvalue !== null && g.pvalue >= from && g.pvalue < to).length;
+
+// Null genes have uniform p-values, so above ~0.5 the histogram should be flat. If it
+// keeps falling there, the p-values of null genes are too small (anti-conservative),
+// e.g. from an unmodelled batch or underestimated dispersions. The top bin is left out
+// because low-count genes pile up at p = 1 without that meaning anything.
+export const isAntiConservative = (genes: GeneData[]): boolean => {
+    const lower = countBetween(genes, 0.5, 0.7);
+    const upper = countBetween(genes, 0.7, 0.9);
+    if (lower + upper < 100) return false;
+    const z = (lower - upper) / Math.sqrt(lower + upper);
+    return z > 3 && lower > 1.1 * upper;
+};
+
+// A sample is singled out when it drives far more Cook's outliers than the others.
+export const getOutlierSamples = (diagnostics: Deseq2Diagnostics): string[] => {
+    const typical = median(diagnostics.cooks.map(c => c.genesAboveCutoff));
+    return diagnostics.cooks
+        .filter(c => c.genesAboveCutoff >= 10 && c.genesAboveCutoff > 3 * typical)
+        .map(c => c.sample);
+};
+
+export const getDiagnosticWarnings = (result: ComparisonResult): string[] => {
+    const warnings: string[] = [];
+    if (isAntiConservative(result.genes)) {
+        warnings.push('The p-value histogram keeps falling above p = 0.5, so the p-values look anti-conservative: genes without a real change get too-small p-values. Check the sample QC for an unmodelled batch or outlier samples before trusting the DEG list.');
+    }
+    const diagnostics = result.diagnostics;
+    if (!diagnostics) return warnings;
+    if (diagnostics.fitType === 'gene_estimates') {
+        warnings.push('DESeq2 could not fit a dispersion trend, so the gene-wise estimates were used without shrinkage. Results are less reliable, especially with few replicates.');
+    } else if (diagnostics.fitMessages.length > 0) {
+        warnings.push(`The dispersion fit needed a fallback (${diagnostics.fitType} fit was used).`);
+    }
+    const outlierSamples = getOutlierSamples(diagnostics);
+    if (outlierSamples.length > 0) {
+        warnings.push(`Most Cook's distance outliers come from ${outlierSamples.join(', ')}. Consider checking ${outlierSamples.length === 1 ? 'this sample' : 'these samples'} in the sample QC.`);
+    }
+    return warnings;
+};
+
+// Evenly spaced subset of a long series, so that scatter plots stay responsive.
+export const thinPoints = <T>(points: T[], max: number): T[] => {
+    if (points.length <= max) return points;
+    const step = points.length / max;
+    return Array.from({ length: max }, (_, i) => points[Math.floor(i * step)]);
+};
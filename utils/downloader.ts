@@ -8,6 +8,26 @@ export const downloadExcel = (data: any[], filename: string) => {
     XLSX.writeFile(wb, `${filename}.xlsx`);
 };
 
+// Several tables as sheets of one workbook, e.g. a matrix and a sheet describing it.
+export const downloadWorkbook = (sheets: { name: string; data: any[] }[], filename: string) => {
+    const wb = XLSX.utils.book_new();
+    sheets.forEach(sheet => XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sheet.data), sheet.name));
+    XLSX.writeFile(wb, `${filename}.xlsx`);
+};
+
+// Comment lines are written above the header as "# ..." (read.csv(comment.char = "#")).
+export const downloadCsv = (data: any[], filename: string, comments: string[] = []) => {
+    const table = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(data));
+    const csv = [...comments.map(line => `# ${line}`), table].join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.download = `${filename}.csv`;
+    link.href = url;
+    link.click();
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 export const downloadPlotPng = (svgElement: SVGElement | null, filename:string) => {
     if (!svgElement) return;
 
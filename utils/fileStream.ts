@@ -0,0 +1,56 @@
+export const isGzipFile = (fileName: string): boolean => fileName.toLowerCase().endsWith('.gz');
+
+// Reads roughly the first `maxChars` characters of a file, for format sniffing.
+export const readFileHead = async (file: File, maxChars = 4096): Promise<string> => {
+    if (!isGzipFile(file.name)) {
+        return file.slice(0, maxChars).text();
+    }
+    const reader = file.stream()
+        .pipeThrough(new DecompressionStream('gzip'))
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+    let head = '';
+    while (head.length < maxChars) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        head += value;
+    }
+    await reader.cancel();
+    return head.slice(0, maxChars);
+};
+
+// Reads a whole (optionally gzip-compressed) text file.
+export const readFileText = async (file: File): Promise<string> => {
+    const chunks: string[] = [];
+    await streamFileText(file, chunk => chunks.push(chunk));
+    return chunks.join('');
+};
+
+// Streams a file as decoded text chunks, transparently decompressing `.gz` files.
+// Progress is reported as the fraction of the (compressed) file read so far.
+export const streamFileText = async (
+    file: File,
+    onText: (chunk: string) => void,
+    onProgress?: (fraction: number) => void
+): Promise<void> => {
+    let bytesRead = 0;
+    const progressCounter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            bytesRead += chunk.byteLength;
+            onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+            controller.enqueue(chunk);
+        },
+    });
+
+    let byteStream: ReadableStream<Uint8Array> = file.stream().pipeThrough(progressCounter);
+    if (isGzipFile(file.name)) {
+        byteStream = byteStream.pipeThrough(new DecompressionStream('gzip'));
+    }
+
+    const reader = byteStream.pipeThrough(new TextDecoderStream()).getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onText(value);
+    }
+};
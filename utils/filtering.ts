@@ -0,0 +1,179 @@
+import type { CountMatrix, PrefilterParams, PrefilterReport, SampleMetadata } from '../types';
+import { getLibrarySizes, median } from './matrix';
+
+export const DEFAULT_PREFILTER_PARAMS: PrefilterParams = {
+    rule: 'filter_by_expr',
+    minCount: 10,
+    minSamples: 3,
+    minCpm: 1,
+    minTotalCount: 15,
+};
+
+// filterByExpr treats groups larger than this as "large" and relaxes the sample requirement.
+const LARGE_GROUP_SIZE = 10;
+const LARGE_GROUP_MIN_PROPORTION = 0.7;
+
+const DENSITY_BINS = 60;
+
+// Number of samples in the smallest condition group.
+const smallestGroupSize = (metadata: SampleMetadata, samples: string[]): number => {
+    const sizes: { [key: string]: number } = {};
+    samples.forEach(s => { sizes[metadata[s].condition] = (sizes[metadata[s].condition] ?? 0) + 1; });
+    const values = Object.values(sizes);
+    return values.length > 0 ? Math.min(...values) : 0;
+};
+
+const countAtLeast = (values: number[], threshold: number): number => {
+    let n = 0;
+    for (const v of values) if (v >= threshold) n++;
+    return n;
+};
+
+export const describePrefilter = (params: PrefilterParams): string => {
+    switch (params.rule) {
+        case 'none': return 'No filtering';
+        case 'min_count': return `Count >= ${params.minCount} in at least ${params.minSamples} samples`;
+        case 'min_cpm': return `CPM >= ${params.minCpm} in at least the smallest group's number of samples`;
+        case 'filter_by_expr': return `filterByExpr (min.count = ${params.minCount}, min.total.count = ${params.minTotalCount})`;
+    }
+};
+
+// Pooled density of log2-CPM values (prior count 0.5, as limma-voom uses) over a shared grid.
+const logCpmDensity = (logCpms: number[][], keep: boolean[], min: number, max: number): { before: number[]; after: number[] } => {
+    const width = (max - min) / DENSITY_BINS || 1;
+    const before = new Array(DENSITY_BINS).fill(0);
+    const after = new Array(DENSITY_BINS).fill(0);
+    let totalBefore = 0;
+    let totalAfter = 0;
+
+    logCpms.forEach((values, g) => {
+        for (const v of values) {
+            const bin = Math.min(DENSITY_BINS - 1, Math.floor((v - min) / width));
+            before[bin]++;
+            totalBefore++;
+            if (keep[g]) {
+                after[bin]++;
+                totalAfter++;
+            }
+        }
+    });
+
+    return {
+        before: before.map(n => totalBefore > 0 ? n / (totalBefore * width) : 0),
+        after: after.map(n => totalAfter > 0 ? n / (totalAfter * width) : 0),
+    };
+};
+
+interface FilterSetup {
+    genes: string[];
+    samples: string[];
+    librarySizes: { [sample: string]: number };
+    requiredSamples: number;
+    cpmCutoff: number;
+}
+
+// Genes, samples and the sample requirement and CPM cutoff of the rule. Only the samples
+// present in the metadata are considered, as those are the ones sent to DESeq2.
+const getFilterSetup = (matrix: CountMatrix, metadata: SampleMetadata, params: PrefilterParams): FilterSetup => {
+    const genes = Object.keys(matrix);
+    const samples = Object.keys(metadata).filter(s => genes.length > 0 && s in matrix[genes[0]]);
+    const librarySizes = getLibrarySizes(matrix, samples);
+    const groupSize = smallestGroupSize(metadata, samples);
+
+    let requiredSamples = 0;
+    let cpmCutoff = 0;
+    if (params.rule === 'min_cpm') {
+        requiredSamples = groupSize;
+        cpmCutoff = params.minCpm;
+    } else if (params.rule === 'filter_by_expr') {
+        requiredSamples = groupSize > LARGE_GROUP_SIZE
+            ? LARGE_GROUP_SIZE + (groupSize - LARGE_GROUP_SIZE) * LARGE_GROUP_MIN_PROPORTION
+            : groupSize;
+        const medianLibrarySize = median(samples.map(s => librarySizes[s]));
+        cpmCutoff = medianLibrarySize > 0 ? params.minCount / medianLibrarySize * 1e6 : 0;
+    }
+    return { genes, samples, librarySizes, requiredSamples, cpmCutoff };
+};
+
+// Whether a gene with these counts (in the order of setup.samples) passes the rule.
+const keepsGene = (counts: number[], setup: FilterSetup, params: PrefilterParams): boolean => {
+    const { samples, librarySizes, requiredSamples, cpmCutoff } = setup;
+    const cpms = () => samples.map((s, i) => librarySizes[s] > 0 ? counts[i] / librarySizes[s] * 1e6 : 0);
+    switch (params.rule) {
+        case 'none':
+            return true;
+        case 'min_count':
+            return countAtLeast(counts, params.minCount) >= params.minSamples;
+        case 'min_cpm':
+            return countAtLeast(cpms(), cpmCutoff) >= requiredSamples;
+        case 'filter_by_expr': {
+            const total = counts.reduce((a, b) => a + b, 0);
+            // Small tolerance as in edgeR, so borderline genes are not lost to rounding
+            return countAtLeast(cpms(), cpmCutoff) >= requiredSamples - 1e-14 && total >= params.minTotalCount - 1e-14;
+        }
+    }
+};
+
+// Gene counts before and after filtering, without the density report; cheap enough to
+// follow every change of the parameters.
+export const countKeptGenes = (
+    matrix: CountMatrix,
+    metadata: SampleMetadata,
+    params: PrefilterParams
+): { genesBefore: number; genesAfter: number } => {
+    const setup = getFilterSetup(matrix, metadata, params);
+    let genesAfter = 0;
+    for (const gene of setup.genes) {
+        if (keepsGene(setup.samples.map(s => matrix[gene][s] ?? 0), setup, params)) genesAfter++;
+    }
+    return { genesBefore: setup.genes.length, genesAfter };
+};
+
+// Removes lowly expressed genes before differential expression.
+export const prefilterGenes = (
+    matrix: CountMatrix,
+    metadata: SampleMetadata,
+    params: PrefilterParams
+): { matrix: CountMatrix; report: PrefilterReport } => {
+    const setup = getFilterSetup(matrix, metadata, params);
+    const { genes, samples, librarySizes } = setup;
+
+    const keep: boolean[] = [];
+    const logCpms: number[][] = [];
+    let min = Infinity;
+    let max = -Infinity;
+
+    genes.forEach(gene => {
+        const counts = samples.map(s => matrix[gene][s] ?? 0);
+        const logCpm = samples.map((s, i) => Math.log2((counts[i] + 0.5) / (librarySizes[s] + 1) * 1e6));
+        logCpm.forEach(v => {
+            if (v < min) min = v;
+            if (v > max) max = v;
+        });
+        logCpms.push(logCpm);
+        keep.push(keepsGene(counts, setup, params));
+    });
+
+    const filtered: CountMatrix = {};
+    genes.forEach((gene, g) => {
+        if (keep[g]) filtered[gene] = matrix[gene];
+    });
+
+    const density = logCpms.length > 0 ? logCpmDensity(logCpms, keep, min, max) : { before: [], after: [] };
+    const width = (max - min) / DENSITY_BINS || 1;
+
+    return {
+        matrix: filtered,
+        report: {
+            params,
+            description: describePrefilter(params),
+            genesBefore: genes.length,
+            genesAfter: Object.keys(filtered).length,
+            density: density.before.map((before, i) => ({
+                logCpm: min + (i + 0.5) * width,
+                before,
+                after: density.after[i],
+            })),
+        },
+    };
+};
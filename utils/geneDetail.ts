@@ -0,0 +1,40 @@
+import type { ComparisonResult, CountMatrix, CountTransforms, GeneData, GseaDatabase, GseaResult } from '../types';
+
+export interface GeneCounts {
+    counts: { sample: string; count: number }[];
+    // Genes removed by the low-count filter are not in the normalized matrix; their raw
+    // counts are divided by the size factors instead
+    tested: boolean;
+}
+
+export const getNormalizedGeneCounts = (gene: string, transforms: CountTransforms, countMatrix: CountMatrix | null): GeneCounts | null => {
+    const normalized = transforms.normalized[gene];
+    if (normalized) {
+        return { counts: transforms.samples.map(sample => ({ sample, count: normalized[sample] })), tested: true };
+    }
+    const raw = countMatrix?.[gene];
+    if (!raw) return null;
+    return { counts: transforms.samples.map(sample => ({ sample, count: (raw[sample] ?? 0) / transforms.sizeFactors[sample] })), tested: false };
+};
+
+// The gene's row in every comparison it was tested in.
+export const getGeneComparisons = (gene: string, degResults: { [key: string]: ComparisonResult }): { key: string; result: ComparisonResult; stats: GeneData }[] =>
+    Object.keys(degResults)
+        .map(key => ({ key, result: degResults[key], stats: degResults[key].genes.find(g => g.gene === gene) }))
+        .filter(row => row.stats !== undefined);
+
+// Gene sets whose leading edge contains the gene. Symbols are matched case-insensitively,
+// as the OrgDb may write them differently from the uploaded data.
+export const findLeadingEdgeSets = (
+    gene: string,
+    gseaResults: { [key: string]: { [db in GseaDatabase]?: GseaResult[] } }
+): { comparison: string; db: GseaDatabase; set: GseaResult }[] => {
+    const target = gene.toUpperCase();
+    return Object.keys(gseaResults).flatMap(comparison =>
+        (['GO', 'KEGG'] as GseaDatabase[]).flatMap(db =>
+            (gseaResults[comparison][db] ?? [])
+                .filter(set => set.core_enrichment.split('/').some(g => g.toUpperCase() === target))
+                .map(set => ({ comparison, db, set }))
+        )
+    );
+};
@@ -0,0 +1,19 @@
+// cyrb53: a fast 53-bit string hash with good spread. Not cryptographic; it only has
+// to tell apart the inputs of two analyses.
+export const hashStrings = (parts: string[]): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (const part of parts) {
+        for (let i = 0; i < part.length; i++) {
+            const ch = part.charCodeAt(i);
+            h1 = Math.imul(h1 ^ ch, 2654435761);
+            h2 = Math.imul(h2 ^ ch, 1597334677);
+        }
+        // Separate the parts so that ["ab", "c"] and ["a", "bc"] differ
+        h1 = Math.imul(h1 ^ 0x1f, 2654435761);
+        h2 = Math.imul(h2 ^ 0x1f, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
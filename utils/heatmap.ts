@@ -0,0 +1,123 @@
+import type { CountMatrix, Dendrogram, GeneData, HeatmapPalette, HeatmapRanking, LfcMode } from '../types';
+import { getLfc, getSignificantGenes } from './results';
+
+export const HEATMAP_PALETTES: Record<HeatmapPalette, { label: string; stops: string[] }> = {
+    blue_white_red: { label: 'Blue - white - red', stops: ['#2166ac', '#f7f7f7', '#b2182b'] },
+    blue_black_yellow: { label: 'Blue - black - yellow', stops: ['#3b82f6', '#000000', '#facc15'] },
+    viridis: { label: 'Viridis', stops: ['#440154', '#3b528b', '#21908c', '#5dc863', '#fde725'] },
+};
+
+const hexToRgb = (hex: string): number[] => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Color of a z-score; values beyond +-clip get the end colors.
+export const getHeatmapColor = (z: number, clip: number, palette: HeatmapPalette): string => {
+    const { stops } = HEATMAP_PALETTES[palette];
+    const t = (Math.max(-clip, Math.min(clip, z)) / clip + 1) / 2;
+    const position = t * (stops.length - 1);
+    const below = Math.min(Math.floor(position), stops.length - 2);
+    const from = hexToRgb(stops[below]);
+    const to = hexToRgb(stops[below + 1]);
+    const [r, g, b] = from.map((c, i) => Math.round(c + (to[i] - c) * (position - below)));
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+export interface DendrogramSegment {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+// Line segments of a dendrogram. x is in leaf slots (leaf k of the plot order is centred
+// on k + 0.5) and y is the merge height, so callers can scale and rotate it.
+export const getDendrogramSegments = (tree: Dendrogram): { segments: DendrogramSegment[]; maxHeight: number } => {
+    const leafX: number[] = [];
+    tree.order.forEach((leaf, slot) => { leafX[leaf] = slot + 0.5; });
+    const nodeX: number[] = [];
+    const segments: DendrogramSegment[] = [];
+    const locate = (entry: number): { x: number; y: number } =>
+        entry < 0 ? { x: leafX[-entry - 1], y: 0 } : { x: nodeX[entry - 1], y: tree.height[entry - 1] };
+
+    tree.merge.forEach(([a, b], i) => {
+        const left = locate(a);
+        const right = locate(b);
+        const height = tree.height[i];
+        segments.push(
+            { x1: left.x, y1: left.y, x2: left.x, y2: height },
+            { x1: right.x, y1: right.y, x2: right.x, y2: height },
+            { x1: left.x, y1: height, x2: right.x, y2: height },
+        );
+        nodeX[i] = (left.x + right.x) / 2;
+    });
+    return { segments, maxHeight: Math.max(0, ...tree.height) };
+};
+
+// Larger selections are cut to this many genes, the most the heatmap stays readable with
+export const MAX_HEATMAP_GENES = 300;
+
+export const HEATMAP_RANKING_LABELS: Record<HeatmapRanking, string> = {
+    padj: 'Adjusted p-value',
+    lfc: 'log2 fold change',
+    variance: 'Variance across samples',
+};
+
+const variance = (values: number[]): number => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, values.length - 1);
+};
+
+// The n genes ranked highest. padj takes the smallest adjusted p-values, lfc the strongest
+// significant changes (half up, half down, as the default heatmap always showed) and
+// variance the most variable genes in the VST matrix, whatever the comparison.
+export const getTopGenes = (
+    genes: GeneData[],
+    vst: CountMatrix,
+    samples: string[],
+    n: number,
+    ranking: HeatmapRanking,
+    padjThreshold: number,
+    lfcMode: LfcMode
+): string[] => {
+    if (ranking === 'variance') {
+        return Object.keys(vst)
+            .map(gene => ({ gene, variance: variance(samples.map(s => vst[gene][s])) }))
+            .sort((a, b) => b.variance - a.variance)
+            .slice(0, n)
+            .map(g => g.gene);
+    }
+    if (ranking === 'lfc') {
+        const { up, down } = getSignificantGenes(genes, padjThreshold, lfcMode);
+        const half = Math.ceil(n / 2);
+        // Fill from the other direction when one has too few genes
+        const upCount = Math.min(up.length, Math.max(half, n - down.length));
+        return [...up.slice(0, upCount), ...down.slice(0, n - upCount)].map(g => g.gene);
+    }
+    return genes
+        .filter(g => g.padj !== null && getLfc(g, lfcMode) !== null)
+        .sort((a, b) => a.padj - b.padj || Math.abs(getLfc(b, lfcMode)) - Math.abs(getLfc(a, lfcMode)))
+        .slice(0, n)
+        .map(g => g.gene);
+};
+
+// Gene names from pasted text, separated by whitespace, commas or semicolons. For uploaded
+// tables only the first column of each line is read.
+export const parseGeneList = (text: string, firstColumnOnly = false): string[] => {
+    const lines = text.split(/\r?\n/);
+    const tokens = firstColumnOnly
+        ? lines.map(line => line.split(/[,;\t]/)[0])
+        : lines.flatMap(line => line.split(/[\s,;]+/));
+    return [...new Set(tokens.map(t => t.trim().replace(/^["']|["']$/g, '')).filter(Boolean))];
+};
+
+// Matches names to the genes of the matrix, ignoring case; the matrix spelling is kept.
+export const matchGeneList = (names: string[], available: string[]): { matched: string[]; missing: string[] } => {
+    const lookup = new Map(available.map(gene => [gene.toUpperCase(), gene]));
+    const matched: string[] = [];
+    const missing: string[] = [];
+    names.forEach(name => {
+        const gene = lookup.get(name.toUpperCase());
+        if (gene) matched.push(gene);
+        else missing.push(name);
+    });
+    return { matched: [...new Set(matched)], missing };
+};
@@ -0,0 +1,25 @@
+import type { CountMatrix } from '../types';
+
+// Sample names present in a count matrix (the columns of its first gene row).
+export const getMatrixSamples = (matrix: CountMatrix): string[] => {
+    const firstGene = Object.keys(matrix)[0];
+    return firstGene ? Object.keys(matrix[firstGene]) : [];
+};
+
+export const getLibrarySizes = (matrix: CountMatrix, samples: string[]): { [key: string]: number } => {
+    const sizes: { [key: string]: number } = {};
+    samples.forEach(s => { sizes[s] = 0; });
+    for (const gene in matrix) {
+        for (const sample of samples) {
+            sizes[sample] += matrix[gene][sample] ?? 0;
+        }
+    }
+    return sizes;
+};
+
+export const median = (values: number[]): number => {
+    if (values.length === 0) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
@@ -0,0 +1,64 @@
+import type { Organism } from '../types';
+
+export type OrgDbPackage = `org.${string}.db`;
+
+export interface OrganismConfig {
+    label: string;
+    taxonId: number; // NCBI taxonomy ID, used for MyGene.info queries
+    orgDb: OrgDbPackage;
+    // OrgDb key type holding the gene symbols used throughout the app
+    symbolKeyType: 'SYMBOL' | 'GENENAME';
+    kegg: {
+        code: string;
+        // OrgDb column converted to for gseKEGG, and the keyType gseKEGG reads it as
+        idColumn: 'ENTREZID' | 'ORF';
+        keyType: 'kegg' | 'ncbi-geneid';
+    };
+}
+
+export const ORGANISMS: { [key in Organism]: OrganismConfig } = {
+    human: {
+        label: 'Human (Homo sapiens)',
+        taxonId: 9606,
+        orgDb: 'org.Hs.eg.db',
+        symbolKeyType: 'SYMBOL',
+        kegg: { code: 'hsa', idColumn: 'ENTREZID', keyType: 'kegg' },
+    },
+    mouse: {
+        label: 'Mouse (Mus musculus)',
+        taxonId: 10090,
+        orgDb: 'org.Mm.eg.db',
+        symbolKeyType: 'SYMBOL',
+        kegg: { code: 'mmu', idColumn: 'ENTREZID', keyType: 'kegg' },
+    },
+    rat: {
+        label: 'Rat (Rattus norvegicus)',
+        taxonId: 10116,
+        orgDb: 'org.Rn.eg.db',
+        symbolKeyType: 'SYMBOL',
+        kegg: { code: 'rno', idColumn: 'ENTREZID', keyType: 'kegg' },
+    },
+    zebrafish: {
+        label: 'Zebrafish (Danio rerio)',
+        taxonId: 7955,
+        orgDb: 'org.Dr.eg.db',
+        symbolKeyType: 'SYMBOL',
+        kegg: { code: 'dre', idColumn: 'ENTREZID', keyType: 'kegg' },
+    },
+    fly: {
+        label: 'Fruit fly (Drosophila melanogaster)',
+        taxonId: 7227,
+        orgDb: 'org.Dm.eg.db',
+        symbolKeyType: 'SYMBOL',
+        // KEGG gene IDs for fly are Dmel_CG numbers, so Entrez IDs are converted by gseKEGG
+        kegg: { code: 'dme', idColumn: 'ENTREZID', keyType: 'ncbi-geneid' },
+    },
+    yeast: {
+        label: 'Yeast (Saccharomyces cerevisiae)',
+        taxonId: 559292,
+        orgDb: 'org.Sc.sgd.db',
+        symbolKeyType: 'GENENAME',
+        // KEGG uses systematic ORF names (e.g. YAL001C) for yeast
+        kegg: { code: 'sce', idColumn: 'ORF', keyType: 'kegg' },
+    },
+};
@@ -0,0 +1,58 @@
+import type { PairingReport, SampleMetadata } from '../types';
+
+const getSubject = (metadata: SampleMetadata, sample: string, column: string): string | null => {
+    const value = metadata[sample].covariates[column];
+    return value === undefined || value === '' ? null : String(value);
+};
+
+// Covariates that never vary within a subject (e.g. sex or genotype of a patient).
+// Next to the subject term they would make the design rank-deficient.
+const getNestedColumns = (metadata: SampleMetadata, column: string): string[] => {
+    const samples = Object.keys(metadata);
+    const columns = [...new Set(samples.flatMap(s => Object.keys(metadata[s].covariates)))].filter(c => c !== column);
+    return columns.filter(c => {
+        const valueBySubject = new Map<string, string>();
+        return samples.every(sample => {
+            const subject = getSubject(metadata, sample, column)!;
+            const value = String(metadata[sample].covariates[c] ?? '');
+            if (!valueBySubject.has(subject)) valueBySubject.set(subject, value);
+            return valueBySubject.get(subject) === value;
+        });
+    });
+};
+
+// Keeps the samples whose subject was also measured under another condition, and
+// reports the ones left without a partner.
+export const applyPairing = (metadata: SampleMetadata, column: string): { metadata: SampleMetadata; report: PairingReport } => {
+    const samples = Object.keys(metadata);
+    const conditionsBySubject = new Map<string, Set<string>>();
+    samples.forEach(sample => {
+        const subject = getSubject(metadata, sample, column);
+        if (subject === null) return;
+        if (!conditionsBySubject.has(subject)) conditionsBySubject.set(subject, new Set());
+        conditionsBySubject.get(subject)!.add(metadata[sample].condition);
+    });
+
+    const paired: SampleMetadata = {};
+    const droppedSamples: PairingReport['droppedSamples'] = [];
+    samples.forEach(sample => {
+        const subject = getSubject(metadata, sample, column);
+        if (subject !== null && conditionsBySubject.get(subject)!.size >= 2) {
+            paired[sample] = metadata[sample];
+        } else {
+            droppedSamples.push({ sample, subject, condition: metadata[sample].condition });
+        }
+    });
+
+    const subjects = new Set(Object.keys(paired).map(s => getSubject(paired, s, column)));
+    return {
+        metadata: paired,
+        report: { column, subjects: subjects.size, droppedSamples, nestedColumns: getNestedColumns(paired, column) },
+    };
+};
+
+// e.g. "P3_pre (P3, only in pre)" or "S7 (no subject)"
+export const describeDroppedSample = (dropped: PairingReport['droppedSamples'][number]): string =>
+    dropped.subject === null
+        ? `${dropped.sample} (no subject)`
+        : `${dropped.sample} (${dropped.subject}, only in ${dropped.condition})`;
@@ -1,212 +1,496 @@
-import * as XLSX from 'xlsx';
-import type { CountMatrix, SampleMetadata, GeneIdentifierType } from '../types';
-
-const IDENTIFIER_REGEX: { [key in GeneIdentifierType]: RegExp } = {
-    ensembl: /^ENS[A-Z]*G\d+(\.\d+)?$/i,
-    entrez: /^\d+$/,
-    uniprot: /^[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2}$|^[OPQ][0-9][A-Z0-9]{3}[0-9]$/i,
-    symbol: /^[A-Z0-9][A-Z0-9-]{1,10}$/i, // A bit loose, but a decent guess
-    unknown: /.*/,
+import type { CountMatrix, SampleMetadata, SampleInfo, CountImportSummary, StarStrandedness, FeatureLengths, Tx2GeneMap, IdMappingOptions, IdMappingRecord, DataTable, CountColumnMapping, MetadataColumnMapping, CellAssignments, PseudobulkGrouping } from '../types';
+import { CountMatrixBuilder, detectGeneIdentifier, type InvalidCountCell, type ParsedCountMatrix } from './countMatrix';
+import type { CountMatrixWorkerMessage, CountMatrixWorkerRequest } from './countMatrix.worker';
+import { detectCountFileFormat, inferStarStrandedness, mergePerSampleCounts, parseHtseqCounts, parseStarReadsPerGene, parseTranscriptQuant, sampleNameFromFileName, selectStarColumn, summarizeToGenes, type PerSampleCounts } from './countFormats';
+import { readFileHead, readFileText } from './fileStream';
+import { buildPseudobulkMatrix, buildPseudobulkMetadata, findTenxFiles, groupBarcodes, isMtxFile, parseBarcodes, parseFeatures, type MtxFeatures } from './pseudobulk';
+import type { PseudobulkWorkerMessage, PseudobulkWorkerRequest } from './pseudobulk.worker';
+
+export interface CountImport extends ParsedCountMatrix {
+    summary: CountImportSummary;
+    // Sample metadata generated alongside the counts (pseudobulk imports)
+    metadata?: SampleMetadata;
+}
+
+export interface IdMappingResult {
+    matrix: CountMatrix;
+    records: IdMappingRecord[];
+    // original ID -> row name in the remapped matrix, for IDs that were kept
+    finalIds: { [key: string]: string };
+}
+
+export interface CountImportOptions {
+    starStrandedness: StarStrandedness;
+    tx2gene: Tx2GeneMap | null; // Required for Salmon and kallisto quantifications
+    cellAssignments: CellAssignments | null; // Required for 10x pseudobulk imports
+    pseudobulkGrouping: PseudobulkGrouping;
+}
+
+// Pseudobulk samples with fewer cells than this are flagged after a 10x import.
+const MIN_PSEUDOBULK_CELLS = 10;
+
+// Import warnings for empty or non-numeric count cells, quoting the first few values as read.
+const describeInvalidCells = (cells: InvalidCountCell[] = []): string[] => {
+    if (cells.length === 0) return [];
+    const listed = cells.slice(0, 5).map(c => `${c.gene} in ${c.sample} ("${c.value}")`);
+    return [`${cells.length.toLocaleString()} count cell(s) were empty or not a number: ${listed.join(', ')}${cells.length > 5 ? ', ...' : ''}.`];
 };
 
-export const detectGeneIdentifier = (ids: string[]): GeneIdentifierType => {
-    const scores: { [key in GeneIdentifierType]: number } = {
-        ensembl: 0, entrez: 0, uniprot: 0, symbol: 0, unknown: 0,
-    };
-
-    const testIds = ids.slice(0, 100);
-
-    for (const id of testIds) {
-        if (IDENTIFIER_REGEX.ensembl.test(id)) scores.ensembl++;
-        else if (IDENTIFIER_REGEX.entrez.test(id)) scores.entrez++;
-        else if (IDENTIFIER_REGEX.uniprot.test(id)) scores.uniprot++;
-        else if (IDENTIFIER_REGEX.symbol.test(id)) scores.symbol++;
-    }
-    
-    // Check most specific patterns first
-    if (scores.ensembl / testIds.length > 0.7) return 'ensembl';
-    if (scores.uniprot / testIds.length > 0.7) return 'uniprot';
-    if (scores.entrez / testIds.length > 0.7) return 'entrez';
-    if (scores.symbol / testIds.length > 0.5) return 'symbol';
+// Parses a count matrix off the main thread, streaming the file through a Web Worker.
+// Plain and gzip-compressed CSV/TSV files are accepted.
+const parseCountMatrixFile = (
+    file: File,
+    format: CountMatrixWorkerRequest['format'],
+    onProgress?: (fraction: number) => void
+): Promise<ParsedCountMatrix> => {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./countMatrix.worker.ts', import.meta.url), { type: 'module' });
+
+        worker.onmessage = (event: MessageEvent<CountMatrixWorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.fraction);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'result') {
+                resolve(message.result);
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(`Count matrix parser failed: ${event.message}`));
+        };
+
+        const request: CountMatrixWorkerRequest = { file, format };
+        worker.postMessage(request);
+    });
+};
 
-    return 'unknown';
+// Sums a 10x matrix.mtx into gene x group totals in a Web Worker, streaming the file.
+const aggregateMtxFile = (
+    file: File,
+    features: MtxFeatures,
+    columnGroup: Int32Array,
+    groupCount: number,
+    onProgress?: (fraction: number) => void
+): Promise<{ sums: Float64Array; entryCount: number }> => {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./pseudobulk.worker.ts', import.meta.url), { type: 'module' });
+
+        worker.onmessage = (event: MessageEvent<PseudobulkWorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.fraction);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'result') {
+                resolve({ sums: message.sums, entryCount: message.entryCount });
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(`Matrix Market parser failed: ${event.message}`));
+        };
+
+        const request: PseudobulkWorkerRequest = { file, features, columnGroup, groupCount };
+        worker.postMessage(request);
+    });
 };
 
+// Builds a pseudobulk count matrix from 10x Genomics output by summing the counts of
+// every cell assigned to the same sample (or sample x cell type), and generates the
+// matching sample metadata.
+const importPseudobulk = async (
+    files: File[],
+    options: CountImportOptions,
+    onProgress?: (fraction: number) => void
+): Promise<CountImport> => {
+    const tenx = findTenxFiles(files);
+    const { cellAssignments: assignments, pseudobulkGrouping: grouping } = options;
+    if (!assignments) {
+        throw new Error('10x imports need a cell assignment table (barcode, sample and optionally cell type). Upload one under Import Options first.');
+    }
+    const assignmentValues = Object.values(assignments);
+    if (grouping === 'sample_cell_type' && !assignmentValues.some(a => a.cellType)) {
+        throw new Error('The cell assignment table has no cell type column, so cells can only be summed per sample.');
+    }
 
-export const parseCountMatrix = (fileContent: string): { matrix: CountMatrix, identifierType: GeneIdentifierType } => {
-    const lines = fileContent.trim().split('\n');
-    if (lines.length < 2) return { matrix: {}, identifierType: 'unknown' };
+    const barcodes = parseBarcodes(await readFileText(tenx.barcodes));
+    const features = parseFeatures(await readFileText(tenx.features));
+    const groups = groupBarcodes(barcodes, assignments, grouping);
+    if (groups.names.length === 0) {
+        throw new Error(`None of the ${barcodes.length.toLocaleString()} barcodes in ${tenx.barcodes.name} appear in the cell assignment table.`);
+    }
 
-    const headerLine = lines[0].trim();
-    const delimiter = headerLine.includes('\t') ? '\t' : ',';
-    const headers = headerLine.split(delimiter).map(h => h.replace(/"/g, ''));
+    const { sums, entryCount } = await aggregateMtxFile(tenx.matrix, features, groups.columnGroup, groups.names.length, onProgress);
+    const assignedCells = barcodes.length - groups.unassignedCells;
+    const notes = [
+        `Summed ${assignedCells.toLocaleString()} cells (${entryCount.toLocaleString()} non-zero entries) into ${groups.names.length} pseudobulk samples, ${grouping === 'sample' ? 'one per sample' : 'one per sample and cell type'}.`,
+        `Generated sample metadata with sample_id, n_cells${grouping === 'sample_cell_type' ? ' and cell_type' : ''} covariates.`,
+    ];
+    const warnings: string[] = [];
+    if (groups.unassignedCells > 0) {
+        notes.push(`Left out ${groups.unassignedCells.toLocaleString()} barcodes without a ${grouping === 'sample' ? 'sample' : 'sample and cell type'} assignment.`);
+    }
+    if (features.skipped > 0) {
+        notes.push(`Skipped ${features.skipped.toLocaleString()} features that are not gene expression (antibody capture, CRISPR guides, ...).`);
+    }
+    if (!assignmentValues.some(a => a.condition)) {
+        warnings.push('The cell assignment table has no condition column, so each sample is its own condition. Reassign conditions in the sample list or upload sample metadata.');
+    }
+    const smallGroups = groups.names.filter((_, i) => groups.cellCounts[i] < MIN_PSEUDOBULK_CELLS);
+    if (smallGroups.length > 0) {
+        warnings.push(`${smallGroups.length} pseudobulk sample(s) have fewer than ${MIN_PSEUDOBULK_CELLS} cells: ${smallGroups.join(', ')}.`);
+    }
 
-    const sampleNames = headers.slice(1);
-    const rawMatrix: { [key: string]: { [key: string]: number } } = {};
-    const rawGeneIds: string[] = [];
+    return {
+        matrix: buildPseudobulkMatrix(features.geneIds, groups.names, sums),
+        identifierType: detectGeneIdentifier(features.geneIds),
+        metadata: buildPseudobulkMetadata(groups),
+        summary: {
+            format: 'mtx',
+            sampleCount: groups.names.length,
+            geneCount: features.geneIds.length,
+            notes,
+            warnings,
+        },
+    };
+};
 
-    for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].trim().split(delimiter);
-        if (values.length < headers.length) continue;
+const readPerSampleFiles = async <T extends { sample: string }>(
+    files: File[],
+    parse: (sample: string, text: string) => T
+): Promise<T[]> => {
+    const parsed: T[] = [];
+    for (const file of files) {
+        parsed.push(parse(sampleNameFromFileName(file.name), await readFileText(file)));
+    }
+    const names = parsed.map(p => p.sample);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+        throw new Error(`Two uploaded files map to the same sample name "${duplicate}". Please rename them.`);
+    }
+    return parsed;
+};
 
-        const geneId = values[0].replace(/"/g, '');
-        if (!geneId) continue;
+// Imports count data from either a single gene x sample matrix or featureCounts table,
+// or one HTSeq-count / STAR ReadsPerGene / Salmon / kallisto file per sample. The format
+// is sniffed from the file contents. A 10x matrix.mtx upload is summed into pseudobulk samples.
+export const importCountFiles = async (
+    files: File[],
+    options: CountImportOptions,
+    onProgress?: (fraction: number) => void
+): Promise<CountImport> => {
+    if (files.some(file => isMtxFile(file.name))) {
+        return importPseudobulk(files, options, onProgress);
+    }
 
-        rawGeneIds.push(geneId);
-        rawMatrix[geneId] = {};
-        for (let j = 1; j < headers.length; j++) {
-            const sampleName = sampleNames[j - 1];
-            const count = parseInt(values[j], 10);
-            if (!isNaN(count)) {
-                rawMatrix[geneId][sampleName] = count;
-            }
-        }
+    const formats = await Promise.all(files.map(async file => detectCountFileFormat(file.name, await readFileHead(file))));
+    const format = formats[0];
+    if (formats.some(f => f !== format)) {
+        throw new Error('All uploaded count files must be in the same format.');
     }
 
-    const identifierType = detectGeneIdentifier(rawGeneIds);
-    const matrix: CountMatrix = {};
+    const notes: string[] = [];
+    let parsed: ParsedCountMatrix;
+    let unmappedTranscripts: number | undefined;
 
-    // Process IDs based on detected type
-    for (const rawId of rawGeneIds) {
-        let finalId = rawId;
-        if (identifierType === 'ensembl') {
-            finalId = rawId.split('.')[0]; // Trim version only if we're sure it's Ensembl
+    if (format === 'salmon' || format === 'kallisto') {
+        if (!options.tx2gene) {
+            throw new Error('Salmon and kallisto quantifications need a tx2gene table. Upload one under Import Options first.');
         }
-        
-        // Handle cases where trimming might cause ID collisions
-        if (matrix[finalId]) {
-             for (const sample of sampleNames) {
-                matrix[finalId][sample] = (matrix[finalId][sample] || 0) + (rawMatrix[rawId][sample] || 0);
-            }
+        const quants = await readPerSampleFiles(files, (sample, text) => parseTranscriptQuant(format, sample, text));
+        const geneLevel = summarizeToGenes(quants, options.tx2gene);
+        unmappedTranscripts = geneLevel.unmappedTranscripts;
+        parsed = {
+            matrix: geneLevel.matrix,
+            identifierType: detectGeneIdentifier(Object.keys(geneLevel.matrix)),
+            averageTxLengths: geneLevel.averageTxLengths,
+        };
+        notes.push(`Summarized ${geneLevel.transcriptCount.toLocaleString()} transcripts to genes; ${unmappedTranscripts.toLocaleString()} could not be mapped with the tx2gene table.`);
+        notes.push('Average transcript lengths will be used as DESeq2 normalization offsets.');
+    } else if (format === 'matrix' || format === 'featureCounts') {
+        if (files.length > 1) {
+            throw new Error(`Please upload a single ${format === 'matrix' ? 'count matrix' : 'featureCounts table'}. Multiple files are only supported for HTSeq-count and STAR outputs.`);
+        }
+        parsed = await parseCountMatrixFile(files[0], format, onProgress);
+    } else {
+        const builder = new CountMatrixBuilder();
+        let samples: PerSampleCounts[];
+
+        if (format === 'htseq') {
+            samples = await readPerSampleFiles(files, parseHtseqCounts);
+            notes.push('Dropped HTSeq-count summary rows (__no_feature, __ambiguous, ...).');
         } else {
-             matrix[finalId] = rawMatrix[rawId];
+            const starFiles = await readPerSampleFiles(files, parseStarReadsPerGene);
+            const strandedness = options.starStrandedness === 'auto'
+                ? inferStarStrandedness(starFiles[0].columns)
+                : options.starStrandedness;
+            samples = starFiles.map(f => selectStarColumn(f, strandedness));
+            notes.push(`Used the ${strandedness} count column${options.starStrandedness === 'auto' ? ' (inferred from strand-specific counts)' : ''}.`);
         }
+        mergePerSampleCounts(builder, samples);
+        parsed = builder.build();
     }
 
-    return { matrix, identifierType };
+    if (parsed.featureLengths) {
+        notes.push(`Kept feature lengths for ${Object.keys(parsed.featureLengths).length.toLocaleString()} genes.`);
+    }
+
+    const geneIds = Object.keys(parsed.matrix);
+    return {
+        ...parsed,
+        summary: {
+            format,
+            sampleCount: geneIds.length > 0 ? Object.keys(parsed.matrix[geneIds[0]]).length : 0,
+            geneCount: geneIds.length,
+            unmappedTranscripts,
+            notes,
+            warnings: describeInvalidCells(parsed.invalidCells),
+        },
+    };
 };
 
-export const parseExcelMetadata = (arrayBuffer: ArrayBuffer): SampleMetadata => {
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const firstSheetName = workbook.SheetNames[0];
-    if (!firstSheetName) return {};
-    const worksheet = workbook.Sheets[firstSheetName];
-    const data: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+const RESERVED_METADATA_COLUMNS = new Set(['sample', 'condition']);
 
-    if (data.length < 2) return {};
+// Covariate names end up in an R formula, so make them syntactically valid R names.
+const toCovariateName = (header: string): string => {
+    const name = header.trim().replace(/[^A-Za-z0-9_.]/g, '_');
+    return /^[A-Za-z]/.test(name) ? name : `X${name}`;
+};
 
-    const headers = data[0].map(h => (h ? String(h).trim().toLowerCase() : ''));
+const isNumericValue = (value: string): boolean => value !== '' && isFinite(Number(value));
+
+const findHeader = (headers: string[], name: string): number =>
+    headers.findIndex(h => h.trim().toLowerCase().includes(name));
+
+// Pre-selects columns for the mapping dialog: headers containing "sample" and
+// "condition", with every other named column as a covariate.
+export const guessMetadataMapping = (table: DataTable): MetadataColumnMapping => {
+    const sample = findHeader(table.headers, 'sample');
+    const condition = findHeader(table.headers, 'condition');
+    const covariates = table.headers
+        .map((header, index) => ({ header, index }))
+        .filter(({ header, index }) =>
+            index !== sample &&
+            index !== condition &&
+            header.trim() !== '' &&
+            !RESERVED_METADATA_COLUMNS.has(toCovariateName(header).toLowerCase())
+        )
+        .map(({ index }) => index);
+    return { sample, condition, covariates };
+};
 
-    const sampleIndex = headers.findIndex(h => h.includes('sample'));
-    const conditionIndex = headers.findIndex(h => h.includes('condition'));
+// Builds SampleMetadata from the columns chosen in the mapping dialog. Covariate
+// columns whose values are all numeric are stored as numbers.
+export const buildSampleMetadata = (table: DataTable, mapping: MetadataColumnMapping): SampleMetadata => {
+    const { sample: sampleIndex, condition: conditionIndex } = mapping;
+    if (sampleIndex === -1 || conditionIndex === -1 || sampleIndex === conditionIndex) {
+        throw new Error('Please choose two different columns for the sample names and the conditions.');
+    }
 
-    if (sampleIndex === -1 || conditionIndex === -1) {
-        throw new Error("Excel file must contain 'sample' and 'condition' headers in the first sheet.");
+    const covariateColumns = mapping.covariates
+        .filter(index => index !== sampleIndex && index !== conditionIndex)
+        .map(index => ({ index, name: toCovariateName(table.headers[index] || `column_${index + 1}`) }))
+        .filter(({ name }) => !RESERVED_METADATA_COLUMNS.has(name.toLowerCase()));
+
+    const names = covariateColumns.map(c => c.name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+        throw new Error(`Two covariate columns are both named "${duplicate}". Please rename one of them.`);
     }
-    
-    const metadata: SampleMetadata = {};
 
-    for (let i = 1; i < data.length; i++) {
-        const row = data[i];
-        if(!row) continue;
-        const sample = row[sampleIndex] ? String(row[sampleIndex]).trim() : '';
-        const condition = row[conditionIndex] ? String(row[conditionIndex]).trim() : '';
+    const validRows = table.rows.filter(row => row[sampleIndex] && row[conditionIndex]);
 
-        if (sample && condition) {
-            metadata[sample] = condition;
+    const numericColumns = new Set(
+        covariateColumns
+            .filter(({ index }) => validRows.every(row => !row[index] || isNumericValue(row[index])))
+            .map(({ name }) => name)
+    );
+
+    const metadata: SampleMetadata = {};
+
+    for (const row of validRows) {
+        const covariates: SampleInfo['covariates'] = {};
+        for (const { index, name } of covariateColumns) {
+            const value = row[index] ?? '';
+            if (value === '') continue;
+            covariates[name] = numericColumns.has(name) ? Number(value) : value;
         }
+        metadata[row[sampleIndex]] = { condition: row[conditionIndex], covariates };
     }
 
     return metadata;
 };
 
-export const parseTextMetadata = (fileContent: string): SampleMetadata => {
-    const lines = fileContent.trim().split('\n');
-    if (lines.length < 2) return {};
+// Pre-selects the first column as the gene ID and every column whose first rows
+// are numeric as a sample.
+export const guessCountMapping = (table: DataTable): CountColumnMapping => {
+    const head = table.rows.slice(0, 20);
+    const samples = table.headers
+        .map((_, index) => index)
+        .filter(index => index !== 0 && head.length > 0 && head.every(row => isNumericValue(row[index])));
+    return { geneId: 0, samples };
+};
+
+// Builds a count matrix from an Excel sheet (or any table) using the dialog's column choices.
+export const buildCountImport = (table: DataTable, mapping: CountColumnMapping): CountImport => {
+    if (mapping.samples.length === 0) {
+        throw new Error('Please choose at least one sample column.');
+    }
+    const sampleColumns = mapping.samples.filter(index => index !== mapping.geneId);
+    const builder = new CountMatrixBuilder();
+    builder.addRow([table.headers[mapping.geneId], ...sampleColumns.map(index => table.headers[index])]);
+    table.rows.forEach(row => builder.addRow([row[mapping.geneId], ...sampleColumns.map(index => row[index])]));
+    const parsed = builder.build();
+
+    return {
+        ...parsed,
+        summary: {
+            format: 'excel',
+            sampleCount: sampleColumns.length,
+            geneCount: Object.keys(parsed.matrix).length,
+            notes: [],
+            warnings: describeInvalidCells(parsed.invalidCells),
+        },
+    };
+};
 
-    const headerLine = lines[0].trim().toLowerCase();
-    const delimiter = headerLine.includes('\t') ? '\t' : ',';
-    const headers = headerLine.split(delimiter).map(h => h.replace(/"/g, ''));
-    
-    const sampleIndex = headers.findIndex(h => h.includes('sample'));
-    const conditionIndex = headers.findIndex(h => h.includes('condition'));
 
-    if (sampleIndex === -1 || conditionIndex === -1) {
-        throw new Error("Metadata file must contain 'sample' and 'condition' headers.");
+// --- ID Conversion Utilities ---
+
+const sumRow = (row: { [key: string]: number }): number => {
+    let total = 0;
+    for (const sample in row) total += row[sample] || 0;
+    return total;
+};
+
+// Re-keys a count matrix from original IDs to symbols and records what happened to
+// every ID. IDs without a symbol are dropped unless `keepUnmapped` is set, in which
+// case they stay under their original ID. IDs sharing a symbol are collapsed
+// according to `collapseStrategy`:
+//   sum    - counts are added up under the symbol
+//   max    - only the ID with the most reads is kept
+//   suffix - all are kept, as SYMBOL, SYMBOL.1, SYMBOL.2, ... (like R's make.unique)
+export const remapMatrixToSymbols = (
+    matrix: CountMatrix,
+    conversionMap: { [key: string]: string },
+    options: IdMappingOptions
+): IdMappingResult => {
+    const idsBySymbol = new Map<string, string[]>();
+    const unmappedIds: string[] = [];
+    for (const oldId in matrix) {
+        const symbol = conversionMap[oldId];
+        if (!symbol) {
+            unmappedIds.push(oldId);
+            continue;
+        }
+        const ids = idsBySymbol.get(symbol) ?? [];
+        ids.push(oldId);
+        idsBySymbol.set(symbol, ids);
     }
-    
-    const metadata: SampleMetadata = {};
 
-    for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].trim().split(delimiter);
-        if (values.length < headers.length) continue;
+    const newMatrix: CountMatrix = {};
+    const records: IdMappingRecord[] = [];
 
-        const sample = values[sampleIndex].replace(/"/g, '');
-        const condition = values[conditionIndex].replace(/"/g, '');
+    idsBySymbol.forEach((ids, symbol) => {
+        if (ids.length === 1) {
+            newMatrix[symbol] = matrix[ids[0]];
+            records.push({ originalId: ids[0], symbol, status: 'mapped', finalId: symbol, totalCount: sumRow(matrix[ids[0]]) });
+            return;
+        }
 
-        if (sample && condition) {
-            metadata[sample] = condition;
+        const totals = ids.map(id => sumRow(matrix[id]));
+        if (options.collapseStrategy === 'sum') {
+            const merged: { [key: string]: number } = {};
+            ids.forEach(id => {
+                for (const sample in matrix[id]) {
+                    merged[sample] = (merged[sample] || 0) + matrix[id][sample];
+                }
+            });
+            newMatrix[symbol] = merged;
+            ids.forEach((id, i) => records.push({ originalId: id, symbol, status: 'collapsed', finalId: symbol, totalCount: totals[i] }));
+        } else if (options.collapseStrategy === 'max') {
+            const best = totals.indexOf(Math.max(...totals));
+            newMatrix[symbol] = matrix[ids[best]];
+            ids.forEach((id, i) => records.push({ originalId: id, symbol, status: 'collapsed', finalId: i === best ? symbol : null, totalCount: totals[i] }));
+        } else {
+            ids.forEach((id, i) => {
+                const finalId = i === 0 ? symbol : `${symbol}.${i}`;
+                newMatrix[finalId] = matrix[id];
+                records.push({ originalId: id, symbol, status: 'collapsed', finalId, totalCount: totals[i] });
+            });
         }
+    });
+
+    for (const oldId of unmappedIds) {
+        // An unmapped ID that happens to equal a symbol already in use is dropped
+        const keep = options.keepUnmapped && !newMatrix[oldId];
+        if (keep) newMatrix[oldId] = matrix[oldId];
+        records.push({ originalId: oldId, symbol: null, status: 'unmapped', finalId: keep ? oldId : null, totalCount: sumRow(matrix[oldId]) });
     }
 
-    return metadata;
+    const finalIds: { [key: string]: string } = {};
+    records.forEach(r => {
+        if (r.finalId) finalIds[r.originalId] = r.finalId;
+    });
+    return { matrix: newMatrix, records, finalIds };
 };
 
+// Re-keys feature lengths after ID conversion. When several IDs collapse onto one
+// symbol, the longest feature is kept.
+export const remapFeatureLengths = (
+    lengths: FeatureLengths,
+    conversionMap: { [key: string]: string }
+): FeatureLengths => {
+    const newLengths: FeatureLengths = {};
 
-// --- ID Conversion Utilities ---
-
-export const convertIdsToSymbols = async (
-    ids: string[],
-    inputType: GeneIdentifierType
-): Promise<{ [key: string]: string }> => {
-    // MyGene.info is good at handling versioned Ensembl IDs, so no pre-trimming needed here.
-    const scopes = 'ensembl.gene,entrezgene,uniprot'; // Scopes to search in mygene.info
-    const conversionMap: { [key: string]: string } = {};
-    const batchSize = 1000;
-
-    for (let i = 0; i < ids.length; i += batchSize) {
-        const batch = ids.slice(i, i + batchSize);
-        try {
-            const response = await fetch('https://mygene.info/v3/query', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                body: `q=${batch.join(',')}&scopes=${scopes}&fields=symbol&species=human,mouse,rat`,
-            });
-            if (!response.ok) {
-                throw new Error(`MyGene.info API request failed with status ${response.status}`);
-            }
-            const data = await response.json();
-            for (const item of data) {
-                if (item.symbol && !item.notfound) {
-                    conversionMap[item.query] = item.symbol;
-                }
-            }
-        } catch (error) {
-            console.error('Error converting gene IDs:', error);
-            // Continue with the next batch even if one fails
+    for (const oldId in lengths) {
+        const newSymbol = conversionMap[oldId];
+        if (newSymbol) {
+            newLengths[newSymbol] = Math.max(newLengths[newSymbol] ?? 0, lengths[oldId]);
         }
     }
-    return conversionMap;
+    return newLengths;
 };
 
-export const remapMatrixToSymbols = (
-    matrix: CountMatrix,
+// Re-keys a gene x sample average transcript length matrix after ID conversion. When
+// several IDs collapse onto one symbol, their lengths are averaged weighted by counts,
+// mirroring how tximport combines transcripts.
+export const remapAverageTxLengths = (
+    lengths: CountMatrix,
+    counts: CountMatrix,
     conversionMap: { [key: string]: string }
 ): CountMatrix => {
-    const newMatrix: CountMatrix = {};
+    const weighted: { [key: string]: { [key: string]: { sum: number; weight: number; n: number; plain: number } } } = {};
 
-    for (const oldId in matrix) {
+    for (const oldId in lengths) {
         const newSymbol = conversionMap[oldId];
-        if (newSymbol) {
-            // If the symbol already exists (e.g., from two transcripts mapping to one gene), aggregate counts.
-            if (newMatrix[newSymbol]) {
-                for (const sample in matrix[oldId]) {
-                    newMatrix[newSymbol][sample] = (newMatrix[newSymbol][sample] || 0) + matrix[oldId][sample];
-                }
-            } else {
-                newMatrix[newSymbol] = matrix[oldId];
-            }
+        if (!newSymbol) continue;
+        weighted[newSymbol] ??= {};
+        for (const sample in lengths[oldId]) {
+            const entry = weighted[newSymbol][sample] ??= { sum: 0, weight: 0, n: 0, plain: 0 };
+            const count = counts[oldId]?.[sample] ?? 0;
+            entry.sum += lengths[oldId][sample] * count;
+            entry.weight += count;
+            entry.plain += lengths[oldId][sample];
+            entry.n++;
         }
     }
-    return newMatrix;
-};
\ No newline at end of file
+
+    const newLengths: CountMatrix = {};
+    for (const symbol in weighted) {
+        newLengths[symbol] = {};
+        for (const sample in weighted[symbol]) {
+            const { sum, weight, n, plain } = weighted[symbol][sample];
+            newLengths[symbol][sample] = weight > 0 ? sum / weight : plain / n;
+        }
+    }
+    return newLengths;
+};
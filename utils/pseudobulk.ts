@@ -0,0 +1,270 @@
+import type { CellAssignments, CountMatrix, PseudobulkGrouping, SampleMetadata } from '../types';
+import { CsvTokenizer } from './csv';
+
+const PERCENT = 37;
+const SPACE = 32;
+const TAB = 9;
+const ZERO = 48;
+const NINE = 57;
+
+const ASSIGNMENT_COLUMNS = {
+    barcode: /^(barcode|cell|cell_?id|cell_?barcode)s?$/i,
+    sample: /^(sample|sample_?id|sample_?name|orig\.ident|donor)$/i,
+    cellType: /^(cell_?type|celltype|cell\.type|annotation|cluster)s?$/i,
+    condition: /^(condition|group|treatment)$/i,
+};
+
+const findColumn = (headers: string[], pattern: RegExp): number =>
+    headers.findIndex(h => pattern.test(h.trim()));
+
+// Reads a barcode -> sample (-> cell type) table. With a header, columns are found by
+// name and an optional condition column is kept; without one, the columns are taken
+// as barcode, sample and cell type in that order.
+export const parseCellAssignments = (text: string): CellAssignments => {
+    const tokenizer = new CsvTokenizer();
+    const rows = [...tokenizer.push(text), ...tokenizer.end()].filter(row => row.some(v => v.trim() !== ''));
+    if (rows.length === 0) return {};
+
+    const headers = rows[0];
+    const index = {
+        barcode: findColumn(headers, ASSIGNMENT_COLUMNS.barcode),
+        sample: findColumn(headers, ASSIGNMENT_COLUMNS.sample),
+        cellType: findColumn(headers, ASSIGNMENT_COLUMNS.cellType),
+        condition: findColumn(headers, ASSIGNMENT_COLUMNS.condition),
+    };
+    const hasHeader = index.barcode !== -1 || index.sample !== -1;
+    if (hasHeader) {
+        if (index.sample === -1) {
+            throw new Error('The cell assignment table needs a sample column (e.g. "sample").');
+        }
+        // Seurat and scanpy exports often leave the barcode column unnamed
+        if (index.barcode === -1) index.barcode = 0;
+    } else {
+        index.barcode = 0;
+        index.sample = 1;
+        index.cellType = headers.length > 2 ? 2 : -1;
+    }
+
+    const assignments: CellAssignments = {};
+    for (const row of rows.slice(hasHeader ? 1 : 0)) {
+        const barcode = row[index.barcode]?.trim();
+        const sample = row[index.sample]?.trim();
+        if (!barcode || !sample) continue;
+        const cellType = index.cellType !== -1 ? row[index.cellType]?.trim() : undefined;
+        const condition = index.condition !== -1 ? row[index.condition]?.trim() : undefined;
+        assignments[barcode] = {
+            sample,
+            ...(cellType ? { cellType } : {}),
+            ...(condition ? { condition } : {}),
+        };
+    }
+    return assignments;
+};
+
+const splitLines = (text: string): string[] =>
+    text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+
+export const parseBarcodes = (text: string): string[] => splitLines(text).map(line => line.split('\t')[0]);
+
+export interface MtxFeatures {
+    geneIds: string[];
+    // feature (matrix row) -> index into geneIds, or -1 for skipped features
+    rowGene: Int32Array;
+    skipped: number;
+}
+
+// Reads features.tsv (gene ID, name, feature type) or the older two-column genes.tsv.
+// Antibody capture, CRISPR guide and other non-gene-expression features are skipped.
+export const parseFeatures = (text: string): MtxFeatures => {
+    const lines = splitLines(text);
+    const geneIndex = new Map<string, number>();
+    const rowGene = new Int32Array(lines.length);
+    let skipped = 0;
+
+    lines.forEach((line, row) => {
+        const [id, , type] = line.split('\t');
+        if (type && type !== 'Gene Expression') {
+            rowGene[row] = -1;
+            skipped++;
+            return;
+        }
+        if (!geneIndex.has(id)) geneIndex.set(id, geneIndex.size);
+        rowGene[row] = geneIndex.get(id)!;
+    });
+    return { geneIds: [...geneIndex.keys()], rowGene, skipped };
+};
+
+export interface PseudobulkGroups {
+    names: string[];
+    samples: string[];
+    cellTypes: (string | undefined)[];
+    conditions: (string | undefined)[];
+    cellCounts: number[];
+    // barcode (matrix column) -> group index, or -1 for unassigned cells
+    columnGroup: Int32Array;
+    unassignedCells: number;
+}
+
+// Decides which pseudobulk sample each barcode is summed into.
+export const groupBarcodes = (
+    barcodes: string[],
+    assignments: CellAssignments,
+    grouping: PseudobulkGrouping
+): PseudobulkGroups => {
+    const groups: PseudobulkGroups = {
+        names: [], samples: [], cellTypes: [], conditions: [], cellCounts: [],
+        columnGroup: new Int32Array(barcodes.length),
+        unassignedCells: 0,
+    };
+    const groupIndex = new Map<string, number>();
+
+    barcodes.forEach((barcode, column) => {
+        const assignment = assignments[barcode];
+        const cellType = grouping === 'sample_cell_type' ? assignment?.cellType : undefined;
+        if (!assignment || (grouping === 'sample_cell_type' && !cellType)) {
+            groups.columnGroup[column] = -1;
+            groups.unassignedCells++;
+            return;
+        }
+        const name = cellType ? `${assignment.sample}_${cellType}` : assignment.sample;
+        let index = groupIndex.get(name);
+        if (index === undefined) {
+            index = groups.names.length;
+            groupIndex.set(name, index);
+            groups.names.push(name);
+            groups.samples.push(assignment.sample);
+            groups.cellTypes.push(cellType);
+            groups.conditions.push(assignment.condition);
+            groups.cellCounts.push(0);
+        }
+        groups.cellCounts[index]++;
+        groups.columnGroup[column] = index;
+    });
+    return groups;
+};
+
+// Streams a MatrixMarket coordinate file (features x barcodes, as written by Cell Ranger)
+// and adds every entry to its gene x group sum. Only the summed gene x group table is
+// held in memory; the cell-level matrix is never expanded.
+export class MtxAccumulator {
+    private pending = '';
+    private sizeRead = false;
+    private entries = 0;
+    readonly sums: Float64Array;
+
+    constructor(
+        private features: MtxFeatures,
+        private columnGroup: Int32Array,
+        private groupCount: number
+    ) {
+        this.sums = new Float64Array(features.geneIds.length * groupCount);
+    }
+
+    get entryCount(): number {
+        return this.entries;
+    }
+
+    push(chunk: string) {
+        const text = this.pending + chunk;
+        let start = 0;
+        for (let end = text.indexOf('\n'); end !== -1; end = text.indexOf('\n', start)) {
+            this.readLine(text, start, end);
+            start = end + 1;
+        }
+        this.pending = text.slice(start);
+    }
+
+    end() {
+        if (this.pending) this.readLine(this.pending, 0, this.pending.length);
+        this.pending = '';
+        if (!this.sizeRead) {
+            throw new Error('The matrix file has no MatrixMarket size line.');
+        }
+    }
+
+    private readLine(text: string, start: number, end: number) {
+        if (text.charCodeAt(start) === PERCENT) {
+            if (text.startsWith('%%MatrixMarket', start) && !/coordinate/i.test(text.slice(start, end))) {
+                throw new Error('Only sparse (coordinate) MatrixMarket files are supported.');
+            }
+            return;
+        }
+
+        // Row and column are 1-based integers; the value may be real
+        let pos = start;
+        const fields = [0, 0];
+        for (let f = 0; f < 2; f++) {
+            while (pos < end && (text.charCodeAt(pos) === SPACE || text.charCodeAt(pos) === TAB)) pos++;
+            let value = 0;
+            let digits = 0;
+            for (let c = text.charCodeAt(pos); pos < end && c >= ZERO && c <= NINE; c = text.charCodeAt(++pos)) {
+                value = value * 10 + (c - ZERO);
+                digits++;
+            }
+            if (digits === 0) {
+                if (f === 0 && text.slice(start, end).trim() === '') return;
+                throw new Error(`Could not read matrix line "${text.slice(start, Math.min(end, start + 50))}".`);
+            }
+            fields[f] = value;
+        }
+        const count = parseFloat(text.slice(pos, end));
+
+        if (!this.sizeRead) {
+            // The size line: rows, columns, non-zero entries
+            const [rows, columns] = fields;
+            if (rows !== this.features.rowGene.length || columns !== this.columnGroup.length) {
+                throw new Error(`The matrix is ${rows} features x ${columns} barcodes, but the features and barcodes files list ${this.features.rowGene.length} and ${this.columnGroup.length}.`);
+            }
+            this.sizeRead = true;
+            return;
+        }
+
+        this.entries++;
+        const gene = this.features.rowGene[fields[0] - 1];
+        const group = this.columnGroup[fields[1] - 1];
+        if (gene === -1 || group === -1 || gene === undefined || group === undefined || isNaN(count)) return;
+        this.sums[gene * this.groupCount + group] += count;
+    }
+}
+
+export const buildPseudobulkMatrix = (geneIds: string[], groupNames: string[], sums: Float64Array): CountMatrix => {
+    const matrix: CountMatrix = {};
+    geneIds.forEach((gene, g) => {
+        const row: { [key: string]: number } = {};
+        groupNames.forEach((name, s) => { row[name] = sums[g * groupNames.length + s]; });
+        matrix[gene] = row;
+    });
+    return matrix;
+};
+
+// One metadata row per pseudobulk sample. The condition comes from the assignment
+// table when it has one, and falls back to the sample so it can be reassigned later.
+export const buildPseudobulkMetadata = (groups: PseudobulkGroups): SampleMetadata => {
+    const metadata: SampleMetadata = {};
+    groups.names.forEach((name, i) => {
+        const covariates: SampleMetadata[string]['covariates'] = { sample_id: groups.samples[i], n_cells: groups.cellCounts[i] };
+        if (groups.cellTypes[i]) covariates.cell_type = groups.cellTypes[i]!;
+        metadata[name] = { condition: groups.conditions[i] ?? groups.samples[i], covariates };
+    });
+    return metadata;
+};
+
+export interface TenxFiles {
+    matrix: File;
+    barcodes: File;
+    features: File;
+}
+
+export const isMtxFile = (fileName: string): boolean => /\.mtx(\.gz)?$/i.test(fileName);
+
+// Picks matrix.mtx, barcodes.tsv and features.tsv (genes.tsv before Cell Ranger 3)
+// out of an upload, optionally gzip-compressed and with a sample prefix.
+export const findTenxFiles = (files: File[]): TenxFiles => {
+    const matrix = files.find(f => isMtxFile(f.name));
+    const barcodes = files.find(f => /barcodes\.tsv(\.gz)?$/i.test(f.name));
+    const features = files.find(f => /(features|genes)\.tsv(\.gz)?$/i.test(f.name));
+    if (!matrix || !barcodes || !features || files.length !== 3) {
+        throw new Error('A 10x import needs exactly three files: matrix.mtx, barcodes.tsv and features.tsv (optionally .gz).');
+    }
+    return { matrix, barcodes, features };
+};
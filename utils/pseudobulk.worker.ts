@@ -0,0 +1,40 @@
+import { MtxAccumulator, type MtxFeatures } from './pseudobulk';
+import { streamFileText } from './fileStream';
+
+export type PseudobulkWorkerMessage =
+    | { type: 'progress'; fraction: number }
+    | { type: 'result'; sums: Float64Array; entryCount: number }
+    | { type: 'error'; message: string };
+
+const post = (message: PseudobulkWorkerMessage) => self.postMessage(message);
+
+export interface PseudobulkWorkerRequest {
+    file: File;
+    features: MtxFeatures;
+    columnGroup: Int32Array;
+    groupCount: number;
+}
+
+self.onmessage = async (event: MessageEvent<PseudobulkWorkerRequest>) => {
+    const { file, features, columnGroup, groupCount } = event.data;
+    const accumulator = new MtxAccumulator(features, columnGroup, groupCount);
+    let lastReported = 0;
+
+    try {
+        await streamFileText(
+            file,
+            chunk => accumulator.push(chunk),
+            fraction => {
+                // Throttle progress messages to whole percentage steps
+                if (fraction - lastReported >= 0.01 || fraction === 1) {
+                    lastReported = fraction;
+                    post({ type: 'progress', fraction });
+                }
+            }
+        );
+        accumulator.end();
+        post({ type: 'result', sums: accumulator.sums, entryCount: accumulator.entryCount });
+    } catch (e: any) {
+        post({ type: 'error', message: `Could not read ${file.name}: ${e.message}` });
+    }
+};
@@ -0,0 +1,64 @@
+import type { CountMatrix, SampleMetadata } from '../types';
+
+// Categorical palette for metadata groups, in the order groups are first seen
+export const GROUP_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#fbbf24', '#a78bfa', '#f87171', '#34d399', '#fb923c', '#60a5fa', '#e879f9'];
+
+export interface BoxStats {
+    sample: string;
+    lower: number; // lowest value within 1.5 IQR of the first quartile
+    q1: number;
+    median: number;
+    q3: number;
+    upper: number; // highest value within 1.5 IQR of the third quartile
+}
+
+// Quantile of sorted values with linear interpolation (R's default, type 7).
+const quantile = (sorted: number[], p: number): number => {
+    const position = (sorted.length - 1) * p;
+    const below = Math.floor(position);
+    const above = Math.ceil(position);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+export const getBoxStats = (sample: string, values: number[]): BoxStats => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const reach = 1.5 * (q3 - q1);
+    return {
+        sample,
+        lower: sorted.find(v => v >= q1 - reach) ?? q1,
+        q1,
+        median: quantile(sorted, 0.5),
+        q3,
+        upper: [...sorted].reverse().find(v => v <= q3 + reach) ?? q3,
+    };
+};
+
+// Per-sample distribution of log2(count + 1) over the given genes.
+export const getCountDistributions = (matrix: CountMatrix, genes: string[], samples: string[]): BoxStats[] =>
+    samples.map(sample => getBoxStats(sample, genes.map(gene => Math.log2((matrix[gene]?.[sample] ?? 0) + 1))));
+
+// Columns samples can be grouped by: the condition, then every covariate.
+export const getGroupingColumns = (metadata: SampleMetadata): string[] => {
+    const covariates = new Set(Object.keys(metadata).flatMap(s => Object.keys(metadata[s].covariates)));
+    return ['condition', ...covariates];
+};
+
+// Each sample's value in a grouping column, as a label.
+export const getSampleGroups = (metadata: SampleMetadata, samples: string[], column: string): { [sample: string]: string } =>
+    Object.fromEntries(samples.map(sample => {
+        const info = metadata[sample];
+        const value = column === 'condition' ? info?.condition : info?.covariates[column];
+        return [sample, value === undefined || value === '' ? 'NA' : String(value)];
+    }));
+
+// A color per group label, following the order of the samples.
+export const getGroupColors = (groups: { [sample: string]: string }, samples: string[]): { [group: string]: string } => {
+    const colors: { [group: string]: string } = {};
+    samples.forEach(sample => {
+        const group = groups[sample];
+        if (!(group in colors)) colors[group] = GROUP_COLORS[Object.keys(colors).length % GROUP_COLORS.length];
+    });
+    return colors;
+};
@@ -0,0 +1,76 @@
+import type { ComparisonResult, DeEngine, GeneData, GeneResultFlag, LfcMode, LfcShrinkType } from '../types';
+
+// Minimum |log2 fold change| for a gene to count as up- or down-regulated.
+export const FC_THRESHOLD = 1.0;
+
+export const SHRINK_LABELS: { [key in LfcShrinkType]: string } = {
+    none: 'None',
+    apeglm: 'apeglm',
+    ashr: 'ashr',
+    normal: 'normal',
+};
+
+export const ENGINE_LABELS: { [key in DeEngine]: string } = {
+    deseq2: 'DESeq2',
+    edger: 'edgeR QL',
+    limma: 'limma-voom',
+};
+
+const PAIRWISE_TEST_LABELS: { [key in DeEngine]: string } = {
+    deseq2: 'Wald',
+    edger: 'QL F-test',
+    limma: 'moderated t',
+};
+
+export const getTestLabel = (result: Pick<ComparisonResult, 'engine' | 'test'>): string =>
+    result.test === 'lrt' ? 'LRT' : PAIRWISE_TEST_LABELS[result.engine];
+
+export const getComparisonLabel = (result: ComparisonResult): string =>
+    `${result.contrast} (${ENGINE_LABELS[result.engine]}, ${getTestLabel(result)})`;
+
+export const FLAG_LABELS: { [key in GeneResultFlag]: string } = {
+    all_zero: 'All counts zero',
+    low_count: 'Removed by independent filtering',
+    outlier: "Cook's distance outlier",
+};
+
+// Genes with a padj below the threshold. Flagged genes have no padj and never qualify.
+export const isSignificant = (gene: GeneData, padjThreshold: number): boolean =>
+    gene.padj !== null && gene.padj < padjThreshold && gene.log2FoldChange !== null;
+
+// The log2 fold change to display. Falls back to the raw MLE when the run had no shrinkage.
+export const getLfc = (gene: GeneData, mode: LfcMode): number | null =>
+    mode === 'shrunk' && gene.log2FoldChangeShrunk !== undefined ? gene.log2FoldChangeShrunk : gene.log2FoldChange;
+
+export const getSignificantGenes = (genes: GeneData[], padjThreshold: number, mode: LfcMode) => {
+    const significant = genes.filter(g => isSignificant(g, padjThreshold) && getLfc(g, mode) !== null);
+    const up = significant
+        .filter(g => getLfc(g, mode) > FC_THRESHOLD)
+        .sort((a, b) => getLfc(b, mode) - getLfc(a, mode));
+    const down = significant
+        .filter(g => getLfc(g, mode) < -FC_THRESHOLD)
+        .sort((a, b) => getLfc(a, mode) - getLfc(b, mode));
+    return { up, down };
+};
+
+export const formatPValue = (value: number | null, digits = 2): string =>
+    value === null ? 'NA' : value.toExponential(digits);
+
+export const countResultFlags = (genes: GeneData[]): { [key in GeneResultFlag]: number } => {
+    const counts = { all_zero: 0, low_count: 0, outlier: 0 };
+    genes.forEach(g => { if (g.flag) counts[g.flag]++; });
+    return counts;
+};
+
+// One row per gene with the DESeq2 column names in their usual order, for spreadsheet export.
+export const toResultRows = (genes: GeneData[]) => genes.map(g => ({
+    gene: g.gene,
+    baseMean: g.baseMean,
+    log2FoldChange: g.log2FoldChange,
+    lfcSE: g.lfcSE,
+    ...(g.log2FoldChangeShrunk !== undefined ? { log2FoldChangeShrunk: g.log2FoldChangeShrunk, lfcSEShrunk: g.lfcSEShrunk } : {}),
+    stat: g.stat,
+    pvalue: g.pvalue,
+    padj: g.padj,
+    flag: g.flag ? FLAG_LABELS[g.flag] : '',
+}));
@@ -0,0 +1,65 @@
+import type { CountMatrix, SampleEdits, SampleMetadata } from '../types';
+import { getMatrixSamples } from './matrix';
+
+export interface EditedSamples {
+    matrix: CountMatrix;
+    metadata: SampleMetadata;
+    // edited sample name -> name in the uploaded files
+    originalNames: { [key: string]: string };
+}
+
+// Every sample in either upload, metadata order first.
+export const getAllSamples = (matrix: CountMatrix, metadata: SampleMetadata): string[] => {
+    return [...new Set([...Object.keys(metadata), ...getMatrixSamples(matrix)])];
+};
+
+export const getExcludedSamples = (edits: SampleEdits): string[] => {
+    return Object.keys(edits).filter(s => edits[s].excluded);
+};
+
+// Builds the view of the uploaded data that analyses run on: excluded samples are
+// dropped, and renamed or reassigned samples take their new name and condition.
+// A sample that is only in the count matrix joins the metadata once it is given
+// a condition. The uploaded matrix and metadata are never modified.
+export const applySampleEdits = (
+    matrix: CountMatrix,
+    metadata: SampleMetadata,
+    edits: SampleEdits
+): EditedSamples => {
+    if (Object.keys(edits).length === 0) {
+        const originalNames: { [key: string]: string } = {};
+        getAllSamples(matrix, metadata).forEach(s => { originalNames[s] = s; });
+        return { matrix, metadata, originalNames };
+    }
+
+    const matrixSamples = new Set(getMatrixSamples(matrix));
+    const newMetadata: SampleMetadata = {};
+    const matrixNames: { [key: string]: string } = {};
+    const originalNames: { [key: string]: string } = {};
+
+    for (const sample of getAllSamples(matrix, metadata)) {
+        const edit = edits[sample];
+        if (edit?.excluded) continue;
+        const name = edit?.name || sample;
+        originalNames[name] = sample;
+
+        const condition = edit?.condition || metadata[sample]?.condition;
+        if (condition) {
+            newMetadata[name] = { condition, covariates: metadata[sample]?.covariates ?? {} };
+        }
+        if (matrixSamples.has(sample)) {
+            matrixNames[sample] = name;
+        }
+    }
+
+    const newMatrix: CountMatrix = {};
+    for (const gene in matrix) {
+        const row: { [key: string]: number } = {};
+        for (const sample in matrixNames) {
+            row[matrixNames[sample]] = matrix[gene][sample];
+        }
+        newMatrix[gene] = row;
+    }
+
+    return { matrix: newMatrix, metadata: newMetadata, originalNames };
+};
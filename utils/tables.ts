@@ -0,0 +1,51 @@
+import * as XLSX from 'xlsx';
+import type { DataTable } from '../types';
+import { CsvTokenizer } from './csv';
+import { readFileText } from './fileStream';
+
+// A file opened for the column-mapping dialog. CSV/TSV files have a single sheet.
+export interface TableWorkbook {
+    fileName: string;
+    sheetNames: string[];
+    getSheet: (sheetName: string) => DataTable;
+}
+
+export const isExcelFile = (fileName: string): boolean => /\.xlsx?$/i.test(fileName);
+
+const toCell = (value: any): string => (value !== undefined && value !== null ? String(value).trim() : '');
+
+// Pads or trims every row to the header width and drops blank rows.
+const toDataTable = (data: any[][]): DataTable => {
+    if (data.length === 0) return { headers: [], rows: [] };
+    const headers = data[0].map(toCell);
+    const rows = data.slice(1)
+        .filter(row => row && row.some(v => toCell(v) !== ''))
+        .map(row => headers.map((_, i) => toCell(row[i])));
+    return { headers, rows };
+};
+
+export const readTableWorkbook = async (file: File): Promise<TableWorkbook> => {
+    if (isExcelFile(file.name)) {
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+        const cache = new Map<string, DataTable>();
+        return {
+            fileName: file.name,
+            sheetNames: workbook.SheetNames,
+            getSheet: sheetName => {
+                if (!cache.has(sheetName)) {
+                    const worksheet = workbook.Sheets[sheetName];
+                    cache.set(sheetName, toDataTable(worksheet ? XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: false }) : []));
+                }
+                return cache.get(sheetName)!;
+            },
+        };
+    }
+
+    const tokenizer = new CsvTokenizer();
+    const table = toDataTable([...tokenizer.push(await readFileText(file)), ...tokenizer.end()]);
+    return {
+        fileName: file.name,
+        sheetNames: [file.name],
+        getSheet: () => table,
+    };
+};
@@ -0,0 +1,205 @@
+import type { CountMatrix, SampleMetadata, ValidationFix, ValidationIssue } from '../types';
+import { getLibrarySizes, getMatrixSamples, median } from './matrix';
+
+// Robust z-score beyond which a sample's log library size is reported as an outlier.
+const LIBRARY_SIZE_OUTLIER_Z = 3;
+
+export interface ValidationContext {
+    duplicateGeneIds: string[];
+    // Transcript-level imports are rounded in R, so fractional counts are expected there
+    allowFractionalCounts: boolean;
+}
+
+// Checks the count matrix against the sample metadata before DESeq2 is run. Blocking
+// issues would make the R script fail or silently produce wrong results; warnings
+// are worth a look but do not stop the analysis.
+export const validateInputs = (
+    matrix: CountMatrix,
+    metadata: SampleMetadata,
+    context: ValidationContext
+): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const matrixSamples = getMatrixSamples(matrix);
+    const matrixSampleSet = new Set(matrixSamples);
+    const metadataSamples = Object.keys(metadata);
+    const metadataSampleSet = new Set(metadataSamples);
+    const sharedSamples = metadataSamples.filter(s => matrixSampleSet.has(s));
+
+    const missingFromMatrix = metadataSamples.filter(s => !matrixSampleSet.has(s));
+    if (missingFromMatrix.length > 0) {
+        issues.push({
+            id: 'missing_in_matrix',
+            severity: 'blocking',
+            title: `${missingFromMatrix.length} metadata sample(s) not found in the count matrix`,
+            items: missingFromMatrix,
+            fixes: [{ label: 'Remove from metadata', action: { kind: 'drop_samples', samples: missingFromMatrix } }],
+        });
+    }
+
+    const missingFromMetadata = matrixSamples.filter(s => !metadataSampleSet.has(s));
+    if (missingFromMetadata.length > 0) {
+        issues.push({
+            id: 'missing_in_metadata',
+            severity: 'warning',
+            title: `${missingFromMetadata.length} count matrix sample(s) have no metadata and will be ignored`,
+            items: missingFromMetadata,
+            fixes: [{ label: 'Remove from matrix', action: { kind: 'drop_samples', samples: missingFromMetadata } }],
+        });
+    }
+
+    const fractionalGenes: string[] = [];
+    const negativeGenes: string[] = [];
+    const invalidGenes: string[] = [];
+    const invalidCells: string[] = [];
+    for (const gene in matrix) {
+        let fractional = false;
+        let negative = false;
+        let invalid = false;
+        for (const sample of sharedSamples) {
+            const value = matrix[gene][sample];
+            if (value === undefined) continue;
+            // Empty or non-numeric cells are kept as NaN by the parser
+            if (isNaN(value)) {
+                invalid = true;
+                invalidCells.push(`${gene} in ${sample}`);
+                continue;
+            }
+            if (value < 0) negative = true;
+            if (!Number.isInteger(value)) fractional = true;
+        }
+        if (fractional) fractionalGenes.push(gene);
+        if (negative) negativeGenes.push(gene);
+        if (invalid) invalidGenes.push(gene);
+    }
+
+    if (invalidCells.length > 0) {
+        issues.push({
+            id: 'invalid_counts',
+            severity: 'blocking',
+            title: `${invalidCells.length} count cell(s) in ${invalidGenes.length} gene(s) are empty or not a number`,
+            items: invalidCells,
+            fixes: [
+                { label: 'Remove these genes', action: { kind: 'drop_genes', genes: invalidGenes } },
+                { label: 'Set these cells to 0', action: { kind: 'zero_invalid_counts' } },
+            ],
+        });
+    }
+
+    if (fractionalGenes.length > 0 && !context.allowFractionalCounts) {
+        issues.push({
+            id: 'non_integer_counts',
+            severity: 'blocking',
+            title: `${fractionalGenes.length} gene(s) have non-integer counts; DESeq2 requires raw integer counts`,
+            items: fractionalGenes,
+            fixes: [{ label: 'Round to integers', action: { kind: 'round_counts' } }],
+        });
+    }
+
+    if (negativeGenes.length > 0) {
+        issues.push({
+            id: 'negative_counts',
+            severity: 'blocking',
+            title: `${negativeGenes.length} gene(s) have negative counts`,
+            items: negativeGenes,
+            fixes: [{ label: 'Remove these genes', action: { kind: 'drop_genes', genes: negativeGenes } }],
+        });
+    }
+
+    const duplicates = context.duplicateGeneIds.filter(g => matrix[g]);
+    if (duplicates.length > 0) {
+        issues.push({
+            id: 'duplicate_genes',
+            severity: 'warning',
+            title: `${duplicates.length} gene ID(s) appeared on more than one row, or on several versions of one Ensembl ID; their counts were summed`,
+            items: duplicates,
+            fixes: [{ label: 'Remove these genes', action: { kind: 'drop_genes', genes: duplicates } }],
+        });
+    }
+
+    const librarySizes = getLibrarySizes(matrix, sharedSamples);
+    const emptySamples = sharedSamples.filter(s => librarySizes[s] === 0);
+    if (emptySamples.length > 0) {
+        issues.push({
+            id: 'empty_samples',
+            severity: 'blocking',
+            title: `${emptySamples.length} sample(s) have zero counts for every gene`,
+            items: emptySamples,
+            fixes: [{ label: 'Remove these samples', action: { kind: 'drop_samples', samples: emptySamples } }],
+        });
+    }
+
+    const samplesByCondition: { [key: string]: string[] } = {};
+    sharedSamples.forEach(s => {
+        (samplesByCondition[metadata[s].condition] ??= []).push(s);
+    });
+    const conditions = Object.keys(samplesByCondition);
+    const unreplicated = conditions.filter(c => samplesByCondition[c].length < 2);
+
+    if (conditions.length < 2) {
+        issues.push({
+            id: 'too_few_conditions',
+            severity: 'blocking',
+            title: 'At least two conditions with matching samples are required',
+            items: conditions,
+        });
+    } else if (unreplicated.length > 0) {
+        const replicatedCount = conditions.length - unreplicated.length;
+        const unreplicatedSamples = unreplicated.flatMap(c => samplesByCondition[c]);
+        issues.push({
+            id: 'unreplicated_conditions',
+            // With no replicated condition at all, DESeq2 cannot estimate dispersions
+            severity: replicatedCount === 0 ? 'blocking' : 'warning',
+            title: `${unreplicated.length} condition(s) have fewer than two replicates`,
+            items: unreplicated,
+            fixes: replicatedCount >= 2
+                ? [{ label: 'Remove these conditions', action: { kind: 'drop_samples', samples: unreplicatedSamples } }]
+                : undefined,
+        });
+    }
+
+    const nonEmpty = sharedSamples.filter(s => librarySizes[s] > 0);
+    if (nonEmpty.length >= 3) {
+        const logSizes = nonEmpty.map(s => Math.log10(librarySizes[s]));
+        const center = median(logSizes);
+        const mad = 1.4826 * median(logSizes.map(v => Math.abs(v - center)));
+        const outliers = mad > 0
+            ? nonEmpty.filter((_, i) => Math.abs(logSizes[i] - center) / mad > LIBRARY_SIZE_OUTLIER_Z)
+            : [];
+        if (outliers.length > 0) {
+            issues.push({
+                id: 'library_size_outliers',
+                severity: 'warning',
+                title: `${outliers.length} sample(s) have an unusual library size`,
+                items: outliers.map(s => `${s} (${Math.round(librarySizes[s]).toLocaleString()} reads)`),
+                fixes: [{ label: 'Remove these samples', action: { kind: 'drop_samples', samples: outliers } }],
+            });
+        }
+    }
+
+    return issues;
+};
+
+// Applies a gene-level fix to the count matrix. Sample-level fixes are applied as
+// sample exclusions instead, so the uploaded data stays untouched.
+export const applyValidationFix = (
+    fix: Exclude<ValidationFix, { kind: 'drop_samples' }>,
+    matrix: CountMatrix
+): CountMatrix => {
+    const newMatrix: CountMatrix = {};
+    if (fix.kind === 'drop_genes') {
+        const dropped = new Set(fix.genes);
+        for (const gene in matrix) {
+            if (!dropped.has(gene)) newMatrix[gene] = matrix[gene];
+        }
+        return newMatrix;
+    }
+
+    for (const gene in matrix) {
+        newMatrix[gene] = {};
+        for (const sample in matrix[gene]) {
+            const value = matrix[gene][sample];
+            newMatrix[gene][sample] = fix.kind === 'round_counts' ? Math.round(value) : (isNaN(value) ? 0 : value);
+        }
+    }
+    return newMatrix;
+};